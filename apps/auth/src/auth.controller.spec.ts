@@ -8,6 +8,14 @@ import { CreateUserDto } from '@app/shared/dto/create-user.dto';
 import { Jwt } from './interfaces/jwtToken.interface';
 import { AuthService } from './auth.service';
 import { JwtModule } from '@nestjs/jwt';
+import { getModelToken } from '@nestjs/mongoose';
+import { SessionService } from './session.service';
+import { PasswordResetService } from './password-reset.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { SigningKeyService } from './signing-key.service';
+import { MailService } from '@app/shared';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
 
 describe('AuthController', () => {
   let authController: AuthController;
@@ -27,6 +35,17 @@ describe('AuthController', () => {
       providers: [
         SharedService,
         AuthService,
+        SessionService,
+        PasswordResetService,
+        TwoFactorService,
+        LoginAttemptService,
+        SigningKeyService,
+        { provide: getModelToken('Session'), useValue: {} },
+        { provide: getModelToken('PasswordReset'), useValue: {} },
+        { provide: getModelToken('TwoFactor'), useValue: {} },
+        { provide: getModelToken('LoginAttempt'), useValue: {} },
+        { provide: getModelToken('SigningKey'), useValue: {} },
+        { provide: MailService, useValue: {} },
         { provide: 'USER_SERVICE', useValue: userService },
       ],
     }).compile();
@@ -70,4 +89,25 @@ describe('AuthController', () => {
     expect(await authController.login(context)).toEqual(jwt);
     expect(extractedData.ack).toHaveBeenCalled();
   });
+
+  it('should report a revoked refresh token', async () => {
+    const context = {} as RmqContext;
+    const extractedData: RmqData<string> = {
+      data: 'Bearer test',
+      ack: jest.fn(),
+      nack: jest.fn(),
+      channel: null,
+      message: null,
+      event: null,
+    };
+    const revoked: ErrorData = {
+      statusCode: 2006,
+      error: 'Refresh token has been revoked',
+    };
+    jest.spyOn(sharedService, 'extractData').mockReturnValue(extractedData);
+    jest.spyOn(authService, 'refresh').mockResolvedValue(revoked);
+
+    expect(await authController.refresh(context)).toEqual(revoked);
+    expect(extractedData.ack).toHaveBeenCalled();
+  });
 });
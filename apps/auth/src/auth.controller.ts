@@ -6,6 +6,17 @@ import { ErrorData } from '@app/shared/interfaces/error-data.interface';
 import { LoginUserDto } from '@app/shared/interfaces/login-user.interface';
 import { Jwt, JwtPayload } from './interfaces/jwtToken.interface';
 import { SharedService } from '@app/shared';
+import { ResetPasswordDto } from '@app/shared/dto/reset-password.dto';
+import { TwoFactorLoginDto } from '@app/shared/dto/two-factor.dto';
+import { ChangePasswordDto } from '@app/shared/dto/change-password.dto';
+import { JsonWebKeySet } from '@app/shared/jwks-verifier';
+import { UserReference } from '@app/shared/interfaces/user-reference.interface';
+import { AccountDeletion } from '@app/shared/interfaces/account-deletion.interface';
+import {
+  TwoFactorChallenge,
+  TwoFactorEnrolment,
+} from './interfaces/two-factor.interface';
+import { SessionInfo, SessionMetadata } from './interfaces/session.interface';
 
 @Controller()
 export class AuthController {
@@ -30,8 +41,12 @@ export class AuthController {
   }
 
   @MessagePattern('login')
-  async login(@Ctx() context: RmqContext): Promise<Jwt | null> {
-    const extractedData = this.sharedService.extractData<LoginUserDto>(context);
+  async login(
+    @Ctx() context: RmqContext,
+  ): Promise<Jwt | TwoFactorChallenge | ErrorData | null> {
+    const extractedData = this.sharedService.extractData<
+      LoginUserDto & SessionMetadata
+    >(context);
     try {
       const result = await this.authService.login(extractedData.data);
       extractedData.ack();
@@ -43,8 +58,86 @@ export class AuthController {
     }
   }
 
+  @MessagePattern('login-2fa')
+  async loginTwoFactor(
+    @Ctx() context: RmqContext,
+  ): Promise<Jwt | ErrorData | null> {
+    const extractedData = this.sharedService.extractData<
+      TwoFactorLoginDto & SessionMetadata
+    >(context);
+    try {
+      const result = await this.authService.loginTwoFactor(extractedData.data);
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('enroll-2fa')
+  async enrollTwoFactor(
+    @Ctx() context: RmqContext,
+  ): Promise<TwoFactorEnrolment | ErrorData | null> {
+    const extractedData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.authService.enrollTwoFactor(extractedData.data);
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('confirm-2fa')
+  async confirmTwoFactor(
+    @Ctx() context: RmqContext,
+  ): Promise<string[] | ErrorData | null> {
+    const extractedData = this.sharedService.extractData<{
+      userId: string;
+      code: string;
+    }>(context);
+    try {
+      const result = await this.authService.confirmTwoFactor(
+        extractedData.data.userId,
+        extractedData.data.code,
+      );
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('disable-2fa')
+  async disableTwoFactor(
+    @Ctx() context: RmqContext,
+  ): Promise<boolean | ErrorData> {
+    const extractedData = this.sharedService.extractData<{
+      userId: string;
+      code: string;
+    }>(context);
+    try {
+      const result = await this.authService.disableTwoFactor(
+        extractedData.data.userId,
+        extractedData.data.code,
+      );
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return false;
+    }
+  }
+
   @MessagePattern('refresh')
-  async refresh(@Ctx() context: RmqContext): Promise<Jwt | null> {
+  async refresh(@Ctx() context: RmqContext): Promise<Jwt | ErrorData | null> {
     const extractedData = this.sharedService.extractData<string>(context);
     try {
       const result = await this.authService.refresh(extractedData.data);
@@ -57,6 +150,178 @@ export class AuthController {
     }
   }
 
+  @MessagePattern('logout')
+  async logout(@Ctx() context: RmqContext): Promise<boolean> {
+    const extractedData = this.sharedService.extractData<JwtPayload>(context);
+    try {
+      const result = await this.authService.logout(extractedData.data);
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return false;
+    }
+  }
+
+  @MessagePattern('get-sessions')
+  async getSessions(@Ctx() context: RmqContext): Promise<SessionInfo[]> {
+    const extractedData = this.sharedService.extractData<JwtPayload>(context);
+    try {
+      const result = await this.authService.getSessions(extractedData.data);
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return [];
+    }
+  }
+
+  @MessagePattern('revoke-session')
+  async revokeSession(@Ctx() context: RmqContext): Promise<boolean> {
+    const extractedData = this.sharedService.extractData<{
+      userId: string;
+      sessionId: string;
+    }>(context);
+    try {
+      const result = await this.authService.revokeSession(
+        extractedData.data.userId,
+        extractedData.data.sessionId,
+      );
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return false;
+    }
+  }
+
+  @MessagePattern('request-password-reset')
+  async requestPasswordReset(@Ctx() context: RmqContext): Promise<boolean> {
+    const extractedData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.authService.requestPasswordReset(
+        extractedData.data,
+      );
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return false;
+    }
+  }
+
+  @MessagePattern('reset-password')
+  async resetPassword(
+    @Ctx() context: RmqContext,
+  ): Promise<boolean | ErrorData> {
+    const extractedData =
+      this.sharedService.extractData<ResetPasswordDto>(context);
+    try {
+      const result = await this.authService.resetPassword(extractedData.data);
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return false;
+    }
+  }
+
+  @MessagePattern('change-password')
+  async changePassword(
+    @Ctx() context: RmqContext,
+  ): Promise<boolean | ErrorData> {
+    const extractedData = this.sharedService.extractData<{
+      payload: JwtPayload;
+      changePasswordDto: ChangePasswordDto;
+    }>(context);
+    try {
+      const result = await this.authService.changePassword(
+        extractedData.data.payload,
+        extractedData.data.changePasswordDto,
+      );
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return false;
+    }
+  }
+
+  @MessagePattern('delete-account')
+  async deleteAccount(
+    @Ctx() context: RmqContext,
+  ): Promise<AccountDeletion | ErrorData | null> {
+    const extractedData = this.sharedService.extractData<{
+      payload: JwtPayload;
+      password: string;
+    }>(context);
+    try {
+      const result = await this.authService.deleteAccount(
+        extractedData.data.payload,
+        extractedData.data.password,
+      );
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('purge-user')
+  async purgeUser(@Ctx() context: RmqContext): Promise<boolean> {
+    const extractedData =
+      this.sharedService.extractData<UserReference>(context);
+    try {
+      const result = await this.authService.purgeUser(extractedData.data);
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return false;
+    }
+  }
+
+  @MessagePattern('verify-email')
+  async verifyEmail(@Ctx() context: RmqContext): Promise<boolean | ErrorData> {
+    const extractedData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.authService.verifyEmail(extractedData.data);
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return false;
+    }
+  }
+
+  @MessagePattern('resend-verification')
+  async resendVerification(
+    @Ctx() context: RmqContext,
+  ): Promise<boolean | ErrorData> {
+    const extractedData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.authService.resendVerification(
+        extractedData.data,
+      );
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return false;
+    }
+  }
+
   @MessagePattern('hash-password')
   async hashPassword(@Ctx() context: RmqContext): Promise<string | null> {
     const extractedData = this.sharedService.extractData<string>(context);
@@ -71,6 +336,36 @@ export class AuthController {
     }
   }
 
+  @MessagePattern('get-jwks')
+  async getJwks(@Ctx() context: RmqContext): Promise<JsonWebKeySet | null> {
+    const extractedData = this.sharedService.extractData<unknown>(context);
+    try {
+      const result = await this.authService.getJwks();
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('get-revoked-sessions')
+  async getRevokedSessions(
+    @Ctx() context: RmqContext,
+  ): Promise<string[] | null> {
+    const extractedData = this.sharedService.extractData<unknown>(context);
+    try {
+      const result = await this.authService.getRevokedSessions();
+      extractedData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractedData.nack();
+      return null;
+    }
+  }
+
   @MessagePattern('validate')
   async validate(@Ctx() context: RmqContext): Promise<JwtPayload | null> {
     const extractedData = this.sharedService.extractData<string>(context);
@@ -4,7 +4,18 @@ import { AuthService } from './auth.service';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { ClientProxyFactory, Transport } from '@nestjs/microservices';
 import { JwtModule } from '@nestjs/jwt';
-import { SharedModule } from '@app/shared';
+import { MailModule, SharedModule } from '@app/shared';
+import { MongooseModule } from '@nestjs/mongoose';
+import { SessionSchema } from './schemas/session.schema';
+import { SessionService } from './session.service';
+import { PasswordResetSchema } from './schemas/password-reset.schema';
+import { PasswordResetService } from './password-reset.service';
+import { TwoFactorSchema } from './schemas/two-factor.schema';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptSchema } from './schemas/login-attempt.schema';
+import { LoginAttemptService } from './login-attempt.service';
+import { SigningKeySchema } from './schemas/signing-key.schema';
+import { SigningKeyService } from './signing-key.service';
 
 @Module({
   imports: [
@@ -12,12 +23,36 @@ import { SharedModule } from '@app/shared';
       envFilePath: '.env',
       isGlobal: true,
     }),
+    MongooseModule.forRootAsync({
+      imports: [ConfigModule],
+      useFactory: async (configService: ConfigService) => ({
+        uri: configService.get<string>('MONGODB_URI'),
+      }),
+      inject: [ConfigService],
+    }),
+    MongooseModule.forFeature([{ name: 'Session', schema: SessionSchema }]),
+    MongooseModule.forFeature([
+      { name: 'PasswordReset', schema: PasswordResetSchema },
+    ]),
+    MongooseModule.forFeature([{ name: 'TwoFactor', schema: TwoFactorSchema }]),
+    MongooseModule.forFeature([
+      { name: 'LoginAttempt', schema: LoginAttemptSchema },
+    ]),
+    MongooseModule.forFeature([
+      { name: 'SigningKey', schema: SigningKeySchema },
+    ]),
     JwtModule.register({}),
     SharedModule,
+    MailModule,
   ],
   controllers: [AuthController],
   providers: [
     AuthService,
+    SessionService,
+    PasswordResetService,
+    TwoFactorService,
+    LoginAttemptService,
+    SigningKeyService,
     {
       provide: 'USER_SERVICE',
       useFactory: (configService: ConfigService) => {
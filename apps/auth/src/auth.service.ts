@@ -6,25 +6,81 @@ import { Inject, Injectable } from '@nestjs/common';
 import { ClientProxy } from '@nestjs/microservices';
 import { firstValueFrom } from 'rxjs';
 import { LoginUserDto } from '@app/shared/interfaces/login-user.interface';
-import { Jwt, JwtPayload } from './interfaces/jwtToken.interface';
+import {
+  EmailVerificationPayload,
+  Jwt,
+  JwtPayload,
+  RefreshJwtPayload,
+} from './interfaces/jwtToken.interface';
 import { JwtService } from '@nestjs/jwt';
 import { UpdatePassword } from 'apps/user/src/dto/update-password.dto';
-import { Scrypt } from '@app/shared/scrypt';
+import { PasswordHasher } from '@app/shared/password-hasher';
+import { randomUUID } from 'crypto';
+import { SessionService } from './session.service';
+import { SessionInfo, SessionMetadata } from './interfaces/session.interface';
+import { PasswordResetService } from './password-reset.service';
+import { MailService } from '@app/shared';
+import { ResetPasswordDto } from '@app/shared/dto/reset-password.dto';
+import {
+  ACCESS_TOKEN_TTL,
+  ACCESS_TOKEN_TTL_MS,
+  EMAIL_VERIFICATION_TTL,
+  REFRESH_TOKEN_TTL,
+  SIGNING_KEY_CLOCK_SKEW_MS,
+  TWO_FACTOR_CHALLENGE_TTL,
+  VERIFICATION_RESEND_COOLDOWN_MS,
+} from './constants/token.constant';
+import { getEmailVerificationPolicy } from '@app/shared/email-verification';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptService } from './login-attempt.service';
+import { SigningKeyService } from './signing-key.service';
+import { JsonWebKeySet } from '@app/shared/jwks-verifier';
+import { signEdDsaJwt, verifyEdDsaJwt } from '@app/shared/eddsa-jwt';
+import { UserReference } from '@app/shared/interfaces/user-reference.interface';
+import { AccountDeletion } from '@app/shared/interfaces/account-deletion.interface';
+import {
+  TwoFactorChallenge,
+  TwoFactorEnrolment,
+} from './interfaces/two-factor.interface';
+import { TwoFactorLoginDto } from '@app/shared/dto/two-factor.dto';
+import { ChangePasswordDto } from '@app/shared/dto/change-password.dto';
+import { checkPasswordStrength } from '@app/shared/password-policy';
+import { checkUsername } from '@app/shared/username-policy';
+import { ROLE, Role } from '@app/shared/enums/role.enum';
 
 @Injectable()
 export class AuthService {
   constructor(
     @Inject('USER_SERVICE') private readonly userService: ClientProxy,
     private readonly jwtService: JwtService,
+    private readonly sessionService: SessionService,
+    private readonly passwordResetService: PasswordResetService,
+    private readonly mailService: MailService,
+    private readonly twoFactorService: TwoFactorService,
+    private readonly loginAttemptService: LoginAttemptService,
+    private readonly signingKeyService: SigningKeyService,
   ) {}
   async register(createUserDto: CreateUserDto): Promise<ErrorData | boolean> {
+    const violations = checkUsername(createUserDto.username);
+    if (violations.length > 0) {
+      return {
+        statusCode: 1018,
+        error: `Username ${violations.join(', ')}`,
+      };
+    }
     const user: User | null = await firstValueFrom(
       this.userService.send('find-user-by-email-or-username', {
         email: createUserDto.email,
         username: createUserDto.username,
       } as EmailAndUsernameDto),
     );
-    if (user !== null) {
+    // also catches names differing in case and names given up recently
+    const isUsernameTaken: boolean =
+      user === null &&
+      (await firstValueFrom(
+        this.userService.send('is-username-exist', createUserDto.username),
+      ));
+    if (user !== null || isUsernameTaken) {
       return {
         statusCode: 2002,
         error: 'User already exists',
@@ -39,34 +95,125 @@ export class AuthService {
         error: 'User creation failed',
       };
     }
+    // the account exists at this point, a failed mail can be resent later
+    await this.sendVerificationMail(userId, createUserDto.email).catch(
+      (error) => console.log(error),
+    );
     return true;
   }
 
-  async login(loginUserDto: LoginUserDto): Promise<Jwt | undefined> {
-    const user = await this.validateUser(
-      loginUserDto.usernameOrEmail,
-      loginUserDto.password,
+  async login(
+    loginUserDto: LoginUserDto & SessionMetadata,
+  ): Promise<Jwt | TwoFactorChallenge | ErrorData | undefined> {
+    const user = await this.findUser(loginUserDto.usernameOrEmail);
+    const attemptKeys = this.loginAttemptService.keysFor(
+      user?._id.toString(),
+      loginUserDto.ip,
     );
-    if (user === null) return undefined;
-    const payload = { sub: user._id.toString() } satisfies JwtPayload;
-    return this.generateJWT(payload);
+    const throttled = await this.checkLoginAttempts(attemptKeys);
+    if (throttled) return throttled;
+    const isValid =
+      user !== null && (await this.validateUser(user, loginUserDto.password));
+    if (!isValid) {
+      await this.loginAttemptService.recordFailure(attemptKeys);
+      return undefined;
+    }
+    if (this.isDeletionDue(user)) return this.deletionDue();
+    if (getEmailVerificationPolicy() === 'login' && !user.emailVerified) {
+      return {
+        statusCode: 2011,
+        error: 'Email is not verified',
+      };
+    }
+    const userId = user._id.toString();
+    if (await this.twoFactorService.isEnabled(userId)) {
+      const challengeToken = await this.jwtService.signAsync(
+        { sub: userId } satisfies JwtPayload,
+        {
+          expiresIn: TWO_FACTOR_CHALLENGE_TTL,
+          secret: process.env.JWT_2FA_SECRET,
+        },
+      );
+      return { twoFactorRequired: true, challengeToken };
+    }
+    // only a complete login clears the counter, a right password alone
+    // must not reset the attempts at guessing the second factor
+    await this.loginAttemptService.reset([
+      this.loginAttemptService.userKey(userId),
+    ]);
+    return this.startSession(userId, loginUserDto, user.roles);
   }
 
-  async generateJWT(payload: JwtPayload): Promise<Jwt> {
+  async loginTwoFactor(
+    twoFactorLoginDto: TwoFactorLoginDto & SessionMetadata,
+  ): Promise<Jwt | ErrorData> {
+    let payload: JwtPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<JwtPayload>(
+        twoFactorLoginDto.challengeToken,
+        { secret: process.env.JWT_2FA_SECRET },
+      );
+    } catch (error) {
+      return {
+        statusCode: 2016,
+        error: 'Invalid or expired two-factor challenge',
+      };
+    }
+    const attemptKeys = this.loginAttemptService.keysFor(
+      payload.sub,
+      twoFactorLoginDto.ip,
+    );
+    const throttled = await this.checkLoginAttempts(attemptKeys);
+    if (throttled) return throttled;
+    const isValid = await this.twoFactorService.verify(
+      payload.sub,
+      twoFactorLoginDto.code,
+    );
+    if (!isValid) {
+      await this.loginAttemptService.recordFailure(attemptKeys);
+      return {
+        statusCode: 2014,
+        error: 'Invalid two-factor code',
+      };
+    }
+    await this.loginAttemptService.reset([
+      this.loginAttemptService.userKey(payload.sub),
+    ]);
+    const roles = await this.findRoles(payload.sub);
+    if (roles === null) return this.deletionDue();
+    return this.startSession(payload.sub, twoFactorLoginDto, roles);
+  }
+
+  /**
+   * Access tokens are signed with the current asymmetric key so other
+   * services can verify them with the published keys. Refresh tokens are
+   * only ever checked by auth and keep using a shared secret.
+   */
+  async generateJWT(payload: JwtPayload, tokenId: string): Promise<Jwt> {
+    const signingKey = await this.signingKeyService.getCurrent();
     const [accessToken, refreshToken] = await Promise.all([
+      signingKey.algorithm === 'EdDSA'
+        ? signEdDsaJwt(payload, {
+            privateKey: signingKey.privateKey,
+            keyid: signingKey.kid,
+            expiresInMs: ACCESS_TOKEN_TTL_MS,
+          })
+        : this.jwtService.signAsync(payload, {
+            expiresIn: ACCESS_TOKEN_TTL,
+            privateKey: signingKey.privateKey,
+            algorithm: signingKey.algorithm,
+            keyid: signingKey.kid,
+          }),
       this.jwtService.signAsync(payload, {
-        expiresIn: '3m',
-        secret: process.env.JWT_ACCESS_SECRET,
-      }),
-      this.jwtService.signAsync(payload, {
-        expiresIn: '7d',
+        expiresIn: REFRESH_TOKEN_TTL,
         secret: process.env.JWT_REFRESH_SECRET,
+        jwtid: tokenId,
       }),
     ]);
     return { accessToken, refreshToken } satisfies Jwt;
   }
 
-  async refresh(refreshToken: string): Promise<Jwt | undefined> {
+  async refresh(refreshToken: string): Promise<Jwt | ErrorData | undefined> {
     try {
       // check if refresh token have bearer prefix
       if (refreshToken.startsWith('Bearer ')) {
@@ -74,13 +221,38 @@ export class AuthService {
       } else {
         return undefined;
       }
-      const payload = await this.jwtService.verifyAsync<JwtPayload>(
+      const payload = await this.jwtService.verifyAsync<RefreshJwtPayload>(
         refreshToken,
         {
           secret: process.env.JWT_REFRESH_SECRET,
         },
       );
-      return this.generateJWT({ sub: payload.sub } satisfies JwtPayload);
+      // tokens issued before sessions existed can't be rotated
+      if (!payload.sid || !payload.jti) return undefined;
+      // roles are read again so role changes apply from the next refresh on
+      const roles = await this.findRoles(payload.sub);
+      if (roles === null) return undefined;
+      const nextTokenId = randomUUID();
+      const rotation = await this.sessionService.rotate(
+        payload.sid,
+        payload.jti,
+        nextTokenId,
+      );
+      if (rotation === 'revoked') {
+        return {
+          statusCode: 2006,
+          error: 'Refresh token has been revoked',
+        };
+      }
+      if (rotation === 'not-found') return undefined;
+      return this.generateJWT(
+        {
+          sub: payload.sub,
+          sid: payload.sid,
+          roles,
+        } satisfies JwtPayload,
+        nextTokenId,
+      );
     } catch (error) {
       console.log(error);
       return undefined;
@@ -89,9 +261,23 @@ export class AuthService {
 
   async validateJwt(jwt: string): Promise<JwtPayload | undefined> {
     try {
-      const payload = await this.jwtService.verifyAsync<JwtPayload>(jwt, {
-        secret: process.env.JWT_ACCESS_SECRET,
-      });
+      const kid = this.jwtService.decode<{ header?: { kid?: string } }>(jwt, {
+        complete: true,
+      })?.header?.kid;
+      const signingKey = kid
+        ? await this.signingKeyService.findByKid(kid)
+        : null;
+      if (!signingKey) return undefined;
+      const payload =
+        signingKey.algorithm === 'EdDSA'
+          ? verifyEdDsaJwt<JwtPayload>(jwt, signingKey.publicKey)
+          : await this.jwtService.verifyAsync<JwtPayload>(jwt, {
+              publicKey: signingKey.publicKey,
+              algorithms: [signingKey.algorithm],
+            });
+      if (!payload.sid) return undefined;
+      const isSessionActive = await this.sessionService.isActive(payload.sid);
+      if (!isSessionActive) return undefined;
       const isUserExist: boolean = await firstValueFrom(
         this.userService.send('is-userid-exist', payload.sub),
       );
@@ -102,36 +288,470 @@ export class AuthService {
     }
   }
 
+  async getJwks(): Promise<JsonWebKeySet> {
+    return this.signingKeyService.getJwks();
+  }
+
+  /**
+   * Ids of the sessions revoked while access tokens issued to them may
+   * still be valid.
+   */
+  async getRevokedSessions(): Promise<string[]> {
+    return this.sessionService.findRevokedSince(
+      new Date(Date.now() - ACCESS_TOKEN_TTL_MS - SIGNING_KEY_CLOCK_SKEW_MS),
+    );
+  }
+
+  async logout(payload: JwtPayload): Promise<boolean> {
+    return this.sessionService.revoke(payload.sid, 'logout', payload.sub);
+  }
+
+  async getSessions(payload: JwtPayload): Promise<SessionInfo[]> {
+    const sessions = await this.sessionService.findActiveByUser(payload.sub);
+    return sessions.map((session) => {
+      const id = session._id.toString();
+      return {
+        id,
+        device: session.device,
+        ip: session.ip,
+        userAgent: session.userAgent,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        current: id === payload.sid,
+      } satisfies SessionInfo;
+    });
+  }
+
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    return this.sessionService.revoke(sessionId, 'revoked-by-user', userId);
+  }
+
+  /**
+   * Always resolves to true, whether the email is known or not, so the
+   * endpoint can't be used to find out who has an account.
+   */
+  async requestPasswordReset(email: string): Promise<boolean> {
+    const user: User | null = await firstValueFrom(
+      this.userService.send('find-user-by-email', email),
+    );
+    if (user === null) return true;
+    const token = await this.passwordResetService.create(user._id.toString());
+    const link = `${process.env.PASSWORD_RESET_URL}?token=${token}`;
+    await this.mailService.send({
+      to: user.email,
+      subject: 'Reset your YouApp password',
+      text: `Someone asked to reset the password of your YouApp account. If it was you, open the link below within 30 minutes to choose a new password:\n\n${link}\n\nIf it wasn't you, you can ignore this mail.`,
+      template: 'password-reset',
+    });
+    return true;
+  }
+
+  async resetPassword(
+    resetPasswordDto: ResetPasswordDto,
+  ): Promise<ErrorData | boolean> {
+    const invalidToken: ErrorData = {
+      statusCode: 2008,
+      error: 'Invalid or expired reset token',
+    };
+    const owner = await this.passwordResetService.findUserId(
+      resetPasswordDto.token,
+    );
+    if (owner === null) return invalidToken;
+    const user: User | null = await firstValueFrom(
+      this.userService.send('find-user-by-id', owner),
+    );
+    if (user === null) return invalidToken;
+    const weakPassword = this.checkPasswordStrength(
+      resetPasswordDto.password,
+      user,
+    );
+    if (weakPassword) return weakPassword;
+    const userId = await this.passwordResetService.consume(
+      resetPasswordDto.token,
+    );
+    if (userId === null) return invalidToken;
+    const password = await this.hashPassword(resetPasswordDto.password);
+    const isUpdated: boolean = await firstValueFrom(
+      this.userService.send('update-password', {
+        userId,
+        password,
+      } as UpdatePassword),
+    );
+    if (!isUpdated) {
+      return {
+        statusCode: 2009,
+        error: 'Password reset failed',
+      };
+    }
+    await Promise.all([
+      this.sessionService.revokeAllForUser(userId, 'password-reset'),
+      this.loginAttemptService.reset([
+        this.loginAttemptService.userKey(userId),
+      ]),
+    ]);
+    return true;
+  }
+
+  /**
+   * Change the password of a logged in user. Every other session is revoked,
+   * the one making the change stays logged in. Wrong current passwords count
+   * as failed logins so this can't be used to get around the throttling.
+   */
+  async changePassword(
+    payload: JwtPayload,
+    changePasswordDto: ChangePasswordDto,
+  ): Promise<ErrorData | boolean> {
+    const user: User | null = await firstValueFrom(
+      this.userService.send('find-user-by-id', payload.sub),
+    );
+    if (user === null) {
+      return {
+        statusCode: 2001,
+        error: 'User not found',
+      };
+    }
+    const attemptKeys = [this.loginAttemptService.userKey(payload.sub)];
+    const throttled = await this.checkLoginAttempts(attemptKeys);
+    if (throttled) return throttled;
+    const isValid = await PasswordHasher.verify(
+      changePasswordDto.currentPassword,
+      user.password,
+    );
+    if (!isValid) {
+      await this.loginAttemptService.recordFailure(attemptKeys);
+      return {
+        statusCode: 2020,
+        error: 'Current password is incorrect',
+      };
+    }
+    if (changePasswordDto.newPassword === changePasswordDto.currentPassword) {
+      return {
+        statusCode: 2021,
+        error: 'Password must differ from the current password',
+      };
+    }
+    const weakPassword = this.checkPasswordStrength(
+      changePasswordDto.newPassword,
+      user,
+    );
+    if (weakPassword) return weakPassword;
+    const password = await this.hashPassword(changePasswordDto.newPassword);
+    const isUpdated: boolean = await firstValueFrom(
+      this.userService.send('update-password', {
+        userId: payload.sub,
+        password,
+      } as UpdatePassword),
+    );
+    if (!isUpdated) {
+      return {
+        statusCode: 2022,
+        error: 'Password change failed',
+      };
+    }
+    await Promise.all([
+      this.sessionService.revokeAllForUser(
+        payload.sub,
+        'password-change',
+        payload.sid,
+      ),
+      this.loginAttemptService.reset(attemptKeys),
+    ]);
+    return true;
+  }
+
+  /**
+   * Schedule the account for deletion after re-checking the password. All
+   * sessions end right away; logging in again during the grace period is
+   * possible so the deletion can be cancelled.
+   */
+  async deleteAccount(
+    payload: JwtPayload,
+    password: string,
+  ): Promise<AccountDeletion | ErrorData> {
+    const user: User | null = await firstValueFrom(
+      this.userService.send('find-user-by-id', payload.sub),
+    );
+    if (user === null) {
+      return {
+        statusCode: 2001,
+        error: 'User not found',
+      };
+    }
+    const attemptKeys = [this.loginAttemptService.userKey(payload.sub)];
+    const throttled = await this.checkLoginAttempts(attemptKeys);
+    if (throttled) return throttled;
+    const isValid = await PasswordHasher.verify(password, user.password);
+    if (!isValid) {
+      await this.loginAttemptService.recordFailure(attemptKeys);
+      return {
+        statusCode: 2020,
+        error: 'Current password is incorrect',
+      };
+    }
+    const deletion: AccountDeletion | null = await firstValueFrom(
+      this.userService.send('schedule-account-deletion', payload.sub),
+    );
+    if (deletion === null) {
+      return {
+        statusCode: 2023,
+        error: 'Account deletion failed',
+      };
+    }
+    await this.sessionService.revokeAllForUser(payload.sub, 'account-deletion');
+    return deletion;
+  }
+
+  async purgeUser(purgeUser: UserReference): Promise<boolean> {
+    await Promise.all([
+      this.sessionService.deleteAllForUser(purgeUser.userId),
+      this.passwordResetService.deleteAllForUser(purgeUser.userId),
+      this.twoFactorService.deleteForUser(purgeUser.userId),
+      this.loginAttemptService.reset([
+        this.loginAttemptService.userKey(purgeUser.userId),
+      ]),
+    ]);
+    return true;
+  }
+
+  async verifyEmail(token: string): Promise<ErrorData | boolean> {
+    try {
+      const payload =
+        await this.jwtService.verifyAsync<EmailVerificationPayload>(token, {
+          secret: process.env.JWT_EMAIL_SECRET,
+        });
+      const isVerified: boolean = await firstValueFrom(
+        this.userService.send('mark-email-verified', {
+          userId: payload.sub,
+          email: payload.email,
+        }),
+      );
+      if (isVerified) return true;
+    } catch (error) {
+      console.log(error);
+    }
+    return {
+      statusCode: 2010,
+      error: 'Invalid or expired verification token',
+    };
+  }
+
+  /**
+   * Like password reset requests, unknown and already verified emails are
+   * answered with true so the endpoint doesn't tell who has an account.
+   */
+  async resendVerification(email: string): Promise<ErrorData | boolean> {
+    const user: User | null = await firstValueFrom(
+      this.userService.send('find-user-by-email', email),
+    );
+    if (user === null || user.emailVerified) return true;
+    const isSent = await this.sendVerificationMail(
+      user._id.toString(),
+      user.email,
+    );
+    if (!isSent) {
+      return {
+        statusCode: 2012,
+        error: 'Verification email was sent recently, try again later',
+      };
+    }
+    return true;
+  }
+
+  async enrollTwoFactor(
+    userId: string,
+  ): Promise<TwoFactorEnrolment | ErrorData> {
+    const user: User | null = await firstValueFrom(
+      this.userService.send('find-user-by-id', userId),
+    );
+    if (user === null) {
+      return {
+        statusCode: 2001,
+        error: 'User not found',
+      };
+    }
+    const enrolment = await this.twoFactorService.enroll(userId, user.email);
+    if (enrolment === null) {
+      return {
+        statusCode: 2013,
+        error: 'Two-factor authentication is already enabled',
+      };
+    }
+    return enrolment;
+  }
+
+  async confirmTwoFactor(
+    userId: string,
+    code: string,
+  ): Promise<string[] | ErrorData> {
+    const recoveryCodes = await this.twoFactorService.confirm(userId, code);
+    if (recoveryCodes === null) {
+      return {
+        statusCode: 2014,
+        error: 'Invalid two-factor code',
+      };
+    }
+    return recoveryCodes;
+  }
+
+  async disableTwoFactor(
+    userId: string,
+    code: string,
+  ): Promise<boolean | ErrorData> {
+    if (!(await this.twoFactorService.isEnabled(userId))) {
+      return {
+        statusCode: 2015,
+        error: 'Two-factor authentication is not enabled',
+      };
+    }
+    const isDisabled = await this.twoFactorService.disable(userId, code);
+    if (!isDisabled) {
+      return {
+        statusCode: 2014,
+        error: 'Invalid two-factor code',
+      };
+    }
+    return true;
+  }
+
   async hashPassword(password: string): Promise<string> {
-    return Scrypt.hashPassword(password);
+    return PasswordHasher.hash(password);
   }
 
-  private async validateUser(
-    emailOrUsername: string,
+  private async startSession(
+    userId: string,
+    metadata: SessionMetadata,
+    roles: Role[] = [ROLE.User],
+  ): Promise<Jwt> {
+    const tokenId = randomUUID();
+    const session = await this.sessionService.create(userId, tokenId, {
+      device: metadata.device,
+      ip: metadata.ip,
+      userAgent: metadata.userAgent,
+    });
+    const payload = {
+      sub: userId,
+      sid: session._id.toString(),
+      roles,
+    } satisfies JwtPayload;
+    return this.generateJWT(payload, tokenId);
+  }
+
+  private async sendVerificationMail(
+    userId: string,
+    email: string,
+  ): Promise<boolean> {
+    const isAllowed: boolean = await firstValueFrom(
+      this.userService.send('mark-verification-sent', {
+        userId,
+        cooldownMs: VERIFICATION_RESEND_COOLDOWN_MS,
+      }),
+    );
+    if (!isAllowed) return false;
+    const token = await this.jwtService.signAsync(
+      { sub: userId, email } satisfies EmailVerificationPayload,
+      {
+        expiresIn: EMAIL_VERIFICATION_TTL,
+        secret: process.env.JWT_EMAIL_SECRET,
+      },
+    );
+    const link = `${process.env.EMAIL_VERIFICATION_URL}?token=${token}`;
+    return this.mailService.send({
+      to: email,
+      subject: 'Confirm your YouApp email',
+      text: `Welcome to YouApp! Open the link below within 24 hours to confirm your email address:\n\n${link}`,
+      template: 'email-verification',
+    });
+  }
+
+  private async checkLoginAttempts(keys: string[]): Promise<ErrorData | null> {
+    const throttle = await this.loginAttemptService.check(keys);
+    if (throttle === null) return null;
+    const retryAfter = Math.ceil(throttle.retryAfterMs / 1000);
+    if (throttle.locked) {
+      return {
+        statusCode: 2018,
+        error: 'Too many failed logins, login is temporarily locked',
+        retryAfter,
+      };
+    }
+    return {
+      statusCode: 2019,
+      error: 'Too many failed logins, try again later',
+      retryAfter,
+    };
+  }
+
+  private checkPasswordStrength(
     password: string,
-  ): Promise<User | null> {
+    user: User,
+  ): ErrorData | null {
+    const violations = checkPasswordStrength(password, user);
+    if (violations.length === 0) return null;
+    return {
+      statusCode: 2021,
+      error: `Password ${violations.join(', ')}`,
+    };
+  }
+
+  /**
+   * Null when the user is gone or about to be, so no more tokens are handed
+   * out for them.
+   */
+  private async findRoles(userId: string): Promise<Role[] | null> {
     const user: User | null = await firstValueFrom(
+      this.userService.send('find-user-by-id', userId),
+    );
+    if (user === null || this.isDeletionDue(user)) return null;
+    return user.roles ?? [ROLE.User];
+  }
+
+  /**
+   * Once the grace period is over the account is being purged; before
+   * that, logging in is how the user gets to restore it.
+   */
+  private isDeletionDue(user: User): boolean {
+    return (
+      !!user.deletionScheduledAt &&
+      new Date(user.deletionScheduledAt).getTime() <= Date.now()
+    );
+  }
+
+  private deletionDue(): ErrorData {
+    return {
+      statusCode: 2024,
+      error: 'Account is being deleted',
+    };
+  }
+
+  private async findUser(emailOrUsername: string): Promise<User | null> {
+    return firstValueFrom(
       this.userService.send('find-user-by-email-or-username', {
         email: emailOrUsername,
         username: emailOrUsername,
       } as EmailAndUsernameDto),
     );
-    if (user === null) return null;
-    const isPasswordMatched = await Scrypt.verifyPassword(
+  }
+
+  private async validateUser(user: User, password: string): Promise<boolean> {
+    const isPasswordMatched = await PasswordHasher.verify(
       password,
       user.password,
     );
-    if (isPasswordMatched) {
-      const newPassword = await this.hashPassword(password);
-      const result: boolean = await firstValueFrom(
-        this.userService.send('update-password', {
-          userId: user._id,
-          password: newPassword,
-        } as UpdatePassword),
-      );
-      return result ? user : null;
-    } else {
-      return null;
+    if (!isPasswordMatched) return false;
+    if (PasswordHasher.needsRehash(user.password)) {
+      // upgrading the stored hash is best effort, it must not fail the login
+      try {
+        const newPassword = await this.hashPassword(password);
+        await firstValueFrom(
+          this.userService.send('update-password', {
+            userId: user._id,
+            password: newPassword,
+          } as UpdatePassword),
+        );
+      } catch (error) {
+        console.log(error);
+      }
     }
+    return true;
   }
 }
@@ -0,0 +1,7 @@
+export const DEFAULT_USER_LOCKOUT_THRESHOLD = 10;
+export const DEFAULT_IP_LOCKOUT_THRESHOLD = 50;
+export const DEFAULT_LOCKOUT_MS = 15 * 60 * 1000;
+export const DEFAULT_BACKOFF_FREE_ATTEMPTS = 3;
+export const DEFAULT_BACKOFF_BASE_MS = 1000;
+export const MAX_BACKOFF_MS = 60 * 1000;
+export const ATTEMPT_WINDOW_MS = 24 * 60 * 60 * 1000;
@@ -0,0 +1,13 @@
+export const ACCESS_TOKEN_TTL = '3m';
+export const REFRESH_TOKEN_TTL = '7d';
+export const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const PASSWORD_RESET_TTL_MS = 30 * 60 * 1000;
+export const EMAIL_VERIFICATION_TTL = '24h';
+export const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+export const TWO_FACTOR_CHALLENGE_TTL = '5m';
+export const TWO_FACTOR_ISSUER = 'YouApp';
+export const RECOVERY_CODE_COUNT = 10;
+export const ACCESS_TOKEN_TTL_MS = 3 * 60 * 1000;
+export const DEFAULT_SIGNING_KEY_ROTATION_MS = 7 * 24 * 60 * 60 * 1000;
+export const SIGNING_KEY_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+export const SIGNING_KEY_CLOCK_SKEW_MS = 60 * 1000;
@@ -1,3 +1,5 @@
+import { Role } from '@app/shared/enums/role.enum';
+
 export interface Jwt {
   accessToken: string;
   refreshToken: string;
@@ -9,4 +11,20 @@ export interface Jwt {
  */
 export interface JwtPayload {
   sub: string;
+  sid?: string;
+  roles?: Role[];
+}
+
+export interface RefreshJwtPayload extends JwtPayload {
+  jti?: string;
+}
+
+/**
+ * @description
+ * Payload of the token in the email verification link. The email is part of
+ * it so a link stops working once the account email is changed.
+ */
+export interface EmailVerificationPayload {
+  sub: string;
+  email: string;
 }
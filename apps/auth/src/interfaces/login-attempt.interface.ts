@@ -0,0 +1,21 @@
+import { Document } from 'mongoose';
+
+/**
+ * @description
+ * Failed logins counted under one key, either `user:<userId>` or `ip:<ip>`.
+ * The counter is forgotten `expiresAt` after the last failure.
+ */
+export interface LoginAttempt {
+  key: string;
+  failures: number;
+  lastFailureAt?: Date;
+  lockedUntil?: Date;
+  expiresAt: Date;
+}
+
+export interface LoginAttemptDocument extends Document, LoginAttempt {}
+
+export interface LoginThrottle {
+  locked: boolean;
+  retryAfterMs: number;
+}
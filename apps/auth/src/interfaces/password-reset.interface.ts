@@ -0,0 +1,16 @@
+import { Document } from 'mongoose';
+
+/**
+ * @description
+ * Only the sha256 of a reset token is stored, the token itself is only ever
+ * sent to the user.
+ */
+export interface PasswordReset {
+  userId: string;
+  tokenHash: string;
+  createdAt: Date;
+  expiresAt: Date;
+  usedAt?: Date;
+}
+
+export interface PasswordResetDocument extends Document, PasswordReset {}
@@ -0,0 +1,38 @@
+import { Document } from 'mongoose';
+
+/**
+ * @description
+ * A session is one refresh token family, created on login and rotated on
+ * every refresh. `tokenId` is the `jti` of the only refresh token of the
+ * family that is still allowed to be used.
+ */
+export interface SessionMetadata {
+  device?: string;
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface Session extends SessionMetadata {
+  userId: string;
+  tokenId: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: string;
+}
+
+export interface SessionDocument extends Document, Session {}
+
+export type SessionRotation = 'rotated' | 'revoked' | 'not-found';
+
+/**
+ * @description
+ * What a user gets to see about their own sessions.
+ */
+export interface SessionInfo extends SessionMetadata {
+  id: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  current: boolean;
+}
@@ -0,0 +1,19 @@
+import { Document } from 'mongoose';
+import { SigningAlgorithm } from '@app/shared/jwks-verifier';
+
+/**
+ * @description
+ * Key pair signing the access tokens of one rotation period (`generation`).
+ * It is removed once the last token it could have signed has expired.
+ */
+export interface SigningKey {
+  kid: string;
+  generation: number;
+  algorithm: SigningAlgorithm;
+  privateKey: string;
+  publicKey: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface SigningKeyDocument extends Document, SigningKey {}
@@ -0,0 +1,34 @@
+import { Document } from 'mongoose';
+
+/**
+ * @description
+ * TOTP settings of a user. The secret is stored as soon as enrolment starts
+ * but only counts once `enabled` is set by confirming a first code.
+ * `recoveryCodes` holds sha256 hashes of the unused recovery codes and
+ * `lastUsedStep` keeps a code from being used twice.
+ */
+export interface TwoFactor {
+  userId: string;
+  secret: string;
+  enabled: boolean;
+  enabledAt?: Date;
+  recoveryCodes: string[];
+  lastUsedStep?: number;
+}
+
+export interface TwoFactorDocument extends Document, TwoFactor {}
+
+export interface TwoFactorEnrolment {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * @description
+ * Returned by login instead of a `Jwt` when the user has 2FA enabled. The
+ * challenge token has to be traded together with a code for the real pair.
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
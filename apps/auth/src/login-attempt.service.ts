@@ -0,0 +1,122 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import {
+  LoginAttempt,
+  LoginThrottle,
+} from './interfaces/login-attempt.interface';
+import {
+  ATTEMPT_WINDOW_MS,
+  DEFAULT_BACKOFF_BASE_MS,
+  DEFAULT_BACKOFF_FREE_ATTEMPTS,
+  DEFAULT_IP_LOCKOUT_THRESHOLD,
+  DEFAULT_LOCKOUT_MS,
+  DEFAULT_USER_LOCKOUT_THRESHOLD,
+  MAX_BACKOFF_MS,
+} from './constants/login-attempt.constant';
+
+/**
+ * @description
+ * After a few free failures every further failure doubles the time before
+ * the next attempt is accepted. Reaching the threshold locks the key for
+ * `LOGIN_LOCKOUT_MS`. IPs get a higher threshold since many users can share
+ * one.
+ */
+@Injectable()
+export class LoginAttemptService {
+  private readonly userThreshold =
+    Number(process.env.LOGIN_LOCKOUT_THRESHOLD) ||
+    DEFAULT_USER_LOCKOUT_THRESHOLD;
+  private readonly ipThreshold =
+    Number(process.env.LOGIN_IP_LOCKOUT_THRESHOLD) ||
+    DEFAULT_IP_LOCKOUT_THRESHOLD;
+  private readonly lockoutMs =
+    Number(process.env.LOGIN_LOCKOUT_MS) || DEFAULT_LOCKOUT_MS;
+  private readonly backoffBaseMs =
+    Number(process.env.LOGIN_BACKOFF_BASE_MS) || DEFAULT_BACKOFF_BASE_MS;
+
+  constructor(
+    @InjectModel('LoginAttempt')
+    private readonly loginAttemptModel: Model<LoginAttempt>,
+  ) {}
+
+  userKey(userId: string): string {
+    return `user:${userId}`;
+  }
+
+  keysFor(userId?: string, ip?: string): string[] {
+    const keys: string[] = [];
+    if (userId) keys.push(this.userKey(userId));
+    if (ip) keys.push(`ip:${ip}`);
+    return keys;
+  }
+
+  /**
+   * Resolves to null when an attempt is allowed right now, otherwise to how
+   * long the caller has to wait and whether it is a lockout.
+   */
+  async check(keys: string[]): Promise<LoginThrottle | null> {
+    if (keys.length === 0) return null;
+    const now = Date.now();
+    const attempts = await this.loginAttemptModel
+      .find({ key: { $in: keys } })
+      .exec();
+    let throttle: LoginThrottle | null = null;
+    for (const attempt of attempts) {
+      const lockedUntil = attempt.lockedUntil?.getTime() ?? 0;
+      const nextAttemptAt =
+        (attempt.lastFailureAt?.getTime() ?? 0) +
+        this.backoffMs(attempt.failures);
+      const locked = lockedUntil > now;
+      const retryAfterMs = Math.max(lockedUntil, nextAttemptAt) - now;
+      if (retryAfterMs <= 0) continue;
+      if (
+        throttle === null ||
+        (locked && !throttle.locked) ||
+        (locked === throttle.locked && retryAfterMs > throttle.retryAfterMs)
+      ) {
+        throttle = { locked, retryAfterMs };
+      }
+    }
+    return throttle;
+  }
+
+  async recordFailure(keys: string[]): Promise<void> {
+    const now = Date.now();
+    for (const key of keys) {
+      const attempt = await this.loginAttemptModel
+        .findOneAndUpdate(
+          { key },
+          {
+            $inc: { failures: 1 },
+            $set: {
+              lastFailureAt: new Date(now),
+              expiresAt: new Date(now + ATTEMPT_WINDOW_MS),
+            },
+          },
+          { upsert: true, new: true },
+        )
+        .exec();
+      if (attempt.failures >= this.thresholdFor(key)) {
+        await this.loginAttemptModel.updateOne(
+          { key },
+          { lockedUntil: new Date(now + this.lockoutMs) },
+        );
+      }
+    }
+  }
+
+  async reset(keys: string[]): Promise<void> {
+    await this.loginAttemptModel.deleteMany({ key: { $in: keys } });
+  }
+
+  private thresholdFor(key: string): number {
+    return key.startsWith('ip:') ? this.ipThreshold : this.userThreshold;
+  }
+
+  private backoffMs(failures: number): number {
+    const exponent = failures - DEFAULT_BACKOFF_FREE_ATTEMPTS;
+    if (exponent < 0) return 0;
+    return Math.min(this.backoffBaseMs * 2 ** exponent, MAX_BACKOFF_MS);
+  }
+}
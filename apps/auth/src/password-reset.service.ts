@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { PasswordReset } from './interfaces/password-reset.interface';
+import { PASSWORD_RESET_TTL_MS } from './constants/token.constant';
+
+@Injectable()
+export class PasswordResetService {
+  constructor(
+    @InjectModel('PasswordReset')
+    private readonly passwordResetModel: Model<PasswordReset>,
+  ) {}
+
+  /**
+   * Issue a new reset token for the user. Tokens issued before are voided so
+   * only the latest mail works.
+   */
+  async create(userId: string): Promise<string> {
+    const now = new Date();
+    await this.passwordResetModel.updateMany(
+      { userId, usedAt: null },
+      { usedAt: now },
+    );
+    const token = randomBytes(32).toString('hex');
+    await new this.passwordResetModel({
+      userId,
+      tokenHash: this.hashToken(token),
+      expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_MS),
+    }).save();
+    return token;
+  }
+
+  /**
+   * Return the user a valid token belongs to without using it up, so the new
+   * password can be checked before the token is spent.
+   */
+  async findUserId(token: string): Promise<string | null> {
+    const reset = await this.passwordResetModel
+      .findOne({
+        tokenHash: this.hashToken(token),
+        usedAt: null,
+        expiresAt: { $gt: new Date() },
+      })
+      .exec();
+    return reset ? reset.userId : null;
+  }
+
+  /**
+   * Mark the token as used and return the user it belongs to. Returns null
+   * when the token is unknown, expired or already used.
+   */
+  async consume(token: string): Promise<string | null> {
+    const now = new Date();
+    const reset = await this.passwordResetModel
+      .findOneAndUpdate(
+        {
+          tokenHash: this.hashToken(token),
+          usedAt: null,
+          expiresAt: { $gt: now },
+        },
+        { usedAt: now },
+      )
+      .exec();
+    return reset ? reset.userId : null;
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    await this.passwordResetModel.deleteMany({ userId });
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,11 @@
+import { Schema } from 'mongoose';
+
+export const LoginAttemptSchema = new Schema({
+  key: { type: String, unique: true },
+  failures: { type: Number, default: 0 },
+  lastFailureAt: Date,
+  lockedUntil: Date,
+  expiresAt: Date,
+});
+
+LoginAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,11 @@
+import { Schema } from 'mongoose';
+
+export const PasswordResetSchema = new Schema({
+  userId: { type: String, index: true },
+  tokenHash: { type: String, unique: true },
+  createdAt: { type: Date, default: Date.now },
+  expiresAt: Date,
+  usedAt: Date,
+});
+
+PasswordResetSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,18 @@
+import { Schema } from 'mongoose';
+
+export const SessionSchema = new Schema({
+  userId: { type: String, index: true },
+  tokenId: String,
+  device: String,
+  ip: String,
+  userAgent: String,
+  createdAt: { type: Date, default: Date.now },
+  lastUsedAt: { type: Date, default: Date.now },
+  expiresAt: Date,
+  revokedAt: Date,
+  revokedReason: String,
+});
+
+// expired sessions can no longer be refreshed, let mongo clean them up
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+SessionSchema.index({ revokedAt: 1 }, { sparse: true });
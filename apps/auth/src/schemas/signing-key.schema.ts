@@ -0,0 +1,15 @@
+import { Schema } from 'mongoose';
+
+export const SigningKeySchema = new Schema(
+  {
+    kid: { type: String, unique: true },
+    generation: { type: Number, unique: true },
+    algorithm: String,
+    privateKey: String,
+    publicKey: String,
+    expiresAt: Date,
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+SigningKeySchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,10 @@
+import { Schema } from 'mongoose';
+
+export const TwoFactorSchema = new Schema({
+  userId: { type: String, unique: true },
+  secret: String,
+  enabled: { type: Boolean, default: false },
+  enabledAt: Date,
+  recoveryCodes: [String],
+  lastUsedStep: Number,
+});
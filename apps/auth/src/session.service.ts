@@ -0,0 +1,131 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model } from 'mongoose';
+import {
+  Session,
+  SessionDocument,
+  SessionMetadata,
+  SessionRotation,
+} from './interfaces/session.interface';
+import { REFRESH_TOKEN_TTL_MS } from './constants/token.constant';
+
+@Injectable()
+export class SessionService {
+  constructor(
+    @InjectModel('Session') private readonly sessionModel: Model<Session>,
+  ) {}
+
+  async create(
+    userId: string,
+    tokenId: string,
+    metadata: SessionMetadata = {},
+  ): Promise<SessionDocument> {
+    const session = new this.sessionModel({
+      userId,
+      tokenId,
+      device: metadata.device,
+      ip: metadata.ip,
+      userAgent: metadata.userAgent,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    });
+    return session.save();
+  }
+
+  /**
+   * Swap the current refresh token of a session for the next one. Presenting
+   * a refresh token that was already rotated away means it has been copied,
+   * so the whole session is revoked and both holders are logged out.
+   */
+  async rotate(
+    sessionId: string,
+    tokenId: string,
+    nextTokenId: string,
+  ): Promise<SessionRotation> {
+    if (!isValidObjectId(sessionId)) return 'not-found';
+    const now = new Date();
+    const rotated = await this.sessionModel
+      .findOneAndUpdate(
+        { _id: sessionId, tokenId, revokedAt: null },
+        {
+          tokenId: nextTokenId,
+          lastUsedAt: now,
+          expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+        },
+      )
+      .exec();
+    if (rotated) return 'rotated';
+
+    const session = await this.sessionModel.findById(sessionId).exec();
+    if (!session) return 'not-found';
+    if (!session.revokedAt) {
+      await this.revoke(sessionId, 'refresh-token-reuse');
+    }
+    return 'revoked';
+  }
+
+  async findActiveByUser(userId: string): Promise<SessionDocument[]> {
+    return this.sessionModel
+      .find({ userId, revokedAt: null, expiresAt: { $gt: new Date() } })
+      .sort({ lastUsedAt: -1 })
+      .exec();
+  }
+
+  async isActive(sessionId: string): Promise<boolean> {
+    if (!isValidObjectId(sessionId)) return false;
+    const session = await this.sessionModel.findById(sessionId).exec();
+    if (!session || session.revokedAt) return false;
+    return session.expiresAt.getTime() > Date.now();
+  }
+
+  /**
+   * Revoke a session. When `userId` is given the session must also belong to
+   * that user, so users can't revoke each other's sessions by id.
+   */
+  async revoke(
+    sessionId: string,
+    reason: string,
+    userId?: string,
+  ): Promise<boolean> {
+    if (!isValidObjectId(sessionId)) return false;
+    const result = await this.sessionModel.updateOne(
+      {
+        _id: sessionId,
+        revokedAt: null,
+        ...(userId !== undefined ? { userId } : {}),
+      },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+    if (result.acknowledged === false) return false;
+    return result.modifiedCount === 1;
+  }
+
+  async revokeAllForUser(
+    userId: string,
+    reason: string,
+    exceptSessionId?: string,
+  ): Promise<number> {
+    const result = await this.sessionModel.updateMany(
+      {
+        userId,
+        revokedAt: null,
+        ...(exceptSessionId !== undefined
+          ? { _id: { $ne: exceptSessionId } }
+          : {}),
+      },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+    return result.modifiedCount;
+  }
+
+  async findRevokedSince(since: Date): Promise<string[]> {
+    const sessionIds = await this.sessionModel
+      .find({ revokedAt: { $gte: since } })
+      .distinct('_id')
+      .exec();
+    return sessionIds.map((sessionId) => String(sessionId));
+  }
+
+  async deleteAllForUser(userId: string): Promise<void> {
+    await this.sessionModel.deleteMany({ userId });
+  }
+}
@@ -0,0 +1,150 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createPublicKey, generateKeyPair, randomUUID } from 'crypto';
+import {
+  JsonWebKeySet,
+  Jwk,
+  SIGNING_ALGORITHMS,
+  SigningAlgorithm,
+} from '@app/shared/jwks-verifier';
+import {
+  SigningKey,
+  SigningKeyDocument,
+} from './interfaces/signing-key.interface';
+import {
+  ACCESS_TOKEN_TTL_MS,
+  DEFAULT_SIGNING_KEY_ROTATION_MS,
+  SIGNING_KEY_CHECK_INTERVAL_MS,
+  SIGNING_KEY_CLOCK_SKEW_MS,
+} from './constants/token.constant';
+
+/**
+ * @description
+ * Access tokens are signed with a key pair per rotation period of
+ * `SIGNING_KEY_ROTATION_MS`. The key of the next period is created ahead of
+ * time so it is published before the first token is signed with it, and a
+ * key stays published until the tokens it signed have expired. A unique
+ * index on the period keeps several auth instances on the same key.
+ */
+@Injectable()
+export class SigningKeyService implements OnModuleInit, OnModuleDestroy {
+  private readonly algorithm: SigningAlgorithm = SIGNING_ALGORITHMS.includes(
+    process.env.JWT_SIGNING_ALGORITHM as SigningAlgorithm,
+  )
+    ? (process.env.JWT_SIGNING_ALGORITHM as SigningAlgorithm)
+    : 'RS256';
+  private readonly rotationMs =
+    Number(process.env.SIGNING_KEY_ROTATION_MS) ||
+    DEFAULT_SIGNING_KEY_ROTATION_MS;
+  private current: SigningKeyDocument | null = null;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectModel('SigningKey')
+    private readonly signingKeyModel: Model<SigningKey>,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    await this.rotate();
+    this.timer = setInterval(
+      () => this.rotate().catch((error) => console.log(error)),
+      SIGNING_KEY_CHECK_INTERVAL_MS,
+    );
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  async getCurrent(): Promise<SigningKeyDocument> {
+    const generation = this.generationAt(Date.now());
+    if (this.current?.generation !== generation) {
+      this.current = await this.ensureKey(generation);
+    }
+    return this.current;
+  }
+
+  async findByKid(kid: string): Promise<SigningKeyDocument | null> {
+    return this.signingKeyModel
+      .findOne({ kid, expiresAt: { $gt: new Date() } })
+      .exec();
+  }
+
+  async getJwks(): Promise<JsonWebKeySet> {
+    const keys = await this.signingKeyModel
+      .find({ expiresAt: { $gt: new Date() } })
+      .sort({ generation: -1 })
+      .exec();
+    return {
+      keys: keys.map(
+        (key) =>
+          ({
+            ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+            kid: key.kid,
+            alg: key.algorithm,
+            use: 'sig',
+          }) satisfies Jwk,
+      ),
+    };
+  }
+
+  private async rotate(): Promise<void> {
+    await this.getCurrent();
+    await this.ensureKey(this.generationAt(Date.now()) + 1);
+  }
+
+  private generationAt(time: number): number {
+    return Math.floor(time / this.rotationMs);
+  }
+
+  private async ensureKey(generation: number): Promise<SigningKeyDocument> {
+    const existing = await this.signingKeyModel.findOne({ generation }).exec();
+    if (existing) return existing;
+    const { privateKey, publicKey } = await this.generateKeyPair();
+    try {
+      return await this.signingKeyModel.create({
+        kid: randomUUID(),
+        generation,
+        algorithm: this.algorithm,
+        privateKey,
+        publicKey,
+        expiresAt: new Date(
+          (generation + 1) * this.rotationMs +
+            ACCESS_TOKEN_TTL_MS +
+            SIGNING_KEY_CLOCK_SKEW_MS,
+        ),
+      });
+    } catch (error) {
+      // another instance created the key of this generation first
+      const created = await this.signingKeyModel.findOne({ generation }).exec();
+      if (created) return created;
+      throw error;
+    }
+  }
+
+  private async generateKeyPair(): Promise<{
+    privateKey: string;
+    publicKey: string;
+  }> {
+    const encoding = {
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    } as const;
+    return new Promise((resolve, reject) => {
+      const done = (
+        error: Error | null,
+        publicKey: string,
+        privateKey: string,
+      ) => (error ? reject(error) : resolve({ privateKey, publicKey }));
+      if (this.algorithm === 'ES256') {
+        generateKeyPair('ec', { namedCurve: 'P-256', ...encoding }, done);
+      } else if (this.algorithm === 'EdDSA') {
+        generateKeyPair('ed25519', encoding, done);
+      } else {
+        generateKeyPair('rsa', { modulusLength: 2048, ...encoding }, done);
+      }
+    });
+  }
+}
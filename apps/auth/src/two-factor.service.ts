@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { createHash, randomBytes } from 'crypto';
+import { Totp } from '@app/shared/totp';
+import {
+  TwoFactor,
+  TwoFactorEnrolment,
+} from './interfaces/two-factor.interface';
+import {
+  RECOVERY_CODE_COUNT,
+  TWO_FACTOR_ISSUER,
+} from './constants/token.constant';
+
+@Injectable()
+export class TwoFactorService {
+  constructor(
+    @InjectModel('TwoFactor')
+    private readonly twoFactorModel: Model<TwoFactor>,
+  ) {}
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const twoFactor = await this.twoFactorModel
+      .findOne({ userId, enabled: true })
+      .exec();
+    return twoFactor !== null;
+  }
+
+  /**
+   * Start enrolment with a fresh secret, replacing any unconfirmed one.
+   * Resolves to null when 2FA is already enabled.
+   */
+  async enroll(
+    userId: string,
+    account: string,
+  ): Promise<TwoFactorEnrolment | null> {
+    if (await this.isEnabled(userId)) return null;
+    const secret = Totp.generateSecret();
+    await this.twoFactorModel.updateOne(
+      { userId },
+      { userId, secret, enabled: false, recoveryCodes: [], lastUsedStep: null },
+      { upsert: true },
+    );
+    return {
+      secret,
+      otpauthUri: Totp.buildUri(secret, account, TWO_FACTOR_ISSUER),
+    };
+  }
+
+  /**
+   * Enable 2FA once the user proves their app works. Resolves to the
+   * recovery codes, which are only ever shown this once, or null when the
+   * code is wrong or enrolment was not started.
+   */
+  async confirm(userId: string, code: string): Promise<string[] | null> {
+    const twoFactor = await this.twoFactorModel
+      .findOne({ userId, enabled: false })
+      .exec();
+    if (!twoFactor) return null;
+    const step = Totp.verify(twoFactor.secret, code);
+    if (step === null) return null;
+    const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+    const result = await this.twoFactorModel.updateOne(
+      { _id: twoFactor._id, enabled: false },
+      {
+        enabled: true,
+        enabledAt: new Date(),
+        recoveryCodes: recoveryCodes.map((recoveryCode) =>
+          this.hashRecoveryCode(recoveryCode),
+        ),
+        lastUsedStep: step,
+      },
+    );
+    return result.modifiedCount === 1 ? recoveryCodes : null;
+  }
+
+  /**
+   * Check a TOTP code or a recovery code of a user with 2FA enabled. Both
+   * can only be used once.
+   */
+  async verify(userId: string, code: string): Promise<boolean> {
+    const twoFactor = await this.twoFactorModel
+      .findOne({ userId, enabled: true })
+      .exec();
+    if (!twoFactor) return false;
+    const step = Totp.verify(twoFactor.secret, code.trim());
+    if (step !== null) {
+      const result = await this.twoFactorModel.updateOne(
+        {
+          _id: twoFactor._id,
+          $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: step } }],
+        },
+        { lastUsedStep: step },
+      );
+      return result.modifiedCount === 1;
+    }
+    const hash = this.hashRecoveryCode(code);
+    const result = await this.twoFactorModel.updateOne(
+      { _id: twoFactor._id, recoveryCodes: hash },
+      { $pull: { recoveryCodes: hash } },
+    );
+    return result.modifiedCount === 1;
+  }
+
+  async disable(userId: string, code: string): Promise<boolean> {
+    const isValid = await this.verify(userId, code);
+    if (!isValid) return false;
+    const result = await this.twoFactorModel.deleteOne({ userId });
+    return result.deletedCount === 1;
+  }
+
+  async deleteForUser(userId: string): Promise<void> {
+    await this.twoFactorModel.deleteOne({ userId });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^0-9a-f]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+}
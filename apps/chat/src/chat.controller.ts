@@ -0,0 +1,88 @@
+import { Controller } from '@nestjs/common';
+import {
+  Ctx,
+  EventPattern,
+  MessagePattern,
+  RmqContext,
+} from '@nestjs/microservices';
+import { SharedService } from '@app/shared';
+import { UserReference } from '@app/shared/interfaces/user-reference.interface';
+import { ChatService } from './chat.service';
+import { ChatGateway } from './chat.gateway';
+import { MatchEvent } from '@app/shared/interfaces/match.interface';
+import { Room } from './interfaces/room.interface';
+import {
+  MessageReference,
+  ReportedMessage,
+} from '@app/shared/interfaces/report.interface';
+
+@Controller()
+export class ChatController {
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly chatGateway: ChatGateway,
+    private readonly sharedService: SharedService,
+  ) {}
+
+  @EventPattern('profile-matched')
+  profileMatched(@Ctx() context: RmqContext): void {
+    const extractData = this.sharedService.extractData<MatchEvent>(context);
+    try {
+      this.chatGateway.notifyMatch(extractData.data);
+      extractData.ack();
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+    }
+  }
+
+  @MessagePattern('find-reported-messages')
+  async findReportedMessages(
+    @Ctx() context: RmqContext,
+  ): Promise<ReportedMessage[] | null> {
+    const extractData = this.sharedService.extractData<{
+      profileId: string;
+      references: MessageReference[];
+    }>(context);
+    try {
+      const result = await this.chatService.findReportedMessages(
+        extractData.data.profileId,
+        extractData.data.references,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('export-user')
+  async exportUser(@Ctx() context: RmqContext): Promise<Room[] | null> {
+    const extractData = this.sharedService.extractData<UserReference>(context);
+    try {
+      const result = await this.chatService.exportUser(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('purge-user')
+  async purgeUser(@Ctx() context: RmqContext): Promise<boolean> {
+    const extractData = this.sharedService.extractData<UserReference>(context);
+    try {
+      const result = await this.chatService.purgeUser(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return false;
+    }
+  }
+}
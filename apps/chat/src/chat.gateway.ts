@@ -1,19 +1,57 @@
 import {
   MessageBody,
+  OnGatewayConnection,
   SubscribeMessage,
   WebSocketGateway,
   WebSocketServer,
   ConnectedSocket,
+  WsException,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { ChatService } from './chat.service';
 import { Message } from './interfaces/message.interface';
+import { JwksVerifier } from '@app/shared/jwks-verifier';
+import { RevokedSessions } from '@app/shared/revoked-sessions';
+import { JwtPayload } from 'apps/auth/src/interfaces/jwtToken.interface';
+import { MatchEvent } from '@app/shared/interfaces/match.interface';
 
 @WebSocketGateway({ namespace: 'chat' })
-export class ChatGateway {
+export class ChatGateway implements OnGatewayConnection {
   @WebSocketServer() server: Server;
+  private readonly matchesOnly = process.env.CHAT_MATCHES_ONLY === 'true';
 
-  constructor(private readonly chatService: ChatService) {}
+  constructor(
+    private readonly chatService: ChatService,
+    private readonly jwksVerifier: JwksVerifier,
+    private readonly revokedSessions: RevokedSessions,
+  ) {}
+
+  /**
+   * Sockets have to present an access token, either as `auth.token` in the
+   * handshake or in the `x-access-token` header, and are dropped otherwise.
+   * The token is only checked once, when the socket connects. Every socket
+   * joins a room of its user, to reach them outside of chat rooms.
+   */
+  async handleConnection(client: Socket): Promise<void> {
+    const header = client.handshake.headers['x-access-token'];
+    const bearer =
+      (client.handshake.auth?.token as string | undefined) ??
+      (typeof header === 'string' ? header : undefined);
+    const token = bearer?.startsWith('Bearer ') ? bearer.slice(7) : bearer;
+    try {
+      if (!token) throw new Error('Missing access token');
+      const payload = await this.jwksVerifier.verify<JwtPayload>(token);
+      if (!payload.sub || !payload.sid) throw new Error('Invalid access token');
+      if (await this.revokedSessions.isRevoked(payload.sid)) {
+        throw new Error('Session has been revoked');
+      }
+      client.data.payload = payload;
+      client.join(this.userRoom(payload.sub));
+    } catch (error) {
+      console.log(error);
+      client.disconnect(true);
+    }
+  }
 
   @SubscribeMessage('openRoom')
   async handleCreateRoom(
@@ -21,6 +59,21 @@ export class ChatGateway {
     @ConnectedSocket() client: Socket,
   ): Promise<void> {
     console.log('openRoom');
+    const blocked = await this.chatService.findBlockedProfileIds(
+      client.data.payload.sub,
+    );
+    if (data.users.some((user) => blocked.includes(user))) {
+      throw new WsException('You can not chat with this user');
+    }
+    if (this.matchesOnly) {
+      const matches = await this.chatService.findMatchedProfileIds(
+        client.data.payload.sub,
+      );
+      const allowed = [matches.profileId, ...matches.matchedProfileIds];
+      if (data.users.some((user) => !allowed.includes(user))) {
+        throw new WsException('You can only chat with your matches');
+      }
+    }
     const room = await this.chatService.createRoom(data.users);
     client.join(room._id.toString());
     const messages = await this.chatService.getMessage(room._id.toString());
@@ -28,9 +81,23 @@ export class ChatGateway {
     this.server.to(room._id.toString()).emit('getRoomId', room._id.toString());
   }
 
+  /**
+   * Rooms with someone the sender blocked or was blocked by stay readable
+   * but take no new messages.
+   */
   @SubscribeMessage('sentMessage')
-  handleMessage(@MessageBody() data: Message): void {
+  async handleMessage(
+    @MessageBody() data: Message,
+    @ConnectedSocket() client: Socket,
+  ): Promise<void> {
     console.log(data);
+    const [members, blocked] = await Promise.all([
+      this.chatService.getMembers(data.roomId),
+      this.chatService.findBlockedProfileIds(client.data.payload.sub),
+    ]);
+    if (members.some((member) => blocked.includes(member))) {
+      throw new WsException('You can not chat with this user');
+    }
     this.server.to(data.roomId).emit('onMessage', data);
     this.chatService.saveMessage(data);
   }
@@ -40,7 +107,10 @@ export class ChatGateway {
     @MessageBody() data: { userId: string; roomId: string },
     @ConnectedSocket() client: Socket,
   ): Promise<void> {
-    const list = await this.chatService.getList(data.userId);
+    const list = await this.chatService.getList(
+      data.userId,
+      await this.chatService.findBlockedProfileIds(client.data.payload.sub),
+    );
     client.send(list);
     client.leave(data.roomId);
   }
@@ -50,7 +120,27 @@ export class ChatGateway {
     @MessageBody() data: { userId: string; roomId: string },
     @ConnectedSocket() client: Socket,
   ): Promise<void> {
-    const list = await this.chatService.getList(data.userId);
+    const list = await this.chatService.getList(
+      data.userId,
+      await this.chatService.findBlockedProfileIds(client.data.payload.sub),
+    );
     client.send(list);
   }
+
+  /**
+   * Tell both users about their match with a `match` event carrying the
+   * other one's profile id.
+   */
+  notifyMatch(event: MatchEvent): void {
+    event.userIds.forEach((userId, index) => {
+      this.server.to(this.userRoom(userId)).emit('match', {
+        profileId: event.profileIds[1 - index],
+        matchedAt: event.matchedAt,
+      });
+    });
+  }
+
+  private userRoom(userId: string): string {
+    return `user:${userId}`;
+  }
 }
@@ -4,7 +4,17 @@ import { ChatService } from './chat.service';
 import { MongooseModule } from '@nestjs/mongoose';
 import { RoomSchema } from './schemas/room.schema';
 import { ConfigModule, ConfigService } from '@nestjs/config';
-import { ClientProxyFactory, Transport } from '@nestjs/microservices';
+import {
+  ClientProxy,
+  ClientProxyFactory,
+  Transport,
+} from '@nestjs/microservices';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { firstValueFrom } from 'rxjs';
+import { JwksVerifier } from '@app/shared/jwks-verifier';
+import { RevokedSessions } from '@app/shared/revoked-sessions';
+import { SharedModule } from '@app/shared';
+import { ChatController } from './chat.controller';
 
 @Module({
   imports: [
@@ -20,7 +30,10 @@ import { ClientProxyFactory, Transport } from '@nestjs/microservices';
       inject: [ConfigService],
     }),
     MongooseModule.forFeature([{ name: 'Room', schema: RoomSchema }]),
+    JwtModule.register({}),
+    SharedModule,
   ],
+  controllers: [ChatController],
   providers: [
     ChatService,
     ChatGateway,
@@ -45,6 +58,43 @@ import { ClientProxyFactory, Transport } from '@nestjs/microservices';
       },
       inject: [ConfigService],
     },
+    {
+      provide: 'AUTH_SERVICE',
+      useFactory: (configService: ConfigService) => {
+        const USER = configService.get('RABBITMQ_USER');
+        const PASSWORD = configService.get('RABBITMQ_PASS');
+        const HOST = configService.get('RABBITMQ_HOST');
+        const QUEUE = configService.get('RABBITMQ_AUTH_QUEUE');
+
+        return ClientProxyFactory.create({
+          transport: Transport.RMQ,
+          options: {
+            urls: [`amqp://${USER}:${PASSWORD}@${HOST}`],
+            queue: QUEUE,
+            queueOptions: {
+              durable: true,
+            },
+          },
+        });
+      },
+      inject: [ConfigService],
+    },
+    {
+      provide: JwksVerifier,
+      useFactory: (authService: ClientProxy, jwtService: JwtService) =>
+        new JwksVerifier(jwtService, () =>
+          firstValueFrom(authService.send('get-jwks', {})),
+        ),
+      inject: ['AUTH_SERVICE', JwtService],
+    },
+    {
+      provide: RevokedSessions,
+      useFactory: (authService: ClientProxy) =>
+        new RevokedSessions(() =>
+          firstValueFrom(authService.send('get-revoked-sessions', {})),
+        ),
+      inject: ['AUTH_SERVICE'],
+    },
   ],
 })
 export class ChatModule {}
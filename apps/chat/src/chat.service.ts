@@ -1,11 +1,17 @@
 import { Inject, Injectable } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
+import { isValidObjectId, Model } from 'mongoose';
 import { Message } from './interfaces/message.interface';
 import { Room } from './interfaces/room.interface';
 import { ClientProxy } from '@nestjs/microservices';
 import { Chat } from './interfaces/chat.interface';
 import { firstValueFrom } from 'rxjs';
+import { UserReference } from '@app/shared/interfaces/user-reference.interface';
+import {
+  MessageReference,
+  ReportedMessage,
+} from '@app/shared/interfaces/report.interface';
+import { MatchedProfiles } from '@app/shared/interfaces/match.interface';
 
 @Injectable()
 export class ChatService {
@@ -40,9 +46,41 @@ export class ChatService {
     return room.message;
   }
 
-  async getList(userId: string): Promise<Chat[]> {
+  async getMembers(roomId: string): Promise<string[]> {
+    if (!isValidObjectId(roomId)) return [];
+    const room = await this.roomModel.findById(roomId).exec();
+    return room?.users ?? [];
+  }
+
+  /**
+   * Profile ids the user blocked or was blocked by, asked from the user
+   * service on every use so blocks take effect right away.
+   */
+  async findBlockedProfileIds(userId: string): Promise<string[]> {
+    const profileIds: string[] | null = await firstValueFrom(
+      this.userService.send('find-blocked-profile-ids', userId),
+    );
+    if (profileIds === null) throw new Error('Blocks could not be looked up');
+    return profileIds;
+  }
+
+  async findMatchedProfileIds(userId: string): Promise<MatchedProfiles> {
+    const matches: MatchedProfiles | null = await firstValueFrom(
+      this.userService.send('find-matched-profile-ids', userId),
+    );
+    if (matches === null) throw new Error('Matches could not be looked up');
+    return matches;
+  }
+
+  /**
+   * Rooms shared with anyone in `hiddenProfileIds` are left out.
+   */
+  async getList(
+    userId: string,
+    hiddenProfileIds: string[] = [],
+  ): Promise<Chat[]> {
     const rooms = await this.roomModel
-      .find({ users: { $in: [userId] } })
+      .find({ users: { $in: [userId], $nin: hiddenProfileIds } })
       .exec();
     const profileIds = rooms.map((room) => {
       return room.users.filter((user) => user !== userId)[0];
@@ -77,6 +115,88 @@ export class ChatService {
     return true;
   }
 
+  /**
+   * Copies of the referenced messages, for a report. Only messages of rooms
+   * `profileId` is in are found.
+   */
+  async findReportedMessages(
+    profileId: string,
+    references: MessageReference[],
+  ): Promise<ReportedMessage[]> {
+    const roomIds = references
+      .map((reference) => reference.roomId)
+      .filter((roomId) => isValidObjectId(roomId));
+    const rooms = await this.roomModel
+      .find({ _id: { $in: roomIds }, users: profileId })
+      .lean()
+      .exec();
+    return references.flatMap(({ roomId, messageId }) => {
+      const room = rooms.find((room) => room._id.toString() === roomId);
+      const message = (
+        room?.message as (Message & { _id: unknown })[] | undefined
+      )?.find((message) => String(message._id) === messageId);
+      if (!message) return [];
+      return [
+        {
+          roomId,
+          messageId,
+          authorId: message.user.id,
+          text: message.text,
+          createdAt: message.createdAt,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Every room the user is or was in, with all its messages, for the data
+   * export.
+   */
+  async exportUser(userReference: UserReference): Promise<Room[]> {
+    const ids = [userReference.userId, userReference.profileId].filter(
+      (id): id is string => !!id,
+    );
+    return this.roomModel
+      .find({
+        $or: [{ users: { $in: ids } }, { 'message.user.id': { $in: ids } }],
+      })
+      .lean()
+      .exec();
+  }
+
+  /**
+   * Take a deleted user out of every room. Their messages stay for the other
+   * members but lose the author and the references to attached media; the
+   * files themselves go with the gridfs purge of everything the user
+   * uploaded. Rooms nobody is left in are dropped.
+   */
+  async purgeUser(purgeUser: UserReference): Promise<boolean> {
+    const ids = [purgeUser.userId, purgeUser.profileId].filter(
+      (id): id is string => !!id,
+    );
+    await this.roomModel.updateMany(
+      { 'message.user.id': { $in: ids } },
+      {
+        $set: {
+          'message.$[authored].user': {
+            id: '',
+            profileImage: '',
+            firstName: 'Deleted user',
+            customProperties: {},
+          },
+          'message.$[authored].medias': [],
+        },
+      },
+      { arrayFilters: [{ 'authored.user.id': { $in: ids } }] },
+    );
+    await this.roomModel.updateMany(
+      { users: { $in: ids } },
+      { $pull: { users: { $in: ids } } },
+    );
+    await this.roomModel.deleteMany({ users: { $size: 0 } });
+    return true;
+  }
+
   // async joinRoom(data: JoinRoomDto): Promise<void> {
   //   const room = await this.roomModel.findOne({ _id: data.roomId });
   //   if (!room) {
@@ -1,8 +1,29 @@
 import { NestFactory } from '@nestjs/core';
 import { ChatModule } from './chat.module';
+import { ConfigService } from '@nestjs/config';
+import { MicroserviceOptions, Transport } from '@nestjs/microservices';
 
 async function bootstrap() {
   const app = await NestFactory.create(ChatModule);
+  const configService = app.get(ConfigService);
+
+  const USER = configService.get('RABBITMQ_USER');
+  const PASSWORD = configService.get('RABBITMQ_PASS');
+  const HOST = configService.get('RABBITMQ_HOST');
+  const QUEUE = configService.get('RABBITMQ_CHAT_QUEUE');
+
+  app.connectMicroservice<MicroserviceOptions>({
+    transport: Transport.RMQ,
+    options: {
+      urls: [`amqp://${USER}:${PASSWORD}@${HOST}`],
+      noAck: false,
+      queue: QUEUE,
+      queueOptions: {
+        durable: true,
+      },
+    },
+  });
+  await app.startAllMicroservices();
   await app.listen(3002);
 }
 bootstrap();
@@ -3,22 +3,52 @@ import {
   Get,
   Param,
   Put,
+  Query,
+  Req,
   Res,
   UploadedFile,
+  UseGuards,
   UseInterceptors,
 } from '@nestjs/common';
 import { GridfsService } from './gridfs.service';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { Response } from 'express';
+import { Ctx, MessagePattern, RmqContext } from '@nestjs/microservices';
+import { SharedService } from '@app/shared';
+import { AuthGuard } from '@app/shared/auth-guard';
+import { AuthRequest } from '@app/shared/types/auth-request.type';
+import { UserReference } from '@app/shared/interfaces/user-reference.interface';
+import { BuildExport } from '@app/shared/interfaces/data-export.interface';
+import { verifyLink } from '@app/shared/signed-link';
+import { StoredFile } from '@app/shared/interfaces/profile-photo.interface';
 
 @Controller('api')
 export class GridfsController {
-  constructor(private readonly gridfsService: GridfsService) {}
+  constructor(
+    private readonly gridfsService: GridfsService,
+    private readonly sharedService: SharedService,
+  ) {}
 
   @Put('upload')
+  @UseGuards(AuthGuard)
   @UseInterceptors(FileInterceptor('file'))
-  async uploadFile(@UploadedFile() file: Express.Multer.File) {
-    await this.gridfsService.saveFile(file);
+  async uploadFile(
+    @Req() req: AuthRequest,
+    @UploadedFile() file: Express.Multer.File,
+  ): Promise<{ id: string; filename: string }> {
+    const id = await this.gridfsService.saveFile(file, req.payload.sub);
+    return { id, filename: file.originalname };
+  }
+
+  @Get('files/:id')
+  async getFileById(@Param('id') fileId: string, @Res() res: Response) {
+    const result = await this.gridfsService.openFile(fileId);
+    if (!result) return res.status(404).send();
+    if (result.file.contentType) {
+      res.setHeader('Content-Type', result.file.contentType);
+    }
+    res.setHeader('Content-Length', String(result.file.length));
+    result.stream.pipe<Response>(res);
   }
 
   @Get('file/:filename')
@@ -29,4 +59,95 @@ export class GridfsController {
     }
     readStream.pipe<Response>(res);
   }
+
+  /**
+   * Download of a data export. The signed link is the only credential, it
+   * is handed out by the user service and expires after a short while.
+   */
+  @Get('exports/:id')
+  async downloadExport(
+    @Param('id') exportId: string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res() res: Response,
+  ) {
+    const isValid = verifyLink(
+      exportId,
+      Number(expires),
+      signature ?? '',
+      process.env.DATA_EXPORT_LINK_SECRET as string,
+    );
+    if (!isValid) return res.status(403).send();
+    const file = await this.gridfsService.getExport(exportId);
+    if (!file) return res.status(404).send();
+    res.setHeader('Content-Type', 'application/gzip');
+    res.setHeader('Content-Length', String(file.length));
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="youapp-${exportId}.tar.gz"`,
+    );
+    this.gridfsService.openExport(file).pipe<Response>(res);
+  }
+
+  @MessagePattern('build-export')
+  async buildExport(@Ctx() context: RmqContext): Promise<number | null> {
+    const extractData = this.sharedService.extractData<BuildExport>(context);
+    try {
+      const result = await this.gridfsService.buildExport(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('find-file')
+  async findFile(@Ctx() context: RmqContext): Promise<StoredFile | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.gridfsService.findFile(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('delete-file')
+  async deleteFile(@Ctx() context: RmqContext): Promise<boolean> {
+    const extractData = this.sharedService.extractData<{
+      fileId: string;
+      userId: string;
+    }>(context);
+    try {
+      const result = await this.gridfsService.deleteFileOf(
+        extractData.data.fileId,
+        extractData.data.userId,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return false;
+    }
+  }
+
+  @MessagePattern('purge-user')
+  async purgeUser(@Ctx() context: RmqContext): Promise<boolean> {
+    const extractData = this.sharedService.extractData<UserReference>(context);
+    try {
+      await this.gridfsService.deleteFilesOf(extractData.data.userId);
+      extractData.ack();
+      return true;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return false;
+    }
+  }
 }
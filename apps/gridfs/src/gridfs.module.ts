@@ -4,6 +4,15 @@ import { GridfsService } from './gridfs.service';
 import { SharedModule } from '@app/shared';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { MongooseModule } from '@nestjs/mongoose';
+import {
+  ClientProxy,
+  ClientProxyFactory,
+  Transport,
+} from '@nestjs/microservices';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { firstValueFrom } from 'rxjs';
+import { JwksVerifier } from '@app/shared/jwks-verifier';
+import { RevokedSessions } from '@app/shared/revoked-sessions';
 
 @Module({
   imports: [
@@ -19,8 +28,48 @@ import { MongooseModule } from '@nestjs/mongoose';
       }),
       inject: [ConfigService],
     }),
+    JwtModule.register({}),
   ],
   controllers: [GridfsController],
-  providers: [GridfsService],
+  providers: [
+    GridfsService,
+    {
+      provide: 'AUTH_SERVICE',
+      useFactory: (configService: ConfigService) => {
+        const USER = configService.get('RABBITMQ_USER');
+        const PASSWORD = configService.get('RABBITMQ_PASS');
+        const HOST = configService.get('RABBITMQ_HOST');
+        const QUEUE = configService.get('RABBITMQ_AUTH_QUEUE');
+
+        return ClientProxyFactory.create({
+          transport: Transport.RMQ,
+          options: {
+            urls: [`amqp://${USER}:${PASSWORD}@${HOST}`],
+            queue: QUEUE,
+            queueOptions: {
+              durable: true,
+            },
+          },
+        });
+      },
+      inject: [ConfigService],
+    },
+    {
+      provide: JwksVerifier,
+      useFactory: (authService: ClientProxy, jwtService: JwtService) =>
+        new JwksVerifier(jwtService, () =>
+          firstValueFrom(authService.send('get-jwks', {})),
+        ),
+      inject: ['AUTH_SERVICE', JwtService],
+    },
+    {
+      provide: RevokedSessions,
+      useFactory: (authService: ClientProxy) =>
+        new RevokedSessions(() =>
+          firstValueFrom(authService.send('get-revoked-sessions', {})),
+        ),
+      inject: ['AUTH_SERVICE'],
+    },
+  ],
 })
 export class GridfsModule {}
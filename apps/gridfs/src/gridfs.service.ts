@@ -1,13 +1,22 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { InjectConnection } from '@nestjs/mongoose';
 
 import * as mongoose from 'mongoose';
-import { GridFSBucket } from 'mongodb';
+import { GridFSBucket, GridFSFile } from 'mongodb';
 import { Readable } from 'node:stream';
+import { finished } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+import { BuildExport } from '@app/shared/interfaces/data-export.interface';
+import { StoredFile } from '@app/shared/interfaces/profile-photo.interface';
+import { TarWriter } from './tar-writer';
+
+const EXPORT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
 
 @Injectable()
-export class GridfsService {
+export class GridfsService implements OnModuleInit, OnModuleDestroy {
   private gfs!: GridFSBucket;
+  private exports!: GridFSBucket;
+  private timer?: NodeJS.Timeout;
 
   constructor(
     @InjectConnection() private readonly connection: mongoose.Connection,
@@ -15,9 +24,27 @@ export class GridfsService {
     this.gfs = new mongoose.mongo.GridFSBucket(this.connection.db, {
       bucketName: 'uploads',
     });
+    this.exports = new mongoose.mongo.GridFSBucket(this.connection.db, {
+      bucketName: 'exports',
+    });
+  }
+
+  onModuleInit(): void {
+    this.timer = setInterval(
+      () => this.deleteExpiredExports().catch((error) => console.log(error)),
+      EXPORT_CLEANUP_INTERVAL_MS,
+    );
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
   }
 
-  async saveFile(file: Express.Multer.File): Promise<void> {
+  /**
+   * Resolves to the id of the stored file once it is written.
+   */
+  async saveFile(file: Express.Multer.File, userId: string): Promise<string> {
     const readStream = new Readable();
     readStream._read = () => {};
     readStream.push(file.buffer);
@@ -25,9 +52,41 @@ export class GridfsService {
 
     const uploadStream = this.gfs.openUploadStream(file.originalname, {
       contentType: file.mimetype,
+      metadata: { userId },
     });
 
     readStream.pipe(uploadStream);
+    await finished(uploadStream);
+    return uploadStream.id.toString();
+  }
+
+  async findFile(fileId: string): Promise<StoredFile | null> {
+    const file = await this.findById(fileId);
+    if (!file) return null;
+    return {
+      id: file._id.toString(),
+      userId: file.metadata?.userId,
+      contentType: file.contentType,
+      length: file.length,
+    };
+  }
+
+  async openFile(
+    fileId: string,
+  ): Promise<{ file: GridFSFile; stream: Readable } | undefined> {
+    const file = await this.findById(fileId);
+    if (!file) return undefined;
+    return { file, stream: this.gfs.openDownloadStream(file._id) };
+  }
+
+  /**
+   * Delete one upload of the user. A file that is already gone counts as
+   * deleted, so callers can retry.
+   */
+  async deleteFileOf(fileId: string, userId: string): Promise<boolean> {
+    const file = await this.findById(fileId);
+    if (file?.metadata?.userId === userId) await this.gfs.delete(file._id);
+    return true;
   }
 
   async deleteFile(filename: string): Promise<void> {
@@ -39,6 +98,140 @@ export class GridfsService {
     await this.gfs.delete(new mongoose.Types.ObjectId(file[0]._id));
   }
 
+  /**
+   * Delete every file uploaded by the user. Files uploaded before uploads
+   * recorded their owner can't be attributed and are kept.
+   */
+  async deleteFilesOf(userId: string): Promise<void> {
+    const files = await this.gfs.find({ 'metadata.userId': userId }).toArray();
+    for (const file of files) {
+      await this.gfs.delete(file._id);
+    }
+    const archives = await this.exports
+      .find({ 'metadata.userId': userId })
+      .toArray();
+    for (const archive of archives) {
+      await this.exports.delete(archive._id);
+    }
+  }
+
+  /**
+   * Pack the documents and every file the user owns into a tar.gz archive in
+   * the `exports` bucket. Building the same export again replaces the
+   * archive. Resolves to the archive size in bytes.
+   */
+  async buildExport(buildExport: BuildExport): Promise<number> {
+    const filename = this.exportFilename(buildExport.exportId);
+    await this.deleteExport(filename);
+    const files = await this.gfs
+      .find({ 'metadata.userId': buildExport.userId })
+      .toArray();
+    const entries = files.map((file) => ({
+      file,
+      path: `files/${file._id.toString()}-${this.safeName(file.filename)}`,
+    }));
+    const documents: Record<string, unknown> = {
+      ...buildExport.documents,
+      'files.json': entries.map(({ file, path }) => ({
+        path,
+        filename: file.filename,
+        contentType: file.contentType,
+        length: file.length,
+        uploadDate: file.uploadDate,
+      })),
+    };
+    const manifest = {
+      exportId: buildExport.exportId,
+      userId: buildExport.userId,
+      createdAt: new Date(),
+      contents: [...Object.keys(documents), ...entries.map(({ path }) => path)],
+    };
+
+    const gzip = createGzip();
+    const upload = this.exports.openUploadStream(filename, {
+      contentType: 'application/gzip',
+      metadata: {
+        userId: buildExport.userId,
+        exportId: buildExport.exportId,
+        expiresAt: new Date(buildExport.expiresAt),
+      },
+    });
+    gzip.pipe(upload);
+    const uploaded = finished(upload);
+    const tar = new TarWriter(gzip);
+    try {
+      await tar.addBuffer('manifest.json', this.toJson(manifest));
+      for (const [path, document] of Object.entries(documents)) {
+        await tar.addBuffer(path, this.toJson(document));
+      }
+      for (const { file, path } of entries) {
+        await tar.addStream(
+          path,
+          file.length,
+          this.gfs.openDownloadStream(file._id),
+          file.uploadDate,
+        );
+      }
+      await tar.finish();
+      await uploaded;
+    } catch (error) {
+      gzip.destroy();
+      await upload.abort().catch(() => undefined);
+      throw error;
+    }
+    return upload.length;
+  }
+
+  async getExport(exportId: string): Promise<GridFSFile | undefined> {
+    const [file] = await this.exports
+      .find({
+        filename: this.exportFilename(exportId),
+        'metadata.expiresAt': { $gt: new Date() },
+      })
+      .toArray();
+    return file;
+  }
+
+  openExport(file: GridFSFile): Readable {
+    return this.exports.openDownloadStream(file._id);
+  }
+
+  private async deleteExport(filename: string): Promise<void> {
+    const files = await this.exports.find({ filename }).toArray();
+    for (const file of files) {
+      await this.exports.delete(file._id);
+    }
+  }
+
+  private async deleteExpiredExports(): Promise<void> {
+    const files = await this.exports
+      .find({ 'metadata.expiresAt': { $lte: new Date() } })
+      .toArray();
+    for (const file of files) {
+      await this.exports.delete(file._id);
+    }
+  }
+
+  private async findById(fileId: string): Promise<GridFSFile | undefined> {
+    if (!mongoose.isValidObjectId(fileId)) return undefined;
+    const [file] = await this.gfs
+      .find({ _id: new mongoose.Types.ObjectId(fileId) })
+      .toArray();
+    return file;
+  }
+
+  private exportFilename(exportId: string): string {
+    return `export-${exportId}.tar.gz`;
+  }
+
+  private safeName(filename: string): string {
+    return filename.replace(/[^\w.-]+/g, '_').slice(-60);
+  }
+
+  private toJson(value: unknown): Buffer {
+    return Buffer.from(JSON.stringify(value, null, 2) + '\n');
+  }
+
   async getFile(filename: string): Promise<Readable | undefined> {
     try {
       const file = await this.gfs.find({ filename }).toArray();
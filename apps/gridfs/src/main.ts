@@ -1,10 +1,29 @@
 import { NestFactory } from '@nestjs/core';
 import { GridfsModule } from './gridfs.module';
 import { ConfigService } from '@nestjs/config/dist/config.service';
+import { MicroserviceOptions, Transport } from '@nestjs/microservices';
 
 async function bootstrap() {
   const app = await NestFactory.create(GridfsModule);
   const configService = app.get(ConfigService);
+
+  const USER = configService.get('RABBITMQ_USER');
+  const PASSWORD = configService.get('RABBITMQ_PASS');
+  const HOST = configService.get('RABBITMQ_HOST');
+  const QUEUE = configService.get('RABBITMQ_GRIDFS_QUEUE');
+
+  app.connectMicroservice<MicroserviceOptions>({
+    transport: Transport.RMQ,
+    options: {
+      urls: [`amqp://${USER}:${PASSWORD}@${HOST}`],
+      noAck: false,
+      queue: QUEUE,
+      queueOptions: {
+        durable: true,
+      },
+    },
+  });
+  await app.startAllMicroservices();
   await app.listen(configService.get('GRIDFS_PORT') as number);
 }
 bootstrap();
@@ -0,0 +1,53 @@
+import { PassThrough, Readable } from 'stream';
+import { TarWriter } from './tar-writer';
+
+async function pack(build: (tar: TarWriter) => Promise<void>): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+  await build(new TarWriter(output));
+  return Buffer.concat(chunks);
+}
+
+describe('TarWriter', () => {
+  it('should write ustar entries padded to whole blocks', async () => {
+    const archive = await pack(async (tar) => {
+      await tar.addBuffer('manifest.json', Buffer.from('{"a":1}'));
+      await tar.addStream(
+        'files/photo.jpg',
+        3,
+        Readable.from([Buffer.from('abc')]),
+      );
+      await tar.finish();
+    });
+
+    // two headers, two data blocks and two end blocks
+    expect(archive.length).toBe(512 * 6);
+    const header = archive.subarray(0, 512);
+    expect(header.toString('utf8', 0, 13)).toBe('manifest.json');
+    expect(parseInt(header.toString('ascii', 124, 135), 8)).toBe(7);
+    expect(header.toString('ascii', 257, 262)).toBe('ustar');
+    expect(archive.toString('utf8', 512, 519)).toBe('{"a":1}');
+    expect(archive.toString('utf8', 1024, 1039)).toBe('files/photo.jpg');
+    expect(archive.toString('utf8', 1536, 1539)).toBe('abc');
+  });
+
+  it('should write a valid header checksum', async () => {
+    const archive = await pack((tar) =>
+      tar.addBuffer('user.json', Buffer.from('{}')),
+    );
+    const header = Buffer.from(archive.subarray(0, 512));
+    const stored = parseInt(header.toString('ascii', 148, 154), 8);
+    header.fill(' ', 148, 156);
+
+    expect(header.reduce((sum, byte) => sum + byte, 0)).toBe(stored);
+  });
+
+  it('should reject a stream shorter than announced', async () => {
+    await expect(
+      pack((tar) =>
+        tar.addStream('short.bin', 10, Readable.from([Buffer.from('abc')])),
+      ),
+    ).rejects.toThrow('expected 10');
+  });
+});
@@ -0,0 +1,85 @@
+import { once } from 'events';
+import { Readable, Writable } from 'stream';
+
+const BLOCK_SIZE = 512;
+
+/**
+ * @description
+ * Minimal streaming writer for ustar archives, enough to pack files whose
+ * size is known up front. Names are limited to 100 bytes.
+ */
+export class TarWriter {
+  constructor(private readonly output: Writable) {}
+
+  async addBuffer(name: string, data: Buffer, mtime = new Date()) {
+    await this.write(this.header(name, data.length, mtime));
+    await this.write(data);
+    await this.pad(data.length);
+  }
+
+  async addStream(
+    name: string,
+    size: number,
+    data: Readable,
+    mtime = new Date(),
+  ): Promise<void> {
+    await this.write(this.header(name, size, mtime));
+    let written = 0;
+    for await (const chunk of data) {
+      written += (chunk as Buffer).length;
+      await this.write(chunk as Buffer);
+    }
+    if (written !== size) {
+      throw new Error(`${name} was ${written} bytes, expected ${size}`);
+    }
+    await this.pad(size);
+  }
+
+  async finish(): Promise<void> {
+    await this.write(Buffer.alloc(BLOCK_SIZE * 2));
+    this.output.end();
+  }
+
+  private header(name: string, size: number, mtime: Date): Buffer {
+    const header = Buffer.alloc(BLOCK_SIZE);
+    if (Buffer.byteLength(name) > 100) {
+      throw new Error(`Name too long for a tar entry: ${name}`);
+    }
+    header.write(name, 0, 100, 'utf8');
+    this.writeOctal(header, 0o644, 100, 8);
+    this.writeOctal(header, 0, 108, 8);
+    this.writeOctal(header, 0, 116, 8);
+    this.writeOctal(header, size, 124, 12);
+    this.writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+    header.fill(' ', 148, 156);
+    header.write('0', 156, 1, 'ascii');
+    header.write('ustar\u000000', 257, 8, 'ascii');
+    let checksum = 0;
+    for (const byte of header) checksum += byte;
+    header.write(checksum.toString(8).padStart(6, '0') + '\u0000 ', 148, 8);
+    return header;
+  }
+
+  private writeOctal(
+    header: Buffer,
+    value: number,
+    offset: number,
+    length: number,
+  ): void {
+    header.write(
+      value.toString(8).padStart(length - 1, '0') + '\u0000',
+      offset,
+      length,
+      'ascii',
+    );
+  }
+
+  private async pad(size: number): Promise<void> {
+    const remainder = size % BLOCK_SIZE;
+    if (remainder > 0) await this.write(Buffer.alloc(BLOCK_SIZE - remainder));
+  }
+
+  private async write(chunk: Buffer): Promise<void> {
+    if (!this.output.write(chunk)) await once(this.output, 'drain');
+  }
+}
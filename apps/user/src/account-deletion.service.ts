@@ -0,0 +1,258 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientProxy } from '@nestjs/microservices';
+import { Model } from 'mongoose';
+import { firstValueFrom, timeout } from 'rxjs';
+import { User } from '@app/shared/interfaces/user.interface';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import { UserReference } from '@app/shared/interfaces/user-reference.interface';
+import { AccountDeletion } from '@app/shared/interfaces/account-deletion.interface';
+import { Profile } from './interfaces/profile.interface';
+import {
+  AccountPurge,
+  AccountPurgeDocument,
+  PurgeTarget,
+} from './interfaces/account-purge.interface';
+import { DataExport } from './interfaces/data-export.interface';
+import { Block } from './interfaces/block.interface';
+import { Report } from './interfaces/report.interface';
+import { Swipe } from './interfaces/swipe.interface';
+import { Match } from './interfaces/match.interface';
+import { Interest } from './interfaces/interest.interface';
+import { ProfileChange } from './interfaces/profile-change.interface';
+import {
+  DEFAULT_ACCOUNT_DELETION_GRACE_MS,
+  PURGE_BACKOFF_BASE_MS,
+  PURGE_BATCH_SIZE,
+  PURGE_CHECK_INTERVAL_MS,
+  PURGE_LEASE_MS,
+  PURGE_MAX_BACKOFF_MS,
+  PURGE_RECORD_TTL_MS,
+  PURGE_TIMEOUT_MS,
+} from './constants/account-deletion.constant';
+
+const PURGE_TARGETS: PurgeTarget[] = ['auth', 'chat', 'gridfs'];
+
+/**
+ * @description
+ * Deleting an account first only schedules it, `ACCOUNT_DELETION_GRACE_MS`
+ * ahead. Once due, every other service is asked over RabbitMQ to purge the
+ * user; services that fail or don't answer are asked again later with a
+ * growing delay. The user and profile documents go last, when everyone has
+ * confirmed.
+ */
+@Injectable()
+export class AccountDeletionService implements OnModuleInit, OnModuleDestroy {
+  private readonly graceMs =
+    Number(process.env.ACCOUNT_DELETION_GRACE_MS) ||
+    DEFAULT_ACCOUNT_DELETION_GRACE_MS;
+  private readonly clients: Record<PurgeTarget, ClientProxy>;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectModel('User') private readonly userModel: Model<User>,
+    @InjectModel('Profile') private readonly profileModel: Model<Profile>,
+    @InjectModel('AccountPurge')
+    private readonly accountPurgeModel: Model<AccountPurge>,
+    @InjectModel('DataExport')
+    private readonly dataExportModel: Model<DataExport>,
+    @InjectModel('Block') private readonly blockModel: Model<Block>,
+    @InjectModel('Report') private readonly reportModel: Model<Report>,
+    @InjectModel('Swipe') private readonly swipeModel: Model<Swipe>,
+    @InjectModel('Match') private readonly matchModel: Model<Match>,
+    @InjectModel('Interest')
+    private readonly interestModel: Model<Interest>,
+    @InjectModel('ProfileChange')
+    private readonly profileChangeModel: Model<ProfileChange>,
+    @Inject('AUTH_SERVICE') authService: ClientProxy,
+    @Inject('CHAT_SERVICE') chatService: ClientProxy,
+    @Inject('GRIDFS_SERVICE') gridfsService: ClientProxy,
+  ) {
+    this.clients = {
+      auth: authService,
+      chat: chatService,
+      gridfs: gridfsService,
+    };
+  }
+
+  onModuleInit(): void {
+    this.timer = setInterval(() => this.processDue(), PURGE_CHECK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Resolves to the schedule, the existing one when the deletion was already
+   * requested.
+   */
+  async schedule(userId: string): Promise<AccountDeletion | null> {
+    const now = new Date();
+    await this.userModel.updateOne(
+      { _id: userId, deletionScheduledAt: null },
+      {
+        deletionRequestedAt: now,
+        deletionScheduledAt: new Date(now.getTime() + this.graceMs),
+      },
+    );
+    const user = await this.userModel.findById(userId).exec();
+    if (!user?.deletionRequestedAt || !user.deletionScheduledAt) return null;
+    return {
+      requestedAt: user.deletionRequestedAt,
+      scheduledAt: user.deletionScheduledAt,
+    };
+  }
+
+  async cancel(userId: string): Promise<boolean | ErrorData> {
+    const result = await this.userModel.updateOne(
+      { _id: userId, deletionScheduledAt: { $gt: new Date() } },
+      { $unset: { deletionRequestedAt: 1, deletionScheduledAt: 1 } },
+    );
+    if (result.modifiedCount !== 1) {
+      return {
+        statusCode: 1009,
+        error: 'No account deletion is scheduled',
+      };
+    }
+    return true;
+  }
+
+  async processDue(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.startDuePurges();
+      for (let i = 0; i < PURGE_BATCH_SIZE; i++) {
+        const purge = await this.claimPurge();
+        if (!purge) break;
+        await this.purge(purge);
+      }
+    } catch (error) {
+      console.log(error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async startDuePurges(): Promise<void> {
+    const now = new Date();
+    // users whose purge is under way are left to it, however long it takes
+    const users = await this.userModel
+      .find({ deletionScheduledAt: { $lte: now }, purgeStartedAt: null })
+      .limit(PURGE_BATCH_SIZE)
+      .exec();
+    for (const user of users) {
+      const userId = user._id.toString();
+      const profile = await this.profileModel.findOne({ userId }).exec();
+      await this.accountPurgeModel.updateOne(
+        { userId },
+        {
+          $setOnInsert: {
+            userId,
+            profileId: profile?._id.toString(),
+            pending: PURGE_TARGETS,
+            attempts: 0,
+            nextAttemptAt: now,
+          },
+        },
+        { upsert: true },
+      );
+      await this.userModel.updateOne(
+        { _id: user._id },
+        { purgeStartedAt: now },
+      );
+    }
+  }
+
+  /**
+   * Take the next purge that is due and push its next attempt out by a
+   * lease, so another instance doesn't work on it at the same time.
+   */
+  private async claimPurge(): Promise<AccountPurgeDocument | null> {
+    const now = Date.now();
+    return this.accountPurgeModel
+      .findOneAndUpdate(
+        { completedAt: null, nextAttemptAt: { $lte: new Date(now) } },
+        { nextAttemptAt: new Date(now + PURGE_LEASE_MS) },
+        { new: true },
+      )
+      .exec();
+  }
+
+  private async purge(purge: AccountPurgeDocument): Promise<void> {
+    const message: UserReference = {
+      userId: purge.userId,
+      profileId: purge.profileId,
+    };
+    const pending: PurgeTarget[] = [];
+    const errors: string[] = [];
+    for (const target of purge.pending) {
+      try {
+        const isPurged: boolean = await firstValueFrom(
+          this.clients[target]
+            .send('purge-user', message)
+            .pipe(timeout(PURGE_TIMEOUT_MS)),
+        );
+        if (!isPurged) throw new Error('purge was not confirmed');
+      } catch (error) {
+        pending.push(target);
+        errors.push(`${target}: ${(error as Error).message}`);
+      }
+    }
+
+    if (pending.length > 0) {
+      const attempts = purge.attempts + 1;
+      const delay = Math.min(
+        PURGE_BACKOFF_BASE_MS * 2 ** (attempts - 1),
+        PURGE_MAX_BACKOFF_MS,
+      );
+      await this.accountPurgeModel.updateOne(
+        { _id: purge._id },
+        {
+          pending,
+          attempts,
+          lastError: errors.join('; '),
+          nextAttemptAt: new Date(Date.now() + delay),
+        },
+      );
+      return;
+    }
+
+    await this.dataExportModel.deleteMany({ userId: purge.userId });
+    await this.blockModel.deleteMany({
+      $or: [{ userId: purge.userId }, { blockedUserId: purge.userId }],
+    });
+    // reports about the user stay as the moderation record
+    await this.reportModel.deleteMany({ reporterId: purge.userId });
+    await this.swipeModel.deleteMany({
+      $or: [{ userId: purge.userId }, { targetUserId: purge.userId }],
+    });
+    await this.matchModel.deleteMany({ userIds: purge.userId });
+    await this.interestModel.updateMany(
+      { submittedBy: purge.userId },
+      { $pull: { submittedBy: purge.userId } },
+    );
+    await this.profileChangeModel.deleteMany({ userId: purge.userId });
+    await this.profileModel.deleteMany({ userId: purge.userId });
+    await this.userModel.deleteOne({ _id: purge.userId });
+    const now = Date.now();
+    await this.accountPurgeModel.updateOne(
+      { _id: purge._id },
+      {
+        pending,
+        attempts: purge.attempts + 1,
+        $unset: { lastError: 1 },
+        completedAt: new Date(now),
+        expiresAt: new Date(now + PURGE_RECORD_TTL_MS),
+      },
+    );
+  }
+}
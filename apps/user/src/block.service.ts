@@ -0,0 +1,123 @@
+import { Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model } from 'mongoose';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import { BlockedProfile } from '@app/shared/interfaces/block.interface';
+import { Profile } from './interfaces/profile.interface';
+import { Block } from './interfaces/block.interface';
+
+/**
+ * @description
+ * Blocking works both ways: neither of the two sees the other among the
+ * profiles nor can reach them in chat, whoever did the blocking. Only the
+ * blocker can see and lift the block.
+ */
+@Injectable()
+export class BlockService {
+  constructor(
+    @InjectModel('Profile') private readonly profileModel: Model<Profile>,
+    @InjectModel('Block') private readonly blockModel: Model<Block>,
+  ) {}
+
+  async list(userId: string): Promise<BlockedProfile[]> {
+    const blocks = await this.blockModel
+      .find({ userId })
+      .sort({ createdAt: -1 })
+      .exec();
+    return blocks.map((block) => ({
+      profileId: block.blockedProfileId,
+      blockedAt: block.createdAt,
+    }));
+  }
+
+  /**
+   * Blocking someone who is already blocked changes nothing.
+   */
+  async block(
+    userId: string,
+    profileId: string,
+  ): Promise<BlockedProfile | ErrorData> {
+    const [profile, blocked] = await Promise.all([
+      this.profileModel.findOne({ userId }).exec(),
+      isValidObjectId(profileId)
+        ? this.profileModel.findById(profileId).exec()
+        : null,
+    ]);
+    if (!profile || !blocked) return this.profileNotFound();
+    if (blocked.userId === userId) {
+      return {
+        statusCode: 1020,
+        error: 'You can not block or report yourself',
+      };
+    }
+    const block = await this.blockModel
+      .findOneAndUpdate(
+        { userId, blockedUserId: blocked.userId },
+        {
+          $setOnInsert: {
+            profileId: profile._id.toString(),
+            blockedProfileId: profileId,
+          },
+        },
+        { upsert: true, new: true },
+      )
+      .exec();
+    return { profileId, blockedAt: block.createdAt };
+  }
+
+  /**
+   * Resolves to false when the profile wasn't blocked.
+   */
+  async unblock(userId: string, profileId: string): Promise<boolean> {
+    const result = await this.blockModel.deleteOne({
+      userId,
+      blockedProfileId: profileId,
+    });
+    return result.deletedCount === 1;
+  }
+
+  /**
+   * Everyone the user blocked or was blocked by.
+   */
+  async findBlockedUserIds(userId: string): Promise<string[]> {
+    const blocks = await this.findBlocks(userId);
+    return blocks.map((block) =>
+      block.userId === userId ? block.blockedUserId : block.userId,
+    );
+  }
+
+  /**
+   * The same as `findBlockedUserIds`, by profile id.
+   */
+  async findBlockedProfileIds(userId: string): Promise<string[]> {
+    const blocks = await this.findBlocks(userId);
+    return blocks.map((block) =>
+      block.userId === userId ? block.blockedProfileId : block.profileId,
+    );
+  }
+
+  async isBlocked(userId: string, otherUserId: string): Promise<boolean> {
+    const block = await this.blockModel
+      .exists({
+        $or: [
+          { userId, blockedUserId: otherUserId },
+          { userId: otherUserId, blockedUserId: userId },
+        ],
+      })
+      .exec();
+    return block !== null;
+  }
+
+  private async findBlocks(userId: string): Promise<Block[]> {
+    return this.blockModel
+      .find({ $or: [{ userId }, { blockedUserId: userId }] })
+      .exec();
+  }
+
+  private profileNotFound(): ErrorData {
+    return {
+      statusCode: 1000,
+      error: 'Profile not found',
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { scoreCompatibility } from './compatibility';
+
+describe('scoreCompatibility', () => {
+  const now = new Date('2024-06-15T12:00:00Z');
+
+  it('should score signs of the same element and triangle highly', () => {
+    const result = scoreCompatibility(
+      { horoscope: 'Aries', zodiac: 'Rat' },
+      { horoscope: 'Leo', zodiac: 'Dragon' },
+      now,
+    );
+
+    expect(result.breakdown).toEqual({
+      horoscope: 93,
+      zodiac: 100,
+      interests: null,
+      preferences: null,
+    });
+    expect(result.score).toBe(97);
+  });
+
+  it('should score clashing signs with nothing in common low', () => {
+    const result = scoreCompatibility(
+      { zodiac: 'Rat', interests: ['chess'] },
+      { zodiac: 'Horse', interests: ['surfing'] },
+      now,
+    );
+
+    expect(result.breakdown.zodiac).toBe(0);
+    expect(result.breakdown.interests).toBe(0);
+    expect(result.score).toBe(0);
+  });
+
+  it('should check the preferences of both sides', () => {
+    const result = scoreCompatibility(
+      {
+        birthday: '1995-01-01',
+        gender: true,
+        preferences: { gender: false, minAge: 25, maxAge: 35 },
+      },
+      { birthday: '2000-07-01', gender: false, preferences: { gender: true } },
+      now,
+    );
+
+    // the second profile is 23, too young for the first
+    expect(result.breakdown.preferences).toBe(67);
+  });
+});
@@ -0,0 +1,164 @@
+import {
+  Compatibility,
+  CompatibilityBreakdown,
+} from '@app/shared/interfaces/compatibility.interface';
+import { Profile, ProfilePreferences } from './interfaces/profile.interface';
+import {
+  ELEMENT_COMPATIBILITY,
+  HOROSCOPE_TRAITS,
+  MODALITY_COMPATIBILITY,
+} from './enums/horoscope.enum';
+import {
+  ZODIAC_CLASHES,
+  ZODIAC_COMPATIBILITY,
+  ZODIAC_TRIANGLES,
+} from './enums/zodiac.enum';
+import {
+  COMPATIBILITY_WEIGHTS,
+  HOROSCOPE_ELEMENT_WEIGHT,
+  UNKNOWN_PREFERENCE_SCORE,
+} from './constants/compatibility.constant';
+
+type ScoredProfile = Pick<
+  Profile,
+  | 'birthday'
+  | 'gender'
+  | 'heightInCm'
+  | 'horoscope'
+  | 'zodiac'
+  | 'interests'
+  | 'preferences'
+>;
+
+/**
+ * Score how well two profiles match. The score is symmetric, so it doesn't
+ * matter who asks.
+ */
+export function scoreCompatibility(
+  a: ScoredProfile,
+  b: ScoredProfile,
+  now = new Date(),
+): Compatibility {
+  const breakdown: CompatibilityBreakdown = {
+    horoscope: scoreHoroscope(a.horoscope, b.horoscope),
+    zodiac: scoreZodiac(a.zodiac, b.zodiac),
+    interests: scoreInterests(a.interests, b.interests),
+    preferences: scorePreferences(a, b, now),
+  };
+  let total = 0;
+  let weights = 0;
+  for (const part of Object.keys(breakdown) as (keyof typeof breakdown)[]) {
+    const value = breakdown[part];
+    if (value === null) continue;
+    total += value * COMPATIBILITY_WEIGHTS[part];
+    weights += COMPATIBILITY_WEIGHTS[part];
+  }
+  return {
+    score: weights > 0 ? Math.round(total / weights) : 0,
+    breakdown,
+  };
+}
+
+function scoreHoroscope(a?: string, b?: string): number | null {
+  const traitsA = a ? HOROSCOPE_TRAITS[a] : undefined;
+  const traitsB = b ? HOROSCOPE_TRAITS[b] : undefined;
+  if (!traitsA || !traitsB) return null;
+  return Math.round(
+    ELEMENT_COMPATIBILITY[traitsA.element][traitsB.element] *
+      HOROSCOPE_ELEMENT_WEIGHT +
+      MODALITY_COMPATIBILITY[traitsA.modality][traitsB.modality] *
+        (1 - HOROSCOPE_ELEMENT_WEIGHT),
+  );
+}
+
+function scoreZodiac(a?: string, b?: string): number | null {
+  const triangleA = ZODIAC_TRIANGLES.find((t) => a && t.includes(a));
+  const triangleB = ZODIAC_TRIANGLES.find((t) => b && t.includes(b));
+  if (!triangleA || !triangleB) return null;
+  if (a === b) return ZODIAC_COMPATIBILITY.same;
+  if (triangleA === triangleB) return ZODIAC_COMPATIBILITY.triangle;
+  const isClash = ZODIAC_CLASHES.some(
+    ([first, second]) =>
+      (first === a && second === b) || (first === b && second === a),
+  );
+  return isClash ? ZODIAC_COMPATIBILITY.clash : ZODIAC_COMPATIBILITY.neutral;
+}
+
+/**
+ * Shared interests over all interests of the two, ignoring case.
+ */
+function scoreInterests(a?: string[], b?: string[]): number | null {
+  if (!a?.length || !b?.length) return null;
+  const setA = new Set(a.map((interest) => interest.toLowerCase()));
+  const setB = new Set(b.map((interest) => interest.toLowerCase()));
+  const shared = [...setA].filter((interest) => setB.has(interest)).length;
+  return Math.round((shared / new Set([...setA, ...setB]).size) * 100);
+}
+
+/**
+ * The share of both profiles' preferences the other one meets.
+ */
+function scorePreferences(
+  a: ScoredProfile,
+  b: ScoredProfile,
+  now: Date,
+): number | null {
+  const checks = [
+    ...checkPreferences(a.preferences, b, now),
+    ...checkPreferences(b.preferences, a, now),
+  ];
+  if (checks.length === 0) return null;
+  const met = checks.reduce<number>(
+    (sum, check) => sum + (check === null ? UNKNOWN_PREFERENCE_SCORE : +check),
+    0,
+  );
+  return Math.round((met / checks.length) * 100);
+}
+
+function checkPreferences(
+  preferences: ProfilePreferences | undefined,
+  other: ScoredProfile,
+  now: Date,
+): (boolean | null)[] {
+  if (!preferences) return [];
+  const checks: (boolean | null)[] = [];
+  if (preferences.gender !== undefined && preferences.gender !== null) {
+    checks.push(
+      other.gender === undefined || other.gender === null
+        ? null
+        : other.gender === preferences.gender,
+    );
+  }
+  const age = other.birthday ? ageOn(other.birthday, now) : undefined;
+  if (preferences.minAge !== undefined || preferences.maxAge !== undefined) {
+    checks.push(inRange(age, preferences.minAge, preferences.maxAge));
+  }
+  if (
+    preferences.minHeight !== undefined ||
+    preferences.maxHeight !== undefined
+  ) {
+    checks.push(
+      inRange(
+        other.heightInCm ?? undefined,
+        preferences.minHeight,
+        preferences.maxHeight,
+      ),
+    );
+  }
+  return checks;
+}
+
+function inRange(value?: number, min?: number, max?: number): boolean | null {
+  if (value === undefined || Number.isNaN(value)) return null;
+  return (
+    (min === undefined || value >= min) && (max === undefined || value <= max)
+  );
+}
+
+function ageOn(birthday: string, now: Date): number {
+  const [year, month, day] = birthday.split('-').map(Number);
+  const hadBirthday =
+    now.getUTCMonth() + 1 > month ||
+    (now.getUTCMonth() + 1 === month && now.getUTCDate() >= day);
+  return now.getUTCFullYear() - year - (hadBirthday ? 0 : 1);
+}
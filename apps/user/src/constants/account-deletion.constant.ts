@@ -0,0 +1,8 @@
+export const DEFAULT_ACCOUNT_DELETION_GRACE_MS = 14 * 24 * 60 * 60 * 1000;
+export const PURGE_CHECK_INTERVAL_MS = 60 * 1000;
+export const PURGE_TIMEOUT_MS = 10 * 1000;
+export const PURGE_LEASE_MS = 5 * 60 * 1000;
+export const PURGE_BACKOFF_BASE_MS = 60 * 1000;
+export const PURGE_MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+export const PURGE_RECORD_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const PURGE_BATCH_SIZE = 20;
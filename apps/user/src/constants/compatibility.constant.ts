@@ -0,0 +1,12 @@
+export const COMPATIBILITY_WEIGHTS = {
+  horoscope: 0.2,
+  zodiac: 0.2,
+  interests: 0.3,
+  preferences: 0.3,
+};
+
+// how much the element weighs against the modality in the horoscope part
+export const HOROSCOPE_ELEMENT_WEIGHT = 0.7;
+
+// a preference the other profile doesn't show enough to check
+export const UNKNOWN_PREFERENCE_SCORE = 0.5;
@@ -0,0 +1,9 @@
+export const DEFAULT_DATA_EXPORT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+export const DATA_EXPORT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+export const DATA_EXPORT_LINK_TTL_MS = 60 * 60 * 1000;
+export const DATA_EXPORT_CHECK_INTERVAL_MS = 30 * 1000;
+export const DATA_EXPORT_COLLECT_TIMEOUT_MS = 30 * 1000;
+export const DATA_EXPORT_BUILD_TIMEOUT_MS = 10 * 60 * 1000;
+export const DATA_EXPORT_LEASE_MS = 15 * 60 * 1000;
+export const DATA_EXPORT_RETRY_MS = 5 * 60 * 1000;
+export const DATA_EXPORT_MAX_ATTEMPTS = 3;
@@ -0,0 +1,152 @@
+import {
+  INTEREST_CATEGORY,
+  InterestCategory,
+} from '@app/shared/enums/interest.enum';
+
+export interface CatalogInterest {
+  name: string;
+  category: InterestCategory;
+  synonyms?: string[];
+}
+
+/**
+ * @description
+ * The interests the catalog starts with. They are added on startup when
+ * missing; moderators take it from there.
+ */
+export const INTEREST_CATALOG: CatalogInterest[] = [
+  {
+    name: 'Music',
+    category: INTEREST_CATEGORY.Music,
+    synonyms: ['Musik', 'Musica', 'Songs'],
+  },
+  { name: 'Concerts', category: INTEREST_CATEGORY.Music, synonyms: ['Gigs'] },
+  { name: 'Singing', category: INTEREST_CATEGORY.Music, synonyms: ['Karaoke'] },
+  { name: 'Guitar', category: INTEREST_CATEGORY.Music },
+  { name: 'Piano', category: INTEREST_CATEGORY.Music },
+  { name: 'Hip hop', category: INTEREST_CATEGORY.Music, synonyms: ['Rap'] },
+  { name: 'K-pop', category: INTEREST_CATEGORY.Music, synonyms: ['Kpop'] },
+  {
+    name: 'Football',
+    category: INTEREST_CATEGORY.Sports,
+    synonyms: ['Soccer', 'Sepak bola'],
+  },
+  { name: 'Basketball', category: INTEREST_CATEGORY.Sports },
+  { name: 'Badminton', category: INTEREST_CATEGORY.Sports },
+  { name: 'Tennis', category: INTEREST_CATEGORY.Sports },
+  { name: 'Swimming', category: INTEREST_CATEGORY.Sports },
+  {
+    name: 'Running',
+    category: INTEREST_CATEGORY.Sports,
+    synonyms: ['Jogging', 'Marathon'],
+  },
+  { name: 'Cycling', category: INTEREST_CATEGORY.Sports, synonyms: ['Biking'] },
+  {
+    name: 'Fitness',
+    category: INTEREST_CATEGORY.Sports,
+    synonyms: ['Gym', 'Workout', 'Weightlifting'],
+  },
+  { name: 'Yoga', category: INTEREST_CATEGORY.Sports },
+  {
+    name: 'Martial arts',
+    category: INTEREST_CATEGORY.Sports,
+    synonyms: ['Karate', 'Taekwondo', 'Silat'],
+  },
+  {
+    name: 'Photography',
+    category: INTEREST_CATEGORY.Arts,
+    synonyms: ['Photo', 'Photos'],
+  },
+  {
+    name: 'Drawing',
+    category: INTEREST_CATEGORY.Arts,
+    synonyms: ['Sketching', 'Painting'],
+  },
+  { name: 'Dancing', category: INTEREST_CATEGORY.Arts, synonyms: ['Dance'] },
+  { name: 'Writing', category: INTEREST_CATEGORY.Arts, synonyms: ['Poetry'] },
+  { name: 'Fashion', category: INTEREST_CATEGORY.Arts, synonyms: ['Style'] },
+  {
+    name: 'Cooking',
+    category: INTEREST_CATEGORY.Food,
+    synonyms: ['Baking', 'Masak'],
+  },
+  {
+    name: 'Coffee',
+    category: INTEREST_CATEGORY.Food,
+    synonyms: ['Kopi', 'Cafe hopping'],
+  },
+  { name: 'Foodie', category: INTEREST_CATEGORY.Food, synonyms: ['Food'] },
+  { name: 'Wine', category: INTEREST_CATEGORY.Food },
+  { name: 'Vegan', category: INTEREST_CATEGORY.Food, synonyms: ['Vegetarian'] },
+  {
+    name: 'Travel',
+    category: INTEREST_CATEGORY.Travel,
+    synonyms: ['Traveling', 'Travelling', 'Jalan-jalan'],
+  },
+  {
+    name: 'Backpacking',
+    category: INTEREST_CATEGORY.Travel,
+    synonyms: ['Road trips'],
+  },
+  { name: 'Beach', category: INTEREST_CATEGORY.Travel, synonyms: ['Pantai'] },
+  {
+    name: 'Hiking',
+    category: INTEREST_CATEGORY.Outdoors,
+    synonyms: ['Trekking', 'Mountains', 'Naik gunung'],
+  },
+  { name: 'Camping', category: INTEREST_CATEGORY.Outdoors },
+  {
+    name: 'Diving',
+    category: INTEREST_CATEGORY.Outdoors,
+    synonyms: ['Scuba diving', 'Snorkeling'],
+  },
+  { name: 'Surfing', category: INTEREST_CATEGORY.Outdoors },
+  { name: 'Gardening', category: INTEREST_CATEGORY.Outdoors },
+  {
+    name: 'Pets',
+    category: INTEREST_CATEGORY.Lifestyle,
+    synonyms: ['Dogs', 'Cats', 'Animals'],
+  },
+  {
+    name: 'Video games',
+    category: INTEREST_CATEGORY.Games,
+    synonyms: ['Gaming', 'Games', 'Esports'],
+  },
+  { name: 'Board games', category: INTEREST_CATEGORY.Games },
+  { name: 'Chess', category: INTEREST_CATEGORY.Games },
+  {
+    name: 'Programming',
+    category: INTEREST_CATEGORY.Tech,
+    synonyms: ['Coding', 'Software'],
+  },
+  { name: 'Gadgets', category: INTEREST_CATEGORY.Tech },
+  { name: 'Startups', category: INTEREST_CATEGORY.Tech },
+  {
+    name: 'Reading',
+    category: INTEREST_CATEGORY.Books,
+    synonyms: ['Books', 'Novels'],
+  },
+  { name: 'Comics', category: INTEREST_CATEGORY.Books, synonyms: ['Manga'] },
+  {
+    name: 'Movies',
+    category: INTEREST_CATEGORY.Film,
+    synonyms: ['Film', 'Films', 'Cinema'],
+  },
+  { name: 'Anime', category: INTEREST_CATEGORY.Film },
+  {
+    name: 'TV series',
+    category: INTEREST_CATEGORY.Film,
+    synonyms: ['Series', 'Drakor', 'K-drama'],
+  },
+  {
+    name: 'Volunteering',
+    category: INTEREST_CATEGORY.Lifestyle,
+    synonyms: ['Charity'],
+  },
+  {
+    name: 'Meditation',
+    category: INTEREST_CATEGORY.Lifestyle,
+    synonyms: ['Mindfulness'],
+  },
+  { name: 'Astrology', category: INTEREST_CATEGORY.Lifestyle },
+];
@@ -0,0 +1,4 @@
+export const DEFAULT_INTEREST_SUGGESTIONS = 10;
+export const MAX_INTEREST_SUGGESTIONS = 50;
+export const MAX_PROFILE_INTERESTS = 20;
+export const INTEREST_COUNT_INTERVAL_MS = 60 * 60 * 1000;
@@ -0,0 +1,22 @@
+import { ONBOARDING_STEP } from '@app/shared/enums/onboarding.enum';
+import { ProfileField } from '@app/shared/interfaces/onboarding.interface';
+
+// how much each field adds to the completeness score, 100 in total
+export const PROFILE_FIELD_WEIGHTS: Record<ProfileField, number> = {
+  name: 20,
+  birthday: 15,
+  gender: 10,
+  photos: 20,
+  interests: 15,
+  height: 10,
+  weight: 10,
+};
+
+// the fields a profile needs to get past each step; `done` is confirmed by
+// the user once everything before it is
+export const ONBOARDING_REQUIREMENTS = {
+  [ONBOARDING_STEP.BasicInfo]: ['name', 'birthday', 'gender'],
+  [ONBOARDING_STEP.Photos]: ['photos'],
+  [ONBOARDING_STEP.Interests]: ['interests'],
+  [ONBOARDING_STEP.Done]: [],
+} satisfies Record<string, ProfileField[]>;
@@ -0,0 +1,11 @@
+export const DEFAULT_PROFILE_HISTORY_PAGE_SIZE = 20;
+export const MAX_PROFILE_HISTORY_PAGE_SIZE = 100;
+
+// fields that may only change so often, e.g. the birthday, which decides
+// horoscope and zodiac; setting a field for the first time doesn't count
+export const THROTTLED_PROFILE_FIELDS: Record<
+  string,
+  { limit: number; windowMs: number }
+> = {
+  birthday: { limit: 2, windowMs: 365 * 24 * 60 * 60 * 1000 },
+};
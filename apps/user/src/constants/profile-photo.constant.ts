@@ -0,0 +1,2 @@
+export const DEFAULT_PROFILE_PHOTO_LIMIT = 6;
+export const PROFILE_PHOTO_TIMEOUT_MS = 10 * 1000;
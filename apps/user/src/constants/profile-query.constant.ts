@@ -0,0 +1,4 @@
+export const DEFAULT_PROFILE_PAGE_SIZE = 20;
+export const MAX_PROFILE_PAGE_SIZE = 100;
+// the profiles sharing the most with the viewer that compatibility ranks
+export const MAX_COMPATIBILITY_CANDIDATES = 500;
@@ -0,0 +1,4 @@
+export const DEFAULT_REPORT_PAGE_SIZE = 20;
+export const MAX_REPORT_PAGE_SIZE = 100;
+export const MAX_REPORTED_MESSAGES = 20;
+export const REPORT_TIMEOUT_MS = 10 * 1000;
@@ -0,0 +1,2 @@
+export const DEFAULT_USERNAME_CHANGE_COOLDOWN_MS = 30 * 24 * 60 * 60 * 1000;
+export const DEFAULT_USERNAME_RESERVATION_MS = 90 * 24 * 60 * 60 * 1000;
@@ -1,114 +0,0 @@
-export const zodiacEndList: string[] = [
-  '2024-02-9',
-  '2023-01-21',
-  '2022-01-31',
-  '2021-02-11',
-  '2020-01-24',
-  '2019-02-4',
-  '2018-02-15',
-  '2017-01-27',
-  '2016-02-7',
-  '2015-02-18',
-  '2014-01-30',
-  '2013-02-9',
-  '2012-01-22',
-  '2011-02-2',
-  '2010-02-13',
-  '2009-01-25',
-  '2008-02-6',
-  '2007-02-17',
-  '2006-01-28',
-  '2005-02-8',
-  '2004-01-21',
-  '2003-01-31',
-  '2002-02-11',
-  '2001-01-23',
-  '2000-02-4',
-  '1999-02-15',
-  '1998-01-27',
-  '1997-02-6',
-  '1996-02-18',
-  '1995-01-30',
-  '1994-02-9',
-  '1993-01-22',
-  '1992-02-3',
-  '1991-02-14',
-  '1990-01-26',
-  '1989-02-5',
-  '1988-02-16',
-  '1987-01-28',
-  '1986-02-8',
-  '1985-02-19',
-  '1984-02-1',
-  '1983-02-12',
-  '1982-01-24',
-  '1981-02-4',
-  '1980-02-15',
-  '1979-01-27',
-  '1978-02-6',
-  '1977-02-17',
-  '1976-01-30',
-  '1975-02-10',
-  '1974-01-22',
-  '1973-02-2',
-  '1972-01-15',
-  '1971-01-26',
-  '1970-02-5',
-  '1969-02-16',
-  '1968-01-29',
-  '1967-02-8',
-  '1966-01-20',
-  '1965-02-1',
-  '1964-02-12',
-  '1963-01-24',
-  '1962-02-4',
-  '1961-02-14',
-  '1960-01-27',
-  '1959-02-7',
-  '1958-02-17',
-  '1957-01-30',
-  '1956-02-11',
-  '1955-01-23',
-  '1954-02-2',
-  '1953-02-13',
-  '1952-01-26',
-  '1951-02-5',
-  '1950-02-16',
-  '1949-01-28',
-  '1948-02-9',
-  '1947-01-21',
-  '1946-02-1',
-  '1945-02-12',
-  '1944-01-24',
-  '1943-02-4',
-  '1942-02-14',
-  '1941-01-26',
-  '1940-02-7',
-  '1939-02-18',
-  '1938-01-30',
-  '1937-02-10',
-  '1936-01-23',
-  '1935-02-3',
-  '1934-02-13',
-  '1933-01-25',
-  '1932-02-5',
-  '1931-02-16',
-  '1930-01-29',
-  '1929-02-9',
-  '1928-01-22',
-  '1927-02-1',
-  '1926-02-12',
-  '1925-01-24',
-  '1924-02-4',
-  '1923-02-15',
-  '1922-01-27',
-  '1921-02-7',
-  '1920-02-19',
-  '1919-01-31',
-  '1918-02-10',
-  '1917-01-22',
-  '1916-02-2',
-  '1915-02-13',
-  '1914-01-25',
-  '1913-02-5',
-];
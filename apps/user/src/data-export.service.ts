@@ -0,0 +1,277 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientProxy } from '@nestjs/microservices';
+import { Model } from 'mongoose';
+import { firstValueFrom, timeout } from 'rxjs';
+import { User } from '@app/shared/interfaces/user.interface';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import {
+  BuildExport,
+  DataExportInfo,
+} from '@app/shared/interfaces/data-export.interface';
+import { UserReference } from '@app/shared/interfaces/user-reference.interface';
+import { signLink } from '@app/shared/signed-link';
+import { Profile } from './interfaces/profile.interface';
+import {
+  DataExport,
+  DataExportDocument,
+} from './interfaces/data-export.interface';
+import { Block } from './interfaces/block.interface';
+import { Report } from './interfaces/report.interface';
+import { Swipe } from './interfaces/swipe.interface';
+import { Match } from './interfaces/match.interface';
+import { ProfileChange } from './interfaces/profile-change.interface';
+import {
+  DATA_EXPORT_BUILD_TIMEOUT_MS,
+  DATA_EXPORT_CHECK_INTERVAL_MS,
+  DATA_EXPORT_COLLECT_TIMEOUT_MS,
+  DATA_EXPORT_LEASE_MS,
+  DATA_EXPORT_LINK_TTL_MS,
+  DATA_EXPORT_MAX_ATTEMPTS,
+  DATA_EXPORT_RETENTION_MS,
+  DATA_EXPORT_RETRY_MS,
+  DEFAULT_DATA_EXPORT_COOLDOWN_MS,
+} from './constants/data-export.constant';
+
+/**
+ * @description
+ * Exports run in the background: the user service collects the user's
+ * documents and chat rooms, and the GridFS service packs them with their
+ * files into an archive. One export per `DATA_EXPORT_COOLDOWN_MS`.
+ */
+@Injectable()
+export class DataExportService implements OnModuleInit, OnModuleDestroy {
+  private readonly cooldownMs =
+    Number(process.env.DATA_EXPORT_COOLDOWN_MS) ||
+    DEFAULT_DATA_EXPORT_COOLDOWN_MS;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectModel('User') private readonly userModel: Model<User>,
+    @InjectModel('Profile') private readonly profileModel: Model<Profile>,
+    @InjectModel('DataExport')
+    private readonly dataExportModel: Model<DataExport>,
+    @InjectModel('Block') private readonly blockModel: Model<Block>,
+    @InjectModel('Report') private readonly reportModel: Model<Report>,
+    @InjectModel('Swipe') private readonly swipeModel: Model<Swipe>,
+    @InjectModel('Match') private readonly matchModel: Model<Match>,
+    @InjectModel('ProfileChange')
+    private readonly profileChangeModel: Model<ProfileChange>,
+    @Inject('CHAT_SERVICE') private readonly chatService: ClientProxy,
+    @Inject('GRIDFS_SERVICE') private readonly gridfsService: ClientProxy,
+  ) {}
+
+  onModuleInit(): void {
+    this.timer = setInterval(
+      () => this.processDue(),
+      DATA_EXPORT_CHECK_INTERVAL_MS,
+    );
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Queue an export. While one is still in progress it is returned instead
+   * of starting another.
+   */
+  async request(userId: string): Promise<DataExportInfo | ErrorData> {
+    const latest = await this.findLatest(userId);
+    if (latest?.status === 'pending' || latest?.status === 'running') {
+      return this.toInfo(latest);
+    }
+    if (latest && latest.status !== 'failed') {
+      const retryAfterMs =
+        latest.requestedAt.getTime() + this.cooldownMs - Date.now();
+      if (retryAfterMs > 0) {
+        return {
+          statusCode: 1010,
+          error: 'A data export was requested recently',
+          retryAfter: Math.ceil(retryAfterMs / 1000),
+        };
+      }
+    }
+    const now = new Date();
+    const dataExport = await this.dataExportModel.create({
+      userId,
+      status: 'pending',
+      requestedAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+      expiresAt: new Date(now.getTime() + DATA_EXPORT_RETENTION_MS),
+    });
+    setImmediate(() => this.processDue());
+    return this.toInfo(dataExport);
+  }
+
+  async getLatest(userId: string): Promise<DataExportInfo | ErrorData> {
+    const latest = await this.findLatest(userId);
+    if (!latest) {
+      return {
+        statusCode: 1011,
+        error: 'No data export found',
+      };
+    }
+    return this.toInfo(latest);
+  }
+
+  async processDue(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      let dataExport = await this.claim();
+      while (dataExport) {
+        await this.run(dataExport);
+        dataExport = await this.claim();
+      }
+    } catch (error) {
+      console.log(error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async findLatest(userId: string): Promise<DataExportDocument | null> {
+    return this.dataExportModel
+      .findOne({ userId })
+      .sort({ requestedAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Take the next due export. Running exports whose lease ran out were left
+   * behind by a stopped instance and are picked up again.
+   */
+  private async claim(): Promise<DataExportDocument | null> {
+    const now = Date.now();
+    return this.dataExportModel
+      .findOneAndUpdate(
+        {
+          status: { $in: ['pending', 'running'] },
+          nextAttemptAt: { $lte: new Date(now) },
+        },
+        {
+          status: 'running',
+          startedAt: new Date(now),
+          nextAttemptAt: new Date(now + DATA_EXPORT_LEASE_MS),
+          $inc: { attempts: 1 },
+        },
+        { new: true },
+      )
+      .exec();
+  }
+
+  private async run(dataExport: DataExportDocument): Promise<void> {
+    try {
+      const size = await this.build(dataExport);
+      await this.dataExportModel.updateOne(
+        { _id: dataExport._id },
+        {
+          status: 'ready',
+          completedAt: new Date(),
+          size,
+          $unset: { lastError: 1 },
+        },
+      );
+    } catch (error) {
+      console.log(error);
+      const isFinal = dataExport.attempts >= DATA_EXPORT_MAX_ATTEMPTS;
+      await this.dataExportModel.updateOne(
+        { _id: dataExport._id },
+        {
+          status: isFinal ? 'failed' : 'pending',
+          lastError: (error as Error).message,
+          nextAttemptAt: new Date(Date.now() + DATA_EXPORT_RETRY_MS),
+          ...(isFinal ? { completedAt: new Date() } : {}),
+        },
+      );
+    }
+  }
+
+  private async build(dataExport: DataExportDocument): Promise<number> {
+    const [user, profile, blocks, reports, swipes, matches, profileHistory] =
+      await Promise.all([
+        this.userModel
+          .findById(dataExport.userId)
+          .select('-password -__v')
+          .lean()
+          .exec(),
+        this.profileModel.findOne({ userId: dataExport.userId }).lean().exec(),
+        this.blockModel.find({ userId: dataExport.userId }).lean().exec(),
+        this.reportModel.find({ reporterId: dataExport.userId }).lean().exec(),
+        this.swipeModel.find({ userId: dataExport.userId }).lean().exec(),
+        this.matchModel.find({ userIds: dataExport.userId }).lean().exec(),
+        this.profileChangeModel
+          .find({ userId: dataExport.userId })
+          .sort({ _id: 1 })
+          .lean()
+          .exec(),
+      ]);
+    if (!user) throw new Error('User not found');
+    const userReference: UserReference = {
+      userId: dataExport.userId,
+      profileId: profile?._id.toString(),
+    };
+    const rooms: unknown[] | null = await firstValueFrom(
+      this.chatService
+        .send('export-user', userReference)
+        .pipe(timeout(DATA_EXPORT_COLLECT_TIMEOUT_MS)),
+    );
+    if (rooms === null) throw new Error('Chat export failed');
+    const size: number | null = await firstValueFrom(
+      this.gridfsService
+        .send('build-export', {
+          exportId: dataExport._id.toString(),
+          userId: dataExport.userId,
+          expiresAt: dataExport.expiresAt,
+          documents: {
+            'user.json': user,
+            'profile.json': profile,
+            'chat/rooms.json': rooms,
+            'blocks.json': blocks,
+            'reports.json': reports,
+            'swipes.json': swipes,
+            'matches.json': matches,
+            'profile-history.json': profileHistory,
+          },
+        } satisfies BuildExport)
+        .pipe(timeout(DATA_EXPORT_BUILD_TIMEOUT_MS)),
+    );
+    if (size === null) throw new Error('Building the archive failed');
+    return size;
+  }
+
+  private toInfo(dataExport: DataExportDocument): DataExportInfo {
+    const id = dataExport._id.toString();
+    const info: DataExportInfo = {
+      id,
+      status: dataExport.status,
+      requestedAt: dataExport.requestedAt,
+      completedAt: dataExport.completedAt,
+      expiresAt: dataExport.expiresAt,
+      size: dataExport.size,
+    };
+    if (dataExport.status !== 'ready') return info;
+    const expires = Math.min(
+      Date.now() + DATA_EXPORT_LINK_TTL_MS,
+      dataExport.expiresAt.getTime(),
+    );
+    const signature = signLink(
+      id,
+      expires,
+      process.env.DATA_EXPORT_LINK_SECRET as string,
+    );
+    return {
+      ...info,
+      downloadUrl: `${process.env.DATA_EXPORT_URL}/${id}?expires=${expires}&signature=${signature}`,
+    };
+  }
+}
@@ -32,3 +32,61 @@ export const HOROSCOPE_START_DATES: { [key: string]: string } = {
 type ObjectValues<T> = T[keyof T];
 
 export type Horoscope = ObjectValues<typeof HOROSCOPE>;
+
+export const ELEMENT = {
+  Fire: 'Fire',
+  Earth: 'Earth',
+  Air: 'Air',
+  Water: 'Water',
+} as const;
+
+export type Element = ObjectValues<typeof ELEMENT>;
+
+export const MODALITY = {
+  Cardinal: 'Cardinal',
+  Fixed: 'Fixed',
+  Mutable: 'Mutable',
+} as const;
+
+export type Modality = ObjectValues<typeof MODALITY>;
+
+export const HOROSCOPE_TRAITS: {
+  [key: string]: { element: Element; modality: Modality };
+} = {
+  [HOROSCOPE.Aries]: { element: ELEMENT.Fire, modality: MODALITY.Cardinal },
+  [HOROSCOPE.Taurus]: { element: ELEMENT.Earth, modality: MODALITY.Fixed },
+  [HOROSCOPE.Gemini]: { element: ELEMENT.Air, modality: MODALITY.Mutable },
+  [HOROSCOPE.Cancer]: { element: ELEMENT.Water, modality: MODALITY.Cardinal },
+  [HOROSCOPE.Leo]: { element: ELEMENT.Fire, modality: MODALITY.Fixed },
+  [HOROSCOPE.Virgo]: { element: ELEMENT.Earth, modality: MODALITY.Mutable },
+  [HOROSCOPE.Libra]: { element: ELEMENT.Air, modality: MODALITY.Cardinal },
+  [HOROSCOPE.Scorpio]: { element: ELEMENT.Water, modality: MODALITY.Fixed },
+  [HOROSCOPE.Sagittarius]: {
+    element: ELEMENT.Fire,
+    modality: MODALITY.Mutable,
+  },
+  [HOROSCOPE.Capricorn]: {
+    element: ELEMENT.Earth,
+    modality: MODALITY.Cardinal,
+  },
+  [HOROSCOPE.Aquarius]: { element: ELEMENT.Air, modality: MODALITY.Fixed },
+  [HOROSCOPE.Pisces]: { element: ELEMENT.Water, modality: MODALITY.Mutable },
+};
+
+// 0 to 100. Same elements get along, fire feeds on air and earth on water.
+export const ELEMENT_COMPATIBILITY: Record<Element, Record<Element, number>> = {
+  [ELEMENT.Fire]: { Fire: 100, Air: 85, Earth: 40, Water: 30 },
+  [ELEMENT.Earth]: { Earth: 100, Water: 85, Fire: 40, Air: 30 },
+  [ELEMENT.Air]: { Air: 100, Fire: 85, Water: 40, Earth: 30 },
+  [ELEMENT.Water]: { Water: 100, Earth: 85, Air: 40, Fire: 30 },
+};
+
+// 0 to 100. Signs sharing a modality sit square or opposite each other.
+export const MODALITY_COMPATIBILITY: Record<
+  Modality,
+  Record<Modality, number>
+> = {
+  [MODALITY.Cardinal]: { Cardinal: 40, Fixed: 75, Mutable: 75 },
+  [MODALITY.Fixed]: { Cardinal: 75, Fixed: 40, Mutable: 75 },
+  [MODALITY.Mutable]: { Cardinal: 75, Fixed: 75, Mutable: 40 },
+};
@@ -13,8 +13,8 @@ export const ZODIAC: { [key: string]: string } = {
   Dragon: 'Dragon',
 };
 
+// in the order of the cycle, starting with the rat
 export const zodiacList: string[] = [
-  ZODIAC.Boar,
   ZODIAC.Rat,
   ZODIAC.Ox,
   ZODIAC.Tiger,
@@ -26,8 +26,35 @@ export const zodiacList: string[] = [
   ZODIAC.Monkey,
   ZODIAC.Rooster,
   ZODIAC.Dog,
+  ZODIAC.Pig,
 ];
 
 type ObjectValues<T> = T[keyof T];
 
 export type Zodiac = ObjectValues<typeof ZODIAC>;
+
+// the four triangles of affinity, signs four years apart
+export const ZODIAC_TRIANGLES: Zodiac[][] = [
+  [ZODIAC.Rat, ZODIAC.Dragon, ZODIAC.Monkey],
+  [ZODIAC.Ox, ZODIAC.Snake, ZODIAC.Rooster],
+  [ZODIAC.Tiger, ZODIAC.Horse, ZODIAC.Dog],
+  [ZODIAC.Rabbit, ZODIAC.Goat, ZODIAC.Pig],
+];
+
+// the six clashing pairs, signs six years apart
+export const ZODIAC_CLASHES: [Zodiac, Zodiac][] = [
+  [ZODIAC.Rat, ZODIAC.Horse],
+  [ZODIAC.Ox, ZODIAC.Goat],
+  [ZODIAC.Tiger, ZODIAC.Monkey],
+  [ZODIAC.Rabbit, ZODIAC.Rooster],
+  [ZODIAC.Dragon, ZODIAC.Dog],
+  [ZODIAC.Snake, ZODIAC.Pig],
+];
+
+// 0 to 100
+export const ZODIAC_COMPATIBILITY = {
+  triangle: 100,
+  same: 70,
+  neutral: 50,
+  clash: 0,
+};
@@ -0,0 +1,341 @@
+import {
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, Model } from 'mongoose';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import {
+  INTEREST_CATEGORY,
+  INTEREST_STATUS,
+} from '@app/shared/enums/interest.enum';
+import {
+  InterestInfo,
+  InterestQuery,
+  InterestResolution,
+  PendingInterest,
+  ReviewInterest,
+} from '@app/shared/interfaces/interest.interface';
+import { Profile } from './interfaces/profile.interface';
+import { Interest, InterestDocument } from './interfaces/interest.interface';
+import { escapeRegExp, toInterestName, toInterestSlug } from './interests';
+import { INTEREST_CATALOG } from './constants/interest-catalog.constant';
+import {
+  DEFAULT_INTEREST_SUGGESTIONS,
+  INTEREST_COUNT_INTERVAL_MS,
+  MAX_INTEREST_SUGGESTIONS,
+  MAX_PROFILE_INTERESTS,
+} from './constants/interest.constant';
+
+/**
+ * @description
+ * The interests catalog. Profiles only hold slugs of approved interests;
+ * anything else users enter is submitted for moderation and added to their
+ * profile once approved. `usageCount`, the number of profiles having an
+ * interest, is recounted every `INTEREST_COUNT_INTERVAL_MS`.
+ */
+@Injectable()
+export class InterestService
+  implements OnModuleInit, OnModuleDestroy, OnApplicationBootstrap
+{
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectModel('Profile') private readonly profileModel: Model<Profile>,
+    @InjectModel('Interest') private readonly interestModel: Model<Interest>,
+  ) {}
+
+  onModuleInit(): void {
+    this.timer = setInterval(
+      () => this.recount().catch((error) => console.log(error)),
+      INTEREST_COUNT_INTERVAL_MS,
+    );
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      await this.seed();
+      await this.migrateProfiles();
+      await this.recount();
+    } catch (error) {
+      console.log(error);
+    }
+  }
+
+  /**
+   * Approved interests starting with `q` in their name or a synonym, most
+   * popular first.
+   */
+  async suggest(query: InterestQuery): Promise<InterestInfo[]> {
+    const prefix = query.q ? toInterestSlug(query.q) : '';
+    const filter: FilterQuery<Interest> = {
+      status: INTEREST_STATUS.Approved,
+      ...(prefix ? { terms: new RegExp(`^${escapeRegExp(prefix)}`) } : {}),
+      ...(query.category ? { category: query.category } : {}),
+    };
+    const interests = await this.interestModel
+      .find(filter)
+      .sort({ usageCount: -1, slug: 1 })
+      .limit(
+        Math.min(
+          query.limit ?? DEFAULT_INTEREST_SUGGESTIONS,
+          MAX_INTEREST_SUGGESTIONS,
+        ),
+      )
+      .exec();
+    return interests.map((interest) => this.toInfo(interest));
+  }
+
+  /**
+   * Sort out what a user entered. Unknown interests are submitted for
+   * moderation in their name.
+   */
+  async resolve(userId: string, names: string[]): Promise<InterestResolution> {
+    const resolution: InterestResolution = {
+      interests: [],
+      pending: [],
+      rejected: [],
+    };
+    const entered = new Map<string, string>();
+    for (const name of names) {
+      const slug = toInterestSlug(name);
+      if (slug && !entered.has(slug)) entered.set(slug, name);
+    }
+    const known = await this.interestModel
+      .find({ terms: { $in: [...entered.keys()] } })
+      .exec();
+    for (const [slug, name] of entered) {
+      const interest = known.find((interest) => interest.terms.includes(slug));
+      if (interest?.status === INTEREST_STATUS.Approved) {
+        if (!resolution.interests.includes(interest.slug)) {
+          resolution.interests.push(interest.slug);
+        }
+      } else if (interest?.status === INTEREST_STATUS.Rejected) {
+        resolution.rejected.push(interest.name);
+      } else {
+        await this.submit(userId, slug, name);
+        resolution.pending.push(interest?.name ?? toInterestName(name));
+      }
+    }
+    resolution.interests = resolution.interests.slice(0, MAX_PROFILE_INTERESTS);
+    return resolution;
+  }
+
+  /**
+   * The slugs the terms resolve to, for filtering profiles. Unknown terms
+   * are kept as slugs, matching nothing.
+   */
+  async findSlugs(terms: string[]): Promise<string[]> {
+    const slugs = terms.map((term) => toInterestSlug(term));
+    const known = await this.interestModel
+      .find({ terms: { $in: slugs }, status: INTEREST_STATUS.Approved })
+      .exec();
+    return [
+      ...new Set(
+        slugs.map(
+          (slug) =>
+            known.find((interest) => interest.terms.includes(slug))?.slug ??
+            slug,
+        ),
+      ),
+    ];
+  }
+
+  async listPending(): Promise<PendingInterest[]> {
+    const interests = await this.interestModel
+      .find({ status: INTEREST_STATUS.Pending })
+      .sort({ createdAt: 1 })
+      .limit(MAX_INTEREST_SUGGESTIONS)
+      .exec();
+    return interests.map((interest) => ({
+      slug: interest.slug,
+      name: interest.name,
+      submittedCount: interest.submittedBy.length,
+      submittedAt: interest.createdAt,
+    }));
+  }
+
+  /**
+   * Approve, reject or merge a submitted interest. Whoever submitted it gets
+   * the approved interest added to their profile.
+   */
+  async review(
+    slug: string,
+    review: ReviewInterest,
+  ): Promise<InterestInfo | ErrorData> {
+    const interest = await this.interestModel
+      .findOne({ slug, status: { $ne: INTEREST_STATUS.Approved } })
+      .exec();
+    if (!interest) {
+      return {
+        statusCode: 1024,
+        error: 'No submitted interest found',
+      };
+    }
+    if (review.status === INTEREST_STATUS.Rejected) {
+      const rejected = await this.interestModel
+        .findOneAndUpdate(
+          { _id: interest._id },
+          { status: INTEREST_STATUS.Rejected, submittedBy: [] },
+          { new: true },
+        )
+        .exec();
+      return this.toInfo(rejected ?? interest);
+    }
+    let approved: InterestDocument | null;
+    if (review.synonymOf) {
+      approved = await this.interestModel
+        .findOneAndUpdate(
+          { slug: review.synonymOf, status: INTEREST_STATUS.Approved },
+          {
+            $addToSet: {
+              terms: { $each: interest.terms },
+              synonyms: interest.name,
+            },
+          },
+          { new: true },
+        )
+        .exec();
+      if (!approved) {
+        return {
+          statusCode: 1025,
+          error: 'No approved interest to merge into',
+        };
+      }
+      await this.interestModel.deleteOne({ _id: interest._id });
+    } else {
+      approved = await this.interestModel
+        .findOneAndUpdate(
+          { _id: interest._id },
+          {
+            status: INTEREST_STATUS.Approved,
+            name: review.name ?? interest.name,
+            category:
+              review.category ?? interest.category ?? INTEREST_CATEGORY.Other,
+            submittedBy: [],
+          },
+          { new: true },
+        )
+        .exec();
+      if (!approved) throw new Error(`Interest ${slug} vanished`);
+    }
+    await this.profileModel.updateMany(
+      {
+        userId: { $in: interest.submittedBy },
+        [`interests.${MAX_PROFILE_INTERESTS - 1}`]: { $exists: false },
+      },
+      { $addToSet: { interests: approved.slug } },
+    );
+    return this.toInfo(approved);
+  }
+
+  private async submit(userId: string, slug: string, name: string) {
+    try {
+      await this.interestModel.updateOne(
+        { slug },
+        {
+          $setOnInsert: {
+            slug,
+            name: toInterestName(name),
+            terms: [slug],
+            synonyms: [],
+            status: INTEREST_STATUS.Pending,
+          },
+          $addToSet: { submittedBy: userId },
+        },
+        { upsert: true },
+      );
+    } catch (error) {
+      // someone submitted the same interest at the same time
+      if ((error as { code?: number }).code !== 11000) throw error;
+      await this.interestModel.updateOne(
+        { slug },
+        { $addToSet: { submittedBy: userId } },
+      );
+    }
+  }
+
+  /**
+   * Count how many profiles have each interest.
+   */
+  async recount(): Promise<void> {
+    const counts: { _id: string; count: number }[] =
+      await this.profileModel.aggregate([
+        { $unwind: '$interests' },
+        { $group: { _id: '$interests', count: { $sum: 1 } } },
+      ]);
+    await this.interestModel.updateMany(
+      { slug: { $nin: counts.map(({ _id }) => _id) }, usageCount: { $ne: 0 } },
+      { usageCount: 0 },
+    );
+    if (counts.length === 0) return;
+    await this.interestModel.bulkWrite(
+      counts.map(({ _id, count }) => ({
+        updateOne: { filter: { slug: _id }, update: { usageCount: count } },
+      })),
+    );
+  }
+
+  /**
+   * Add the catalog interests that are missing. Interests already there,
+   * possibly changed by moderators, only gain new synonyms.
+   */
+  private async seed(): Promise<void> {
+    for (const { name, category, synonyms = [] } of INTEREST_CATALOG) {
+      const slug = toInterestSlug(name);
+      const terms = [
+        slug,
+        ...synonyms.map((synonym) => toInterestSlug(synonym)),
+      ];
+      await this.interestModel.updateOne(
+        { slug },
+        {
+          $setOnInsert: { name, category, status: INTEREST_STATUS.Approved },
+          $addToSet: { terms: { $each: terms }, synonyms: { $each: synonyms } },
+        },
+        { upsert: true },
+      );
+    }
+  }
+
+  /**
+   * Interests entered before the catalog existed are resolved like new ones:
+   * known ones become slugs, the others are submitted for moderation.
+   */
+  private async migrateProfiles(): Promise<void> {
+    const approved = await this.interestModel
+      .find({ status: INTEREST_STATUS.Approved })
+      .distinct('slug')
+      .exec();
+    const profiles = this.profileModel
+      .find({ interests: { $elemMatch: { $nin: approved } } })
+      .cursor();
+    for await (const profile of profiles) {
+      const resolution = await this.resolve(
+        profile.userId ?? '',
+        profile.interests ?? [],
+      );
+      await this.profileModel.updateOne(
+        { _id: profile._id },
+        { interests: resolution.interests },
+      );
+    }
+  }
+
+  private toInfo(interest: Interest): InterestInfo {
+    return {
+      slug: interest.slug,
+      name: interest.name,
+      category: interest.category ?? null,
+      synonyms: interest.synonyms,
+      usageCount: interest.usageCount,
+    };
+  }
+}
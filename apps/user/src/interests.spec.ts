@@ -0,0 +1,20 @@
+import { toInterestName, toInterestSlug } from './interests';
+
+describe('toInterestSlug', () => {
+  it('should ignore case, spacing and accents', () => {
+    expect(toInterestSlug('Music ')).toBe('music');
+    expect(toInterestSlug('  Hip   Hop')).toBe('hip-hop');
+    expect(toInterestSlug('Café')).toBe('cafe');
+    expect(toInterestSlug('Rock & Roll')).toBe('rock-and-roll');
+  });
+
+  it('should resolve to nothing for punctuation only', () => {
+    expect(toInterestSlug(' !? ')).toBe('');
+  });
+});
+
+describe('toInterestName', () => {
+  it('should tidy up what users typed', () => {
+    expect(toInterestName('  board   games ')).toBe('Board games');
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * The catalog key of an interest as someone typed it: lower case, without
+ * accents, words joined by dashes. "Hip Hop ", "hip-hop" and "Híp hop" are
+ * all `hip-hop`.
+ */
+export function toInterestSlug(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * A readable name for a submitted interest: trimmed, single spaces, first
+ * letter capitalized.
+ */
+export function toInterestName(text: string): string {
+  const name = text.trim().replace(/\s+/g, ' ');
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,22 @@
+import { Document } from 'mongoose';
+
+export type PurgeTarget = 'auth' | 'chat' | 'gridfs';
+
+/**
+ * @description
+ * Progress of the hard deletion of one account. `pending` lists the services
+ * that haven't confirmed the purge yet; the user's own documents are deleted
+ * last, once it is empty. Kept for a while after completion as a record.
+ */
+export interface AccountPurge {
+  userId: string;
+  profileId?: string;
+  pending: PurgeTarget[];
+  attempts: number;
+  nextAttemptAt: Date;
+  lastError?: string;
+  completedAt?: Date;
+  expiresAt?: Date;
+}
+
+export interface AccountPurgeDocument extends Document, AccountPurge {}
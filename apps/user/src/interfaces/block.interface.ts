@@ -0,0 +1,16 @@
+import { Document } from 'mongoose';
+
+/**
+ * @description
+ * `userId` blocked `blockedUserId`. The profile ids of both are kept along
+ * because the chat service only knows users by those.
+ */
+export interface Block {
+  userId: string;
+  profileId: string;
+  blockedUserId: string;
+  blockedProfileId: string;
+  createdAt: Date;
+}
+
+export interface BlockDocument extends Document, Block {}
@@ -0,0 +1,22 @@
+import { Document } from 'mongoose';
+import { DataExportStatus } from '@app/shared/interfaces/data-export.interface';
+
+/**
+ * @description
+ * One export job. The record and the archive are both removed at
+ * `expiresAt`.
+ */
+export interface DataExport {
+  userId: string;
+  status: DataExportStatus;
+  requestedAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  attempts: number;
+  nextAttemptAt: Date;
+  size?: number;
+  lastError?: string;
+  expiresAt: Date;
+}
+
+export interface DataExportDocument extends Document, DataExport {}
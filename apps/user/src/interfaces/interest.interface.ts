@@ -0,0 +1,26 @@
+import { Document } from 'mongoose';
+import {
+  InterestCategory,
+  InterestStatus,
+} from '@app/shared/enums/interest.enum';
+
+/**
+ * @description
+ * An entry of the interests catalog. Profiles store the `slug`; `terms`
+ * are the slugs of the name and the synonyms, which all resolve to it.
+ * Interests users submitted stay `pending`, with who submitted them, until
+ * a moderator approves or rejects them.
+ */
+export interface Interest {
+  slug: string;
+  name: string;
+  category?: InterestCategory;
+  synonyms: string[];
+  terms: string[];
+  status: InterestStatus;
+  usageCount: number;
+  submittedBy: string[];
+  createdAt: Date;
+}
+
+export interface InterestDocument extends Document, Interest {}
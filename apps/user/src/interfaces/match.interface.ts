@@ -0,0 +1,16 @@
+import { Document } from 'mongoose';
+
+/**
+ * @description
+ * Two users who liked each other. `pairKey` is both user ids sorted and
+ * joined, so a pair can only match once; `userIds` and `profileIds` are in
+ * the same order.
+ */
+export interface Match {
+  pairKey: string;
+  userIds: string[];
+  profileIds: string[];
+  createdAt: Date;
+}
+
+export interface MatchDocument extends Document, Match {}
@@ -0,0 +1,17 @@
+import { Document } from 'mongoose';
+import { FieldChange } from '@app/shared/interfaces/profile-history.interface';
+
+/**
+ * @description
+ * An entry of the append-only profile history: what changed on a profile,
+ * who changed it and when.
+ */
+export interface ProfileChange {
+  userId: string;
+  profileId: string;
+  changedBy: string;
+  changes: FieldChange[];
+  createdAt: Date;
+}
+
+export interface ProfileChangeDocument extends Document, ProfileChange {}
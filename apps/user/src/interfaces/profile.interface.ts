@@ -1,4 +1,52 @@
 import { Document } from 'mongoose';
+import {
+  PhotoGallery,
+  ProfilePhoto,
+} from '@app/shared/interfaces/profile-photo.interface';
+import { Visibility } from '@app/shared/enums/visibility.enum';
+import { UnitSystem } from '@app/shared/enums/unit-system.enum';
+import { OnboardingStep } from '@app/shared/enums/onboarding.enum';
+import { Height, Weight } from '@app/shared/interfaces/measurement.interface';
+import { Location } from '@app/shared/interfaces/location.interface';
+import { HoroscopeZodiac } from '@app/shared/interfaces/horoscope-zodiac.interface';
+import { UpdateProfileDto } from 'apps/youapp-api/src/dto/update-profile.dto';
+
+/**
+ * @description
+ * What a user is looking for. Ranges are inclusive and every field is
+ * optional.
+ */
+export interface ProfilePreferences {
+  readonly gender?: boolean;
+  readonly minAge?: number;
+  readonly maxAge?: number;
+  readonly minHeight?: number;
+  readonly maxHeight?: number;
+}
+
+/**
+ * @description
+ * Who can see which fields, everyone when not set. `horoscope` covers the
+ * zodiac too.
+ */
+export interface ProfilePrivacy {
+  readonly birthday?: Visibility;
+  readonly weight?: Visibility;
+  readonly height?: Visibility;
+  readonly horoscope?: Visibility;
+  readonly interests?: Visibility;
+}
+
+/**
+ * @description
+ * Coarse coordinates as a GeoJSON point, `[longitude, latitude]`, with the
+ * city and country the user gave.
+ */
+export interface ProfileLocation {
+  point: { type: 'Point'; coordinates: [number, number] };
+  city?: string;
+  country?: string;
+}
 
 export interface Profile {
   pId: string;
@@ -12,6 +60,53 @@ export interface Profile {
   readonly weightInKg?: number;
   readonly interests?: string[];
   readonly username?: string;
+  readonly preferences?: ProfilePreferences;
+  readonly privacy?: ProfilePrivacy;
+  /**
+   * The units the user enters and sees heights and weights in, metric when
+   * not set. Profiles always store them metric.
+   */
+  readonly units?: UnitSystem;
+  readonly location?: ProfileLocation | null;
+  readonly photos?: ProfilePhoto[];
+  readonly primaryPhotoId?: string | null;
+  readonly onboardingStep?: OnboardingStep;
+  /**
+   * When fields in `THROTTLED_PROFILE_FIELDS` last changed, the latest
+   * ones up to their limit.
+   */
+  readonly throttledChanges?: Record<string, Date[]>;
 }
 
+/**
+ * @description
+ * A profile as clients see it, made by `serializeProfile`: without the
+ * user id, the fields hidden from the viewer and, unless it is their own,
+ * the preferences, privacy settings, units and coordinates. Photos are
+ * resolved to URLs, height and weight are also given in the viewer's units
+ * and other profiles come with their rounded distance to the viewer.
+ */
+export type PublicProfile = Omit<
+  Profile,
+  'userId' | 'photos' | 'primaryPhotoId' | 'location'
+> &
+  PhotoGallery & {
+    height?: Height;
+    weight?: Weight;
+    location?: Location;
+    distanceKm?: number;
+  };
+
+/**
+ * @description
+ * Changes to a profile as the gateway sends them to `update-profile`:
+ * measurements in metric, the location as stored and horoscope and zodiac
+ * worked out from the birthday.
+ */
+export type ProfileUpdate = Omit<
+  UpdateProfileDto,
+  'username' | 'height' | 'weight' | 'location'
+> &
+  HoroscopeZodiac & { location?: ProfileLocation | null };
+
 export interface ProfileDocument extends Document, Profile {}
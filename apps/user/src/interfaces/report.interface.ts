@@ -0,0 +1,23 @@
+import { Document } from 'mongoose';
+import { ReportReason, ReportStatus } from '@app/shared/enums/report.enum';
+import { ReportedMessage } from '@app/shared/interfaces/report.interface';
+
+/**
+ * @description
+ * A report filed against a user, waiting for or done with moderation.
+ */
+export interface Report {
+  reporterId: string;
+  reportedUserId: string;
+  reportedProfileId: string;
+  reason: ReportReason;
+  details?: string;
+  messages: ReportedMessage[];
+  status: ReportStatus;
+  note?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+}
+
+export interface ReportDocument extends Document, Report {}
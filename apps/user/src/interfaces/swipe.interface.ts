@@ -0,0 +1,17 @@
+import { Document } from 'mongoose';
+import { SwipeAction } from '@app/shared/enums/swipe.enum';
+
+/**
+ * @description
+ * The latest like or pass of `userId` on the profile of `targetUserId`.
+ */
+export interface Swipe {
+  userId: string;
+  profileId: string;
+  targetUserId: string;
+  targetProfileId: string;
+  action: SwipeAction;
+  updatedAt: Date;
+}
+
+export interface SwipeDocument extends Document, Swipe {}
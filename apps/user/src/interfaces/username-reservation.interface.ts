@@ -0,0 +1,17 @@
+import { Document } from 'mongoose';
+
+/**
+ * @description
+ * A username someone gave up. Until `expiresAt` only its previous owner can
+ * take it again, so nobody else can pass for them right after the change.
+ */
+export interface UsernameReservation {
+  usernameKey: string;
+  username: string;
+  userId: string;
+  expiresAt: Date;
+}
+
+export interface UsernameReservationDocument
+  extends Document,
+    UsernameReservation {}
@@ -0,0 +1,240 @@
+/**
+ * @description
+ * Dates of the Chinese (lunar) New Year, worked out from the positions of
+ * the sun and the moon as the Chinese calendar defines them since 1645:
+ *
+ * - a month starts on the day of a new moon in China, by the mean time of
+ *   Beijing up to 1928 and China Standard Time, UTC+8, since;
+ * - the month with the winter solstice is month 11;
+ * - when 13 months start between two months 11, the first of them without
+ *   a major solar term (the sun crossing a multiple of 30°) is a leap month
+ *   and takes no number of its own;
+ * - the New Year is the first day of month 1.
+ *
+ * New moons follow Meeus, Astronomical Algorithms, ch. 49 (seconds off) and
+ * the sun ch. 25 (about 0.01°, a quarter of an hour). That decides the day
+ * correctly from 1900 to 2100, which the spec checks against published
+ * dates; beyond, it gets less certain the farther away.
+ */
+
+import { Zodiac, zodiacList } from './enums/zodiac.enum';
+
+// offsets from UT in days, the calendar switched to UTC+8 in 1929
+const BEIJING_MEAN_TIME = (116 + 25 / 60) / 360;
+const CHINA_STANDARD_TIME = 8 / 24;
+const JD_1929 = 2425612.5;
+const J2000 = 2451545;
+const SYNODIC_MONTH = 29.530588861;
+const TROPICAL_YEAR = 365.242189;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Julian day number of 1970-01-01
+const UNIX_EPOCH_JDN = 2440588;
+
+const sin = (degrees: number) => Math.sin((degrees * Math.PI) / 180);
+const normalize = (degrees: number) => ((degrees % 360) + 360) % 360;
+
+const cache = new Map<number, string>();
+
+/**
+ * The zodiac of a `YYYY-MM-DD` birthday: the sign of the lunar year it
+ * falls in, which starts in late January or February.
+ */
+export function getZodiac(birthday: string): Zodiac {
+  const year = Number(birthday.slice(0, 4));
+  const lunarYear = birthday < getLunarNewYear(year) ? year - 1 : year;
+  // 1900 was a year of the rat
+  return zodiacList[(((lunarYear - 1900) % 12) + 12) % 12];
+}
+
+/**
+ * The first day of the lunar year starting in the Gregorian `year`, as
+ * `YYYY-MM-DD`.
+ */
+export function getLunarNewYear(year: number): string {
+  let date = cache.get(year);
+  if (date === undefined) {
+    date = toDateString(newMoonDay(findNewYearLunation(year)));
+    cache.set(year, date);
+  }
+  return date;
+}
+
+function findNewYearLunation(year: number): number {
+  const month11 = findMonth11(year - 1);
+  const nextMonth11 = findMonth11(year);
+  const isLeapYear =
+    nextMonth11 - month11 === 13 &&
+    (!hasMajorTerm(month11 + 1) || !hasMajorTerm(month11 + 2));
+  return month11 + (isLeapYear ? 3 : 2);
+}
+
+/**
+ * The lunation starting month 11 of `year`, the one with the winter
+ * solstice.
+ */
+function findMonth11(year: number): number {
+  const solstice = chinaDay(findSolarLongitude(270, year, 11, 21));
+  let k = Math.floor((solstice - newMoonDay(0)) / SYNODIC_MONTH);
+  while (newMoonDay(k + 1) <= solstice) k++;
+  while (newMoonDay(k) > solstice) k--;
+  return k;
+}
+
+/**
+ * Whether the sun crosses a multiple of 30° during the month started by
+ * lunation `k`, from midnight of its first day to midnight of the next
+ * month's.
+ */
+function hasMajorTerm(k: number): boolean {
+  const sector = (day: number) =>
+    Math.floor(
+      getSunLongitude(toTerrestrialTime(day - 0.5 - getUtcOffset(day))) / 30,
+    );
+  return sector(newMoonDay(k)) !== sector(newMoonDay(k + 1));
+}
+
+/**
+ * The Julian day number of the date in China of new moon `k`, counted
+ * from the one of 2000-01-06.
+ */
+function newMoonDay(k: number): number {
+  const jde = getNewMoon(k);
+  return chinaDay(jde - getDeltaT(jde) / 86400);
+}
+
+function chinaDay(jdUniversal: number): number {
+  return Math.floor(jdUniversal + 0.5 + getUtcOffset(jdUniversal));
+}
+
+function getUtcOffset(jd: number): number {
+  return jd < JD_1929 ? BEIJING_MEAN_TIME : CHINA_STANDARD_TIME;
+}
+
+function toTerrestrialTime(jdUniversal: number): number {
+  return jdUniversal + getDeltaT(jdUniversal) / 86400;
+}
+
+/**
+ * TT - UT in seconds, from the long-term parabola of Morrison and
+ * Stephenson. It is within half a minute over 1900–2100, which the sun's
+ * position isn't precise enough to notice.
+ */
+function getDeltaT(jd: number): number {
+  const u = ((jd - J2000) / 365.25 + 2000 - 1820) / 100;
+  return -20 + 32 * u * u;
+}
+
+/**
+ * When, as a Julian day in UT, the sun's apparent longitude reaches
+ * `longitude`, searching from the given date of `year`.
+ */
+function findSolarLongitude(
+  longitude: number,
+  year: number,
+  month: number,
+  day: number,
+): number {
+  let jde = Date.UTC(year, month, day) / MS_PER_DAY + UNIX_EPOCH_JDN - 0.5;
+  for (let i = 0; i < 10; i++) {
+    const delta =
+      ((((longitude - getSunLongitude(jde)) % 360) + 540) % 360) - 180;
+    jde += (delta * TROPICAL_YEAR) / 360;
+    if (Math.abs(delta) < 1e-6) break;
+  }
+  return jde - getDeltaT(jde) / 86400;
+}
+
+/**
+ * The sun's apparent longitude in degrees.
+ */
+function getSunLongitude(jde: number): number {
+  const t = (jde - J2000) / 36525;
+  const meanLongitude = 280.46646 + 36000.76983 * t + 0.0003032 * t * t;
+  const anomaly = 357.52911 + 35999.05029 * t - 0.0001537 * t * t;
+  const center =
+    (1.914602 - 0.004817 * t - 0.000014 * t * t) * sin(anomaly) +
+    (0.019993 - 0.000101 * t) * sin(2 * anomaly) +
+    0.000289 * sin(3 * anomaly);
+  const node = 125.04 - 1934.136 * t;
+  return normalize(meanLongitude + center - 0.00569 - 0.00478 * sin(node));
+}
+
+/**
+ * The Julian ephemeris day of new moon `k`.
+ */
+function getNewMoon(k: number): number {
+  const t = k / 1236.85;
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const t4 = t3 * t;
+  const e = 1 - 0.002516 * t - 0.0000074 * t2;
+  const m = 2.5534 + 29.1053567 * k - 0.0000014 * t2 - 0.00000011 * t3;
+  const mm =
+    201.5643 +
+    385.81693528 * k +
+    0.0107582 * t2 +
+    0.00001238 * t3 -
+    0.000000058 * t4;
+  const f =
+    160.7108 +
+    390.67050284 * k -
+    0.0016118 * t2 -
+    0.00000227 * t3 +
+    0.000000011 * t4;
+  const node = 124.7746 - 1.56375588 * k + 0.0020672 * t2 + 0.00000215 * t3;
+  const mean =
+    2451550.09766 +
+    SYNODIC_MONTH * k +
+    0.00015437 * t2 -
+    0.00000015 * t3 +
+    0.00000000073 * t4;
+  const periodic =
+    -0.4072 * sin(mm) +
+    0.17241 * e * sin(m) +
+    0.01608 * sin(2 * mm) +
+    0.01039 * sin(2 * f) +
+    0.00739 * e * sin(mm - m) -
+    0.00514 * e * sin(mm + m) +
+    0.00208 * e * e * sin(2 * m) -
+    0.00111 * sin(mm - 2 * f) -
+    0.00057 * sin(mm + 2 * f) +
+    0.00056 * e * sin(2 * mm + m) -
+    0.00042 * sin(3 * mm) +
+    0.00042 * e * sin(m + 2 * f) +
+    0.00038 * e * sin(m - 2 * f) -
+    0.00024 * e * sin(2 * mm - m) -
+    0.00017 * sin(node) -
+    0.00007 * sin(mm + 2 * m) +
+    0.00004 * sin(2 * mm - 2 * f) +
+    0.00004 * sin(3 * m) +
+    0.00003 * sin(mm + m - 2 * f) +
+    0.00003 * sin(2 * mm + 2 * f) -
+    0.00003 * sin(mm + m + 2 * f) +
+    0.00003 * sin(mm - m + 2 * f) -
+    0.00002 * sin(mm - m - 2 * f) -
+    0.00002 * sin(3 * mm + m) +
+    0.00002 * sin(4 * mm);
+  const planetary = [
+    [0.000325, 299.77 + 0.107408 * k - 0.009173 * t2],
+    [0.000165, 251.88 + 0.016321 * k],
+    [0.000164, 251.83 + 26.651886 * k],
+    [0.000126, 349.42 + 36.412478 * k],
+    [0.00011, 84.66 + 18.206239 * k],
+    [0.000062, 141.74 + 53.303771 * k],
+    [0.00006, 207.14 + 2.453732 * k],
+    [0.000056, 154.84 + 7.30686 * k],
+    [0.000047, 34.52 + 27.261239 * k],
+    [0.000042, 207.19 + 0.121824 * k],
+    [0.00004, 291.34 + 1.844379 * k],
+    [0.000037, 161.72 + 24.198154 * k],
+    [0.000035, 239.56 + 25.513099 * k],
+    [0.000023, 331.55 + 3.592518 * k],
+  ].reduce((total, [amplitude, angle]) => total + amplitude * sin(angle), 0);
+  return mean + periodic + planetary;
+}
+
+function toDateString(jdn: number): string {
+  return new Date((jdn - UNIX_EPOCH_JDN) * MS_PER_DAY)
+    .toISOString()
+    .slice(0, 10);
+}
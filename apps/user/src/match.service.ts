@@ -0,0 +1,176 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientProxy } from '@nestjs/microservices';
+import { isValidObjectId, Model } from 'mongoose';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import { SWIPE_ACTION, SwipeAction } from '@app/shared/enums/swipe.enum';
+import {
+  MatchedProfiles,
+  MatchEvent,
+  MatchInfo,
+  SwipeResult,
+} from '@app/shared/interfaces/match.interface';
+import { Profile, ProfileDocument } from './interfaces/profile.interface';
+import { Swipe } from './interfaces/swipe.interface';
+import { Match } from './interfaces/match.interface';
+import { BlockService } from './block.service';
+import { serializeProfile } from '@app/shared/profile-serializer';
+
+/**
+ * @description
+ * Users like or pass on profiles, and two users who like each other match.
+ * Only the latest action on a profile counts: passing on someone you
+ * matched with undoes the match. New matches are announced to the chat
+ * service with a `profile-matched` event.
+ */
+@Injectable()
+export class MatchService {
+  constructor(
+    @InjectModel('Profile') private readonly profileModel: Model<Profile>,
+    @InjectModel('Swipe') private readonly swipeModel: Model<Swipe>,
+    @InjectModel('Match') private readonly matchModel: Model<Match>,
+    @Inject('CHAT_SERVICE') private readonly chatService: ClientProxy,
+    private readonly blockService: BlockService,
+  ) {}
+
+  async swipe(
+    userId: string,
+    profileId: string,
+    action: SwipeAction,
+  ): Promise<SwipeResult | ErrorData> {
+    const [profile, target] = await Promise.all([
+      this.profileModel.findOne({ userId }).exec(),
+      isValidObjectId(profileId)
+        ? this.profileModel.findById(profileId).exec()
+        : null,
+    ]);
+    if (
+      !profile ||
+      !target ||
+      (await this.blockService.isBlocked(userId, target.userId))
+    ) {
+      return {
+        statusCode: 1000,
+        error: 'Profile not found',
+      };
+    }
+    if (target.userId === userId) {
+      return {
+        statusCode: 1023,
+        error: 'You can not like or pass yourself',
+      };
+    }
+    await this.swipeModel.updateOne(
+      { userId, targetUserId: target.userId },
+      {
+        profileId: profile._id.toString(),
+        targetProfileId: profileId,
+        action,
+      },
+      { upsert: true },
+    );
+    const pairKey = [userId, target.userId].sort().join(':');
+    if (action === SWIPE_ACTION.Pass) {
+      await this.matchModel.deleteOne({ pairKey });
+      return { action, matched: false };
+    }
+    const isLiked = await this.swipeModel
+      .exists({
+        userId: target.userId,
+        targetUserId: userId,
+        action: SWIPE_ACTION.Like,
+      })
+      .exec();
+    if (!isLiked) return { action, matched: false };
+    await this.match(pairKey, [profile, target]);
+    return { action, matched: true };
+  }
+
+  /**
+   * Matches of the user, newest first, leaving out blocked users.
+   */
+  async list(userId: string): Promise<MatchInfo[]> {
+    const [profile, matches, blockedUserIds] = await Promise.all([
+      this.profileModel.findOne({ userId }).exec(),
+      this.matchModel.find({ userIds: userId }).sort({ createdAt: -1 }).exec(),
+      this.blockService.findBlockedUserIds(userId),
+    ]);
+    const others = matches
+      .map((match) => ({
+        match,
+        index: match.userIds[0] === userId ? 1 : 0,
+      }))
+      .filter(
+        ({ match, index }) => !blockedUserIds.includes(match.userIds[index]),
+      );
+    const profiles = await this.profileModel
+      .find({
+        _id: { $in: others.map(({ match, index }) => match.profileIds[index]) },
+      })
+      .exec();
+    return others.flatMap(({ match, index }) => {
+      const other = profiles.find(
+        (other) => other._id.toString() === match.profileIds[index],
+      );
+      return other
+        ? [
+            {
+              profile: serializeProfile(other, 'match', {
+                units: profile?.units,
+                origin: profile?.location?.point?.coordinates,
+              }),
+              matchedAt: match.createdAt,
+            },
+          ]
+        : [];
+    });
+  }
+
+  async findMatchedProfileIds(userId: string): Promise<MatchedProfiles> {
+    const [profile, matches] = await Promise.all([
+      this.profileModel.findOne({ userId }).exec(),
+      this.matchModel.find({ userIds: userId }).exec(),
+    ]);
+    return {
+      profileId: profile?._id.toString() ?? null,
+      matchedProfileIds: matches.map((match) =>
+        match.userIds[0] === userId ? match.profileIds[1] : match.profileIds[0],
+      ),
+    };
+  }
+
+  /**
+   * Record the match. When both like each other at the same time, only the
+   * one creating the record sends the event.
+   */
+  private async match(
+    pairKey: string,
+    profiles: [ProfileDocument, ProfileDocument],
+  ): Promise<void> {
+    const event: MatchEvent = {
+      userIds: [profiles[0].userId, profiles[1].userId],
+      profileIds: [profiles[0]._id.toString(), profiles[1]._id.toString()],
+      matchedAt: new Date(),
+    };
+    try {
+      const result = await this.matchModel.updateOne(
+        { pairKey },
+        {
+          $setOnInsert: {
+            userIds: event.userIds,
+            profileIds: event.profileIds,
+          },
+        },
+        { upsert: true },
+      );
+      if (result.upsertedCount === 0) return;
+    } catch (error) {
+      // a parallel upsert for the same pair won the race
+      if ((error as { code?: number }).code === 11000) return;
+      throw error;
+    }
+    this.chatService
+      .emit('profile-matched', event)
+      .subscribe({ error: (error) => console.log(error) });
+  }
+}
@@ -0,0 +1,110 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { Model } from 'mongoose';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import {
+  ONBOARDING_STEP,
+  onboardingStepList,
+} from '@app/shared/enums/onboarding.enum';
+import { OnboardingState } from '@app/shared/interfaces/onboarding.interface';
+import { Profile, ProfileDocument } from './interfaces/profile.interface';
+import { advanceOnboarding, getOnboardingState } from './onboarding';
+
+/**
+ * @description
+ * New profiles go through onboarding: account created, basic info, photos,
+ * interests, done. A profile moves on as soon as it has the fields of the
+ * next step and only shows up in discovery once the user confirmed they
+ * are done.
+ */
+@Injectable()
+export class OnboardingService implements OnApplicationBootstrap {
+  constructor(
+    @InjectModel('Profile') private readonly profileModel: Model<Profile>,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.migrateProfiles().catch((error) => console.log(error));
+  }
+
+  async getState(userId: string): Promise<OnboardingState | ErrorData> {
+    const profile = await this.advance(userId);
+    if (!profile) return this.profileNotFound();
+    return getOnboardingState(profile);
+  }
+
+  /**
+   * Finish onboarding, once every step before `done` is.
+   */
+  async complete(userId: string): Promise<OnboardingState | ErrorData> {
+    const profile = await this.advance(userId);
+    if (!profile) return this.profileNotFound();
+    const state = getOnboardingState(profile);
+    if (state.step === ONBOARDING_STEP.Done) return state;
+    if (state.nextStep !== ONBOARDING_STEP.Done) {
+      return {
+        statusCode: 1028,
+        error: `Onboarding is not finished, the profile lacks ${state.missing.join(
+          ', ',
+        )}`,
+      };
+    }
+    const done = await this.profileModel
+      .findOneAndUpdate(
+        { _id: profile._id },
+        { onboardingStep: ONBOARDING_STEP.Done },
+        { new: true },
+      )
+      .exec();
+    return getOnboardingState(done ?? profile);
+  }
+
+  /**
+   * Move the profile of the user as far as it has the fields for. Resolves
+   * to the profile, null when there is none.
+   */
+  async advance(userId: string): Promise<ProfileDocument | null> {
+    const profile = await this.profileModel.findOne({ userId }).exec();
+    if (!profile) return null;
+    const step = advanceOnboarding(profile);
+    if (step === profile.onboardingStep) return profile;
+    // only ever forward, whatever ran in between
+    const earlier = onboardingStepList.slice(
+      0,
+      onboardingStepList.indexOf(step),
+    );
+    const advanced = await this.profileModel
+      .findOneAndUpdate(
+        { _id: profile._id, onboardingStep: { $in: [...earlier, null] } },
+        { onboardingStep: step },
+        { new: true },
+      )
+      .exec();
+    return advanced ?? this.profileModel.findById(profile._id).exec();
+  }
+
+  /**
+   * Profiles from before onboarding that were discoverable, those with a
+   * name, stay so. The others start onboarding where their fields get them.
+   */
+  private async migrateProfiles(): Promise<void> {
+    await this.profileModel.updateMany(
+      { onboardingStep: null, name: { $ne: null } },
+      { onboardingStep: ONBOARDING_STEP.Done },
+    );
+    const profiles = this.profileModel.find({ onboardingStep: null }).cursor();
+    for await (const profile of profiles) {
+      await this.profileModel.updateOne(
+        { _id: profile._id, onboardingStep: null },
+        { onboardingStep: advanceOnboarding(profile) },
+      );
+    }
+  }
+
+  private profileNotFound(): ErrorData {
+    return {
+      statusCode: 1000,
+      error: 'Profile not found',
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  advanceOnboarding,
+  getOnboardingState,
+  scoreCompleteness,
+} from './onboarding';
+
+describe('onboarding', () => {
+  const basicInfo = { name: 'Angga', birthday: '1995-08-17', gender: true };
+  const photos = [{ fileId: 'file-1', addedAt: new Date() }];
+
+  it('should score how complete a profile is', () => {
+    expect(scoreCompleteness({})).toEqual({
+      score: 0,
+      missing: [
+        'name',
+        'birthday',
+        'gender',
+        'photos',
+        'interests',
+        'height',
+        'weight',
+      ],
+    });
+    expect(
+      scoreCompleteness({ ...basicInfo, gender: false, interests: [] }),
+    ).toEqual({
+      score: 45,
+      missing: ['photos', 'interests', 'height', 'weight'],
+    });
+    expect(
+      scoreCompleteness({
+        ...basicInfo,
+        photos,
+        interests: ['music'],
+        heightInCm: 172,
+        weightInKg: 68,
+      }).score,
+    ).toBe(100);
+  });
+
+  it('should move through the steps in order', () => {
+    expect(advanceOnboarding({ name: 'Angga' })).toBe('account-created');
+    expect(advanceOnboarding(basicInfo)).toBe('basic-info');
+    // interests don't count before there are photos
+    expect(advanceOnboarding({ ...basicInfo, interests: ['music'] })).toBe(
+      'basic-info',
+    );
+    expect(
+      advanceOnboarding({ ...basicInfo, photos, interests: ['music'] }),
+    ).toBe('interests');
+  });
+
+  it('should never go back or finish by itself', () => {
+    expect(advanceOnboarding({ onboardingStep: 'photos' })).toBe('photos');
+    expect(advanceOnboarding({ onboardingStep: 'done' })).toBe('done');
+  });
+
+  it('should tell what the next step needs', () => {
+    expect(
+      getOnboardingState({ ...basicInfo, onboardingStep: 'basic-info' }),
+    ).toMatchObject({
+      step: 'basic-info',
+      nextStep: 'photos',
+      missing: ['photos'],
+    });
+    expect(getOnboardingState({ onboardingStep: 'interests' })).toMatchObject({
+      nextStep: 'done',
+      missing: [],
+    });
+    expect(getOnboardingState({ onboardingStep: 'done' })).toMatchObject({
+      nextStep: null,
+      missing: [],
+    });
+  });
+});
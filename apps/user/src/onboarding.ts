@@ -0,0 +1,105 @@
+import {
+  ONBOARDING_STEP,
+  OnboardingStep,
+  onboardingStepList,
+} from '@app/shared/enums/onboarding.enum';
+import {
+  OnboardingState,
+  ProfileCompleteness,
+  ProfileField,
+} from '@app/shared/interfaces/onboarding.interface';
+import { Profile } from './interfaces/profile.interface';
+import {
+  ONBOARDING_REQUIREMENTS,
+  PROFILE_FIELD_WEIGHTS,
+} from './constants/onboarding.constant';
+
+type OnboardedProfile = Pick<
+  Profile,
+  | 'name'
+  | 'birthday'
+  | 'gender'
+  | 'heightInCm'
+  | 'weightInKg'
+  | 'photos'
+  | 'interests'
+  | 'onboardingStep'
+>;
+
+export function isFilled(
+  profile: OnboardedProfile,
+  field: ProfileField,
+): boolean {
+  switch (field) {
+    case 'name':
+    case 'birthday':
+      return !!profile[field]?.trim();
+    case 'gender':
+      return profile.gender !== undefined && profile.gender !== null;
+    case 'height':
+      return !!profile.heightInCm;
+    case 'weight':
+      return !!profile.weightInKg;
+    default:
+      return (profile[field]?.length ?? 0) > 0;
+  }
+}
+
+export function scoreCompleteness(
+  profile: OnboardedProfile,
+): ProfileCompleteness {
+  const fields = Object.keys(PROFILE_FIELD_WEIGHTS) as ProfileField[];
+  const missing = fields.filter((field) => !isFilled(profile, field));
+  const score = fields
+    .filter((field) => !missing.includes(field))
+    .reduce((total, field) => total + PROFILE_FIELD_WEIGHTS[field], 0);
+  return { score, missing };
+}
+
+export function getNextStep(step: OnboardingStep): OnboardingStep | null {
+  return onboardingStepList[onboardingStepList.indexOf(step) + 1] ?? null;
+}
+
+/**
+ * What the profile lacks to get to `step`.
+ */
+export function findMissing(
+  profile: OnboardedProfile,
+  step: OnboardingStep,
+): ProfileField[] {
+  const requirements: ProfileField[] =
+    step === ONBOARDING_STEP.AccountCreated
+      ? []
+      : ONBOARDING_REQUIREMENTS[step];
+  return requirements.filter((field) => !isFilled(profile, field));
+}
+
+/**
+ * The furthest step the profile has the fields for, starting from where it
+ * is. Steps are never taken back, and `done` is only reached by
+ * confirming it.
+ */
+export function advanceOnboarding(profile: OnboardedProfile): OnboardingStep {
+  let step = profile.onboardingStep ?? ONBOARDING_STEP.AccountCreated;
+  for (
+    let next = getNextStep(step);
+    next !== null &&
+    next !== ONBOARDING_STEP.Done &&
+    findMissing(profile, next).length === 0;
+    next = getNextStep(next)
+  ) {
+    step = next;
+  }
+  return step;
+}
+
+export function getOnboardingState(profile: OnboardedProfile): OnboardingState {
+  const step = profile.onboardingStep ?? ONBOARDING_STEP.AccountCreated;
+  const nextStep = getNextStep(step);
+  return {
+    step,
+    nextStep,
+    missing: nextStep ? findMissing(profile, nextStep) : [],
+    completeness: scoreCompleteness(profile),
+  };
+}
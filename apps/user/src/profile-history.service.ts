@@ -0,0 +1,134 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { FilterQuery, isValidObjectId, Model } from 'mongoose';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import {
+  FieldChange,
+  ProfileChangeInfo,
+  ProfileHistoryPage,
+  ProfileHistoryQuery,
+} from '@app/shared/interfaces/profile-history.interface';
+import {
+  ProfileChange,
+  ProfileChangeDocument,
+} from './interfaces/profile-change.interface';
+import { Profile } from './interfaces/profile.interface';
+import {
+  DEFAULT_PROFILE_HISTORY_PAGE_SIZE,
+  MAX_PROFILE_HISTORY_PAGE_SIZE,
+  THROTTLED_PROFILE_FIELDS,
+} from './constants/profile-history.constant';
+
+/**
+ * @description
+ * Every change to a profile is recorded field by field. Entries are never
+ * updated, only removed with the account. How often the fields in
+ * `THROTTLED_PROFILE_FIELDS` changed lately is kept on the profile instead,
+ * so it can be checked in the same update that changes them.
+ */
+@Injectable()
+export class ProfileHistoryService implements OnApplicationBootstrap {
+  constructor(
+    @InjectModel('Profile') private readonly profileModel: Model<Profile>,
+    @InjectModel('ProfileChange')
+    private readonly profileChangeModel: Model<ProfileChange>,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.backfillThrottledChanges().catch((error) => console.log(error));
+  }
+
+  async record(
+    userId: string,
+    profileId: string,
+    changedBy: string,
+    changes: FieldChange[],
+  ): Promise<void> {
+    if (changes.length === 0) return;
+    await this.profileChangeModel.create({
+      userId,
+      profileId,
+      changedBy,
+      changes,
+    });
+  }
+
+  /**
+   * Page through changes, newest first. The cursor is the id of the last
+   * change of the previous page.
+   */
+  async list(
+    filter: FilterQuery<ProfileChange>,
+    query: ProfileHistoryQuery,
+  ): Promise<ProfileHistoryPage | ErrorData> {
+    if (query.cursor !== undefined && !isValidObjectId(query.cursor)) {
+      return {
+        statusCode: 1012,
+        error: 'Invalid cursor',
+      };
+    }
+    const limit = Math.min(
+      query.limit ?? DEFAULT_PROFILE_HISTORY_PAGE_SIZE,
+      MAX_PROFILE_HISTORY_PAGE_SIZE,
+    );
+    const entries = await this.profileChangeModel
+      .find({
+        ...filter,
+        ...(query.field ? { 'changes.field': query.field } : {}),
+        ...(query.cursor ? { _id: { $lt: query.cursor } } : {}),
+      })
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .exec();
+    const page = entries.slice(0, limit);
+    return {
+      changes: page.map((entry) => this.toInfo(entry)),
+      nextCursor:
+        entries.length > limit ? page[page.length - 1]._id.toString() : null,
+    };
+  }
+
+  /**
+   * Profiles from before the change times were kept on them get theirs from
+   * the history.
+   */
+  private async backfillThrottledChanges(): Promise<void> {
+    const now = Date.now();
+    for (const [field, throttle] of Object.entries(THROTTLED_PROFILE_FIELDS)) {
+      const recent: { _id: string; changedAt: Date[] }[] =
+        await this.profileChangeModel.aggregate([
+          {
+            $match: {
+              changes: { $elemMatch: { field, from: { $ne: null } } },
+              createdAt: { $gt: new Date(now - throttle.windowMs) },
+            },
+          },
+          { $sort: { createdAt: 1 } },
+          { $group: { _id: '$userId', changedAt: { $push: '$createdAt' } } },
+        ]);
+      for (const { _id, changedAt } of recent) {
+        await this.profileModel.updateOne(
+          { userId: _id, [`throttledChanges.${field}`]: { $exists: false } },
+          {
+            [`throttledChanges.${field}`]: changedAt.slice(-throttle.limit),
+          },
+        );
+      }
+    }
+  }
+
+  private toInfo(entry: ProfileChangeDocument): ProfileChangeInfo {
+    return {
+      id: entry._id.toString(),
+      userId: entry.userId,
+      profileId: entry.profileId,
+      changedBy: entry.changedBy,
+      changes: entry.changes.map(({ field, from, to }) => ({
+        field,
+        from,
+        to,
+      })),
+      createdAt: entry.createdAt,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  buildThrottle,
+  diffProfile,
+  getThrottleError,
+} from './profile-history';
+
+describe('diffProfile', () => {
+  const profile = {
+    name: 'Angga',
+    birthday: '1995-08-17',
+    interests: ['music'],
+    preferences: { minAge: 20, maxAge: 30 },
+  };
+
+  it('should list the fields that change with their old and new values', () => {
+    expect(
+      diffProfile(profile, {
+        name: 'Angga',
+        birthday: '1996-01-01',
+        heightInCm: 172,
+      }),
+    ).toEqual([
+      { field: 'birthday', from: '1995-08-17', to: '1996-01-01' },
+      { field: 'heightInCm', from: null, to: 172 },
+    ]);
+  });
+
+  it('should compare arrays and objects by content', () => {
+    expect(
+      diffProfile(profile, {
+        interests: ['music'],
+        preferences: { maxAge: 30, minAge: 20 },
+      }),
+    ).toEqual([]);
+    expect(diffProfile(profile, { interests: ['music', 'travel'] })).toEqual([
+      { field: 'interests', from: ['music'], to: ['music', 'travel'] },
+    ]);
+  });
+});
+
+describe('birthday throttle', () => {
+  const now = new Date('2024-06-15T00:00:00Z');
+  const change = { field: 'birthday', from: '1995-08-17', to: '1996-01-01' };
+
+  it('should only update profiles with room for another change', () => {
+    expect(buildThrottle([change], now)).toEqual({
+      filter: {
+        $and: [
+          {
+            $or: [
+              { 'throttledChanges.birthday.1': { $exists: false } },
+              {
+                'throttledChanges.birthday.0': {
+                  $lte: new Date('2023-06-16T00:00:00Z'),
+                },
+              },
+            ],
+          },
+        ],
+      },
+      update: {
+        $push: { 'throttledChanges.birthday': { $each: [now], $slice: -2 } },
+      },
+    });
+  });
+
+  it('should not throttle setting the birthday for the first time', () => {
+    expect(buildThrottle([{ ...change, from: null }], now)).toEqual({
+      filter: {},
+      update: {},
+    });
+  });
+
+  it('should tell when the birthday may change again', () => {
+    const throttledChanges = {
+      birthday: [
+        new Date('2023-05-01T00:00:00Z'),
+        new Date('2024-01-01T00:00:00Z'),
+        new Date('2024-03-01T00:00:00Z'),
+      ],
+    };
+
+    expect(getThrottleError(throttledChanges, [change], now)).toMatchObject({
+      statusCode: 1029,
+      retryAfter: 199 * 24 * 60 * 60,
+    });
+    expect(
+      getThrottleError({ birthday: throttledChanges.birthday.slice(2) }, [
+        change,
+      ]),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+import { FieldChange } from '@app/shared/interfaces/profile-history.interface';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import { THROTTLED_PROFILE_FIELDS } from './constants/profile-history.constant';
+
+/**
+ * The fields `update` changes on `profile`, with their values before and
+ * after. Objects are compared by content, whatever the order of their keys.
+ */
+export function diffProfile(profile: object, update: object): FieldChange[] {
+  const before = profile as Record<string, unknown>;
+  return Object.entries(update)
+    .filter(
+      ([field, value]) => value !== undefined && !isEqual(before[field], value),
+    )
+    .map(([field, value]) => ({
+      field,
+      from: toPlain(before[field]),
+      to: toPlain(value),
+    }));
+}
+
+/**
+ * The condition and the update for changing throttled fields atomically:
+ * the profile only matches while each field changed less than its limit
+ * within its window, and the update adds the change to the times kept on
+ * the profile, the latest `limit` of them. Setting a field for the first
+ * time doesn't count.
+ */
+export function buildThrottle(
+  changes: FieldChange[],
+  now = new Date(),
+): { filter: Record<string, unknown>; update: Record<string, unknown> } {
+  const conditions: Record<string, unknown>[] = [];
+  const push: Record<string, unknown> = {};
+  for (const { field, from } of changes) {
+    const throttle = THROTTLED_PROFILE_FIELDS[field];
+    if (!throttle || from === null) continue;
+    const path = `throttledChanges.${field}`;
+    conditions.push({
+      $or: [
+        { [`${path}.${throttle.limit - 1}`]: { $exists: false } },
+        {
+          [`${path}.0`]: {
+            $lte: new Date(now.getTime() - throttle.windowMs),
+          },
+        },
+      ],
+    });
+    push[path] = { $each: [now], $slice: -throttle.limit };
+  }
+  return {
+    filter: conditions.length > 0 ? { $and: conditions } : {},
+    update: Object.keys(push).length > 0 ? { $push: push } : {},
+  };
+}
+
+/**
+ * The error for the first of the changes to a field that changed too often
+ * lately, null when they may go ahead.
+ */
+export function getThrottleError(
+  throttledChanges: Record<string, Date[]> | undefined,
+  changes: FieldChange[],
+  now = new Date(),
+): ErrorData | null {
+  for (const { field, from } of changes) {
+    const throttle = THROTTLED_PROFILE_FIELDS[field];
+    if (!throttle || from === null) continue;
+    const recent = (throttledChanges?.[field] ?? [])
+      .map((changedAt) => new Date(changedAt).getTime())
+      .filter((changedAt) => changedAt > now.getTime() - throttle.windowMs)
+      .sort((a, b) => a - b)
+      .slice(-throttle.limit);
+    if (recent.length < throttle.limit) continue;
+    return {
+      statusCode: 1029,
+      error: `The ${field} can only be changed ${
+        throttle.limit
+      } times in ${Math.round(throttle.windowMs / (24 * 60 * 60 * 1000))} days`,
+      retryAfter: Math.ceil(
+        (recent[0] + throttle.windowMs - now.getTime()) / 1000,
+      ),
+    };
+  }
+  return null;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(toPlain(a)) === JSON.stringify(toPlain(b));
+}
+
+function toPlain(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.map(toPlain);
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value !== 'object') return value;
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, field]) => field !== undefined && field !== null)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, field]) => [key, toPlain(field)]),
+  );
+}
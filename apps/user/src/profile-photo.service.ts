@@ -0,0 +1,197 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientProxy } from '@nestjs/microservices';
+import { Model } from 'mongoose';
+import { firstValueFrom, timeout } from 'rxjs';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import {
+  ProfileGallery,
+  StoredFile,
+} from '@app/shared/interfaces/profile-photo.interface';
+import { Profile } from './interfaces/profile.interface';
+import { OnboardingService } from './onboarding.service';
+import {
+  DEFAULT_PROFILE_PHOTO_LIMIT,
+  PROFILE_PHOTO_TIMEOUT_MS,
+} from './constants/profile-photo.constant';
+
+/**
+ * @description
+ * The photo gallery of a profile. Photos are images the user uploaded to
+ * the GridFS service, referenced by file id; at most `PROFILE_PHOTO_LIMIT`
+ * per profile. The first photo added becomes the primary one, the avatar.
+ */
+@Injectable()
+export class ProfilePhotoService {
+  private readonly limit =
+    Number(process.env.PROFILE_PHOTO_LIMIT) || DEFAULT_PROFILE_PHOTO_LIMIT;
+
+  constructor(
+    @InjectModel('Profile') private readonly profileModel: Model<Profile>,
+    @Inject('GRIDFS_SERVICE') private readonly gridfsService: ClientProxy,
+    private readonly onboardingService: OnboardingService,
+  ) {}
+
+  async getGallery(userId: string): Promise<ProfileGallery | ErrorData> {
+    const profile = await this.profileModel.findOne({ userId }).exec();
+    if (!profile) return this.profileNotFound();
+    return this.toGallery(profile);
+  }
+
+  /**
+   * Adding a photo that is already in the gallery changes nothing.
+   */
+  async add(
+    userId: string,
+    fileId: string,
+  ): Promise<ProfileGallery | ErrorData> {
+    const file: StoredFile | null = await firstValueFrom(
+      this.gridfsService
+        .send('find-file', fileId)
+        .pipe(timeout(PROFILE_PHOTO_TIMEOUT_MS)),
+    );
+    if (
+      !file ||
+      file.userId !== userId ||
+      !file.contentType?.startsWith('image/')
+    ) {
+      return {
+        statusCode: 1013,
+        error: 'Photos must be images you uploaded',
+      };
+    }
+    // the size check is part of the filter so parallel adds can't overflow
+    const result = await this.profileModel.updateOne(
+      {
+        userId,
+        'photos.fileId': { $ne: fileId },
+        [`photos.${this.limit - 1}`]: { $exists: false },
+      },
+      { $push: { photos: { fileId, addedAt: new Date() } } },
+    );
+    if (result.matchedCount === 0) {
+      const profile = await this.profileModel.findOne({ userId }).exec();
+      if (!profile) return this.profileNotFound();
+      if (!profile.photos?.some((photo) => photo.fileId === fileId)) {
+        return {
+          statusCode: 1014,
+          error: `A profile can have at most ${this.limit} photos`,
+        };
+      }
+    }
+    await this.profileModel.updateOne(
+      { userId, primaryPhotoId: null },
+      { primaryPhotoId: fileId },
+    );
+    await this.onboardingService.advance(userId);
+    return this.getGallery(userId);
+  }
+
+  /**
+   * Remove a photo and delete its file. The file goes first, so a failed
+   * deletion leaves the photo in place to be removed again.
+   */
+  async remove(
+    userId: string,
+    fileId: string,
+  ): Promise<ProfileGallery | ErrorData> {
+    const profile = await this.profileModel.findOne({ userId }).exec();
+    if (!profile) return this.profileNotFound();
+    if (!profile.photos?.some((photo) => photo.fileId === fileId)) {
+      return this.photoNotFound();
+    }
+    const isDeleted: boolean = await firstValueFrom(
+      this.gridfsService
+        .send('delete-file', { fileId, userId })
+        .pipe(timeout(PROFILE_PHOTO_TIMEOUT_MS)),
+    );
+    if (!isDeleted) throw new Error(`Deleting file ${fileId} failed`);
+    const updated = await this.profileModel
+      .findOneAndUpdate(
+        { userId },
+        { $pull: { photos: { fileId } } },
+        { new: true },
+      )
+      .exec();
+    if (updated?.primaryPhotoId === fileId) {
+      await this.profileModel.updateOne(
+        { userId, primaryPhotoId: fileId },
+        { primaryPhotoId: updated.photos?.[0]?.fileId ?? null },
+      );
+    }
+    return this.getGallery(userId);
+  }
+
+  /**
+   * `fileIds` must list every photo of the gallery exactly once.
+   */
+  async reorder(
+    userId: string,
+    fileIds: string[],
+  ): Promise<ProfileGallery | ErrorData> {
+    const profile = await this.profileModel.findOne({ userId }).exec();
+    if (!profile) return this.profileNotFound();
+    const photos = profile.photos ?? [];
+    const reordered = fileIds.map((fileId) =>
+      photos.find((photo) => photo.fileId === fileId),
+    );
+    const isPermutation =
+      fileIds.length === photos.length &&
+      new Set(fileIds).size === fileIds.length &&
+      reordered.every((photo) => photo !== undefined);
+    // the filter makes sure nobody added or removed a photo meanwhile
+    const result = isPermutation
+      ? await this.profileModel.updateOne(
+          {
+            userId,
+            photos: { $size: fileIds.length },
+            'photos.fileId': { $all: fileIds },
+          },
+          { photos: reordered },
+        )
+      : null;
+    if (!result?.matchedCount) {
+      return {
+        statusCode: 1016,
+        error: 'The order must list every photo once',
+      };
+    }
+    return this.getGallery(userId);
+  }
+
+  async setPrimary(
+    userId: string,
+    fileId: string,
+  ): Promise<ProfileGallery | ErrorData> {
+    const result = await this.profileModel.updateOne(
+      { userId, 'photos.fileId': fileId },
+      { primaryPhotoId: fileId },
+    );
+    if (result.matchedCount === 0) return this.photoNotFound();
+    return this.getGallery(userId);
+  }
+
+  private toGallery(profile: Profile): ProfileGallery {
+    return {
+      photos: (profile.photos ?? []).map(({ fileId, addedAt }) => ({
+        fileId,
+        addedAt,
+      })),
+      primaryPhotoId: profile.primaryPhotoId ?? null,
+    };
+  }
+
+  private profileNotFound(): ErrorData {
+    return {
+      statusCode: 1000,
+      error: 'Profile not found',
+    };
+  }
+
+  private photoNotFound(): ErrorData {
+    return {
+      statusCode: 1015,
+      error: 'Photo not found in the gallery',
+    };
+  }
+}
@@ -0,0 +1,158 @@
+import { Types } from 'mongoose';
+import { EARTH_RADIUS_KM } from '@app/shared/geo';
+import {
+  buildCandidateStages,
+  buildCursorFilter,
+  buildDistanceFilter,
+  buildNearStages,
+  buildProfileFilter,
+  buildVisibilityFilter,
+  encodeCursor,
+  getProfileSort,
+  getQueriedPrivacyFields,
+  readCursor,
+  toMongoSort,
+} from './profile-query';
+
+describe('buildProfileFilter', () => {
+  const now = new Date('2024-06-15T12:00:00Z');
+
+  it('should turn an age range into a birthday range', () => {
+    expect(buildProfileFilter({ minAge: 20, maxAge: 30 }, now)).toEqual({
+      birthday: { $lte: '2004-06-15', $gt: '1993-06-15' },
+    });
+  });
+
+  it('should push the other filters down as they are', () => {
+    expect(
+      buildProfileFilter(
+        { gender: false, minHeight: 160, interests: ['music'], zodiac: 'Rat' },
+        now,
+      ),
+    ).toEqual({
+      gender: false,
+      heightInCm: { $gte: 160 },
+      interests: { $in: ['music'] },
+      zodiac: 'Rat',
+    });
+  });
+
+  it('should only match profiles showing the filtered and sorted fields', () => {
+    const fields = getQueriedPrivacyFields({
+      minAge: 20,
+      zodiac: 'Rat',
+      sort: 'height',
+    });
+    expect(fields).toEqual(['birthday', 'height', 'horoscope']);
+    const matchId = new Types.ObjectId();
+    expect(buildVisibilityFilter(['birthday'], [matchId.toString()])).toEqual({
+      $and: [
+        {
+          $or: [
+            { 'privacy.birthday': { $in: [null, 'everyone'] } },
+            { 'privacy.birthday': 'matches', _id: { $in: [matchId] } },
+          ],
+        },
+      ],
+    });
+    expect(buildVisibilityFilter([], [])).toEqual({});
+  });
+
+  it('should find profiles within a distance on the sphere', () => {
+    const filter = buildDistanceFilter([106.85, -6.21], 25);
+    expect(filter['location.point'].$geoWithin.$centerSphere[0]).toEqual([
+      106.85, -6.21,
+    ]);
+    expect(
+      filter['location.point'].$geoWithin.$centerSphere[1] * EARTH_RADIUS_KM,
+    ).toBeCloseTo(25);
+  });
+
+  it('should find the nearest profiles past the cursor', () => {
+    const id = new Types.ObjectId();
+    const sort = getProfileSort({ sort: 'distance', order: 'desc' });
+    const cursor = readCursor(sort, encodeCursor(sort, { _id: id }, 15))!;
+    const [near, after] = buildNearStages(
+      [106.85, -6.21],
+      { gender: true },
+      12.5,
+      50,
+      cursor,
+    );
+
+    expect(sort.direction).toBe(1);
+    expect(near).toEqual({
+      $geoNear: {
+        near: { type: 'Point', coordinates: [106.85, -6.21] },
+        key: 'location.point',
+        distanceField: 'distance',
+        spherical: true,
+        query: { gender: true },
+        minDistance: 12500,
+        maxDistance: 50000,
+      },
+    });
+    expect(after).toEqual({
+      $match: {
+        $or: [{ distance: { $gte: 17500 } }, { _id: { $gt: id } }],
+      },
+    });
+  });
+});
+
+describe('profile cursors', () => {
+  const id = new Types.ObjectId();
+
+  it('should sort by age through the birthday, youngest first', () => {
+    const sort = getProfileSort({ sort: 'age', order: 'asc' });
+
+    expect(toMongoSort(sort)).toEqual({ birthday: -1, _id: -1 });
+  });
+
+  it('should continue after the last profile of the page', () => {
+    const sort = getProfileSort({ sort: 'height' });
+    const cursor = encodeCursor(sort, { _id: id, heightInCm: 170 });
+
+    expect(buildCursorFilter(sort, readCursor(sort, cursor)!)).toEqual({
+      $or: [
+        { heightInCm: { $gt: 170 } },
+        { heightInCm: 170, _id: { $gt: id } },
+      ],
+    });
+  });
+
+  it('should reject cursors of another sort or garbage', () => {
+    const cursor = encodeCursor(getProfileSort({ sort: 'name' }), {
+      _id: id,
+      name: 'Ann',
+    });
+
+    expect(readCursor(getProfileSort({}), cursor)).toBeNull();
+    expect(readCursor(getProfileSort({}), 'not-a-cursor')).toBeNull();
+  });
+});
+
+describe('buildCandidateStages', () => {
+  it('should only take the likeliest candidates', () => {
+    const stages = buildCandidateStages(
+      { interests: ['hiking'], preferences: { gender: false } },
+      { gender: false },
+      [],
+      500,
+    );
+
+    expect(stages[0]).toEqual({ $match: { gender: false } });
+    expect(stages[1]).toMatchObject({
+      $addFields: {
+        genderFit: {
+          $add: [0, { $cond: [{ $eq: ['$gender', false] }, 1, 0] }],
+        },
+      },
+    });
+    expect(stages.slice(2)).toEqual([
+      { $sort: { sharedInterests: -1, genderFit: -1, _id: -1 } },
+      { $limit: 500 },
+      { $project: { sharedInterests: 0, genderFit: 0 } },
+    ]);
+  });
+});
@@ -0,0 +1,355 @@
+import {
+  FilterQuery,
+  isValidObjectId,
+  PipelineStage,
+  SortOrder,
+  Types,
+} from 'mongoose';
+import { ProfileQuery } from '@app/shared/interfaces/profile-query.interface';
+import { PROFILE_SORT, ProfileSort } from '@app/shared/enums/profile-sort.enum';
+import { VISIBILITY } from '@app/shared/enums/visibility.enum';
+import { PrivacyField } from '@app/shared/profile-serializer';
+import {
+  Coordinates,
+  EARTH_RADIUS_KM,
+  getDistanceRange,
+} from '@app/shared/geo';
+import { Profile } from './interfaces/profile.interface';
+
+type SortField = 'name' | 'birthday' | 'heightInCm' | 'weightInKg';
+export type CursorValue = string | number | null;
+
+/**
+ * @description
+ * Sorting by age means sorting by birthday the other way around. `newest`
+ * sorts on `_id` alone, `compatibility` isn't stored and the likeliest
+ * candidates are sorted in memory, and `distance` comes from the 2dsphere
+ * index, nearest first.
+ */
+const SORT_FIELDS: Record<ProfileSort, SortField | null> = {
+  [PROFILE_SORT.Newest]: null,
+  [PROFILE_SORT.Compatibility]: null,
+  [PROFILE_SORT.Distance]: null,
+  [PROFILE_SORT.Name]: 'name',
+  [PROFILE_SORT.Age]: 'birthday',
+  [PROFILE_SORT.Height]: 'heightInCm',
+  [PROFILE_SORT.Weight]: 'weightInKg',
+};
+
+export interface ProfileSortSpec {
+  key: string;
+  field: SortField | null;
+  direction: 1 | -1;
+}
+
+export interface Cursor {
+  key: string;
+  value: CursorValue;
+  id: string;
+}
+
+export function getProfileSort(query: ProfileQuery): ProfileSortSpec {
+  const sort = query.sort ?? PROFILE_SORT.Newest;
+  const order =
+    query.order ??
+    (sort === PROFILE_SORT.Newest || sort === PROFILE_SORT.Compatibility
+      ? 'desc'
+      : 'asc');
+  let direction: 1 | -1 = order === 'asc' ? 1 : -1;
+  if (sort === PROFILE_SORT.Age) direction = direction === 1 ? -1 : 1;
+  // the index only finds the nearest first
+  if (sort === PROFILE_SORT.Distance) {
+    return { key: `${sort}:asc`, field: null, direction: 1 };
+  }
+  return { key: `${sort}:${order}`, field: SORT_FIELDS[sort], direction };
+}
+
+export function toMongoSort(sort: ProfileSortSpec): Record<string, SortOrder> {
+  if (!sort.field) return { _id: sort.direction };
+  return { [sort.field]: sort.direction, _id: sort.direction };
+}
+
+/**
+ * Turn the filters into a Mongo filter. Ages are compared as birthdays,
+ * which are stored as `YYYY-MM-DD` strings and sort like dates.
+ */
+export function buildProfileFilter(
+  query: ProfileQuery,
+  now = new Date(),
+): FilterQuery<Profile> {
+  const filter: Record<string, unknown> = {};
+  const birthday: Record<string, string> = {};
+  if (query.minAge !== undefined) {
+    birthday.$lte = shiftYears(now, -query.minAge);
+  }
+  if (query.maxAge !== undefined) {
+    birthday.$gt = shiftYears(now, -query.maxAge - 1);
+  }
+  if (Object.keys(birthday).length > 0) filter.birthday = birthday;
+  const heightInCm = range(query.minHeight, query.maxHeight);
+  if (heightInCm) filter.heightInCm = heightInCm;
+  const weightInKg = range(query.minWeight, query.maxWeight);
+  if (weightInKg) filter.weightInKg = weightInKg;
+  if (query.gender !== undefined) filter.gender = query.gender;
+  if (query.horoscope) filter.horoscope = query.horoscope;
+  if (query.zodiac) filter.zodiac = query.zodiac;
+  if (query.interests?.length) filter.interests = { $in: query.interests };
+  return filter;
+}
+
+/**
+ * Only profiles with a location within `maxDistance` km of `origin`.
+ */
+export function buildDistanceFilter(
+  origin: Coordinates,
+  maxDistance: number,
+): FilterQuery<Profile> {
+  return {
+    'location.point': {
+      $geoWithin: { $centerSphere: [origin, maxDistance / EARTH_RADIUS_KM] },
+    },
+  };
+}
+
+/**
+ * Profiles matching `filter` from `minKm` up to `maxKm` away from `origin`,
+ * nearest first, with the distance in meters as `distance`. After a cursor
+ * of the `distance` sort, only the profiles ranked after it are left:
+ * those farther away than its rounded distance, and those as far with a
+ * greater `_id`.
+ */
+export function buildNearStages(
+  origin: Coordinates,
+  filter: FilterQuery<Profile>,
+  minKm: number,
+  maxKm?: number,
+  cursor?: Cursor,
+): PipelineStage[] {
+  const stages: PipelineStage[] = [
+    {
+      $geoNear: {
+        near: { type: 'Point', coordinates: origin },
+        key: 'location.point',
+        distanceField: 'distance',
+        spherical: true,
+        query: filter,
+        minDistance: minKm * 1000,
+        ...(maxKm !== undefined ? { maxDistance: maxKm * 1000 } : {}),
+      },
+    },
+  ];
+  if (cursor) {
+    const [, to] = getDistanceRange(Number(cursor.value));
+    stages.push({
+      $match: {
+        $or: [
+          { distance: { $gte: to * 1000 } },
+          { _id: { $gt: new Types.ObjectId(cursor.id) } },
+        ],
+      },
+    });
+  }
+  return stages;
+}
+
+/**
+ * The `limit` profiles matching `filter` most likely to be compatible with
+ * `viewer`: those sharing the most interests the viewer may see, then
+ * those whose gender suits the other one's preferences, newest first.
+ */
+export function buildCandidateStages(
+  viewer: Pick<Profile, 'interests' | 'gender' | 'preferences'>,
+  filter: FilterQuery<Profile>,
+  matchedProfileIds: string[],
+  limit: number,
+): PipelineStage[] {
+  const matched = matchedProfileIds.map((id) => new Types.ObjectId(id));
+  const isInterestsVisible = {
+    $or: [
+      {
+        $in: [
+          { $ifNull: ['$privacy.interests', null] },
+          [null, VISIBILITY.Everyone],
+        ],
+      },
+      {
+        $and: [
+          { $eq: ['$privacy.interests', VISIBILITY.Matches] },
+          { $in: ['$_id', matched] },
+        ],
+      },
+    ],
+  };
+  const genderFits: unknown[] = [];
+  if (viewer.preferences?.gender != null) {
+    genderFits.push({ $eq: ['$gender', viewer.preferences.gender] });
+  }
+  if (viewer.gender != null) {
+    genderFits.push({ $eq: ['$preferences.gender', viewer.gender] });
+  }
+  return [
+    { $match: filter },
+    {
+      $addFields: {
+        sharedInterests: {
+          $size: {
+            $setIntersection: [
+              {
+                $cond: [
+                  isInterestsVisible,
+                  { $ifNull: ['$interests', []] },
+                  [],
+                ],
+              },
+              viewer.interests ?? [],
+            ],
+          },
+        },
+        genderFit: {
+          $add: [0, ...genderFits.map((isFit) => ({ $cond: [isFit, 1, 0] }))],
+        },
+      },
+    },
+    { $sort: { sharedInterests: -1, genderFit: -1, _id: -1 } },
+    { $limit: limit },
+    { $project: { sharedInterests: 0, genderFit: 0 } },
+  ];
+}
+
+/**
+ * The privacy settings covering the fields the query filters or sorts by.
+ */
+export function getQueriedPrivacyFields(query: ProfileQuery): PrivacyField[] {
+  const fields = new Set<PrivacyField>();
+  const sort = query.sort ?? PROFILE_SORT.Newest;
+  if (
+    query.minAge !== undefined ||
+    query.maxAge !== undefined ||
+    sort === PROFILE_SORT.Age
+  ) {
+    fields.add('birthday');
+  }
+  if (
+    query.minHeight !== undefined ||
+    query.maxHeight !== undefined ||
+    sort === PROFILE_SORT.Height
+  ) {
+    fields.add('height');
+  }
+  if (
+    query.minWeight !== undefined ||
+    query.maxWeight !== undefined ||
+    sort === PROFILE_SORT.Weight
+  ) {
+    fields.add('weight');
+  }
+  if (query.horoscope || query.zodiac) fields.add('horoscope');
+  if (query.interests?.length) fields.add('interests');
+  return [...fields];
+}
+
+/**
+ * Only profiles showing the viewer the given fields, so filtering or
+ * sorting by a hidden field can't tell anything about it.
+ */
+export function buildVisibilityFilter(
+  fields: PrivacyField[],
+  matchedProfileIds: string[],
+): FilterQuery<Profile> {
+  if (fields.length === 0) return {};
+  const matched = matchedProfileIds.map((id) => new Types.ObjectId(id));
+  return {
+    $and: fields.map((field) => ({
+      $or: [
+        { [`privacy.${field}`]: { $in: [null, VISIBILITY.Everyone] } },
+        { [`privacy.${field}`]: VISIBILITY.Matches, _id: { $in: matched } },
+      ],
+    })),
+  };
+}
+
+export function encodeCursor(
+  sort: ProfileSortSpec,
+  profile: { _id: unknown } & Partial<Record<SortField, unknown>>,
+  value: CursorValue = sort.field
+    ? ((profile[sort.field] ?? null) as CursorValue)
+    : null,
+): string {
+  const cursor: Cursor = { key: sort.key, value, id: String(profile._id) };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Filter for the profiles after the cursor.
+ *
+ * Mongo puts missing values first when sorting ascending and last when
+ * sorting descending, so profiles without the field are paged through too.
+ */
+export function buildCursorFilter(
+  sort: ProfileSortSpec,
+  cursor: Cursor,
+): FilterQuery<Profile> {
+  const after = sort.direction === 1 ? '$gt' : '$lt';
+  const id = new Types.ObjectId(cursor.id);
+  const field = sort.field;
+  if (!field) return { _id: { [after]: id } };
+  const { value } = cursor;
+  if (value === null) {
+    return sort.direction === 1
+      ? {
+          $or: [
+            { [field]: null, _id: { $gt: id } },
+            { [field]: { $ne: null } },
+          ],
+        }
+      : { [field]: null, _id: { $lt: id } };
+  }
+  const or: FilterQuery<Profile>[] = [
+    { [field]: { [after]: value } },
+    { [field]: value, _id: { [after]: id } },
+  ];
+  if (sort.direction === -1) or.push({ [field]: null });
+  return { $or: or };
+}
+
+/**
+ * Resolves to null when the cursor is malformed or was made for another
+ * sort.
+ */
+export function readCursor(
+  sort: ProfileSortSpec,
+  encoded: string,
+): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString());
+    const isValue =
+      cursor?.value === null ||
+      ['string', 'number'].includes(typeof cursor?.value);
+    if (cursor?.key !== sort.key || !isValidObjectId(cursor.id)) {
+      return null;
+    }
+    return isValue ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+function range(
+  min?: number,
+  max?: number,
+): { $gte?: number; $lte?: number } | null {
+  if (min === undefined && max === undefined) return null;
+  return {
+    ...(min !== undefined ? { $gte: min } : {}),
+    ...(max !== undefined ? { $lte: max } : {}),
+  };
+}
+
+/**
+ * The same day `years` later, as a birthday string. Feb 29 is kept even in
+ * common years, which still compares right against real dates.
+ */
+function shiftYears(date: Date, years: number): string {
+  const year = String(date.getUTCFullYear() + years).padStart(4, '0');
+  return `${year}${date.toISOString().slice(4, 10)}`;
+}
@@ -0,0 +1,179 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ClientProxy } from '@nestjs/microservices';
+import { FilterQuery, isValidObjectId, Model } from 'mongoose';
+import { firstValueFrom, timeout } from 'rxjs';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import { REPORT_STATUS } from '@app/shared/enums/report.enum';
+import {
+  CreateReport,
+  ReportedMessage,
+  ReportInfo,
+  ReportPage,
+  ReportQuery,
+  ReviewReport,
+} from '@app/shared/interfaces/report.interface';
+import { Profile } from './interfaces/profile.interface';
+import { Report, ReportDocument } from './interfaces/report.interface';
+import {
+  DEFAULT_REPORT_PAGE_SIZE,
+  MAX_REPORT_PAGE_SIZE,
+  MAX_REPORTED_MESSAGES,
+  REPORT_TIMEOUT_MS,
+} from './constants/report.constant';
+
+/**
+ * @description
+ * Users report each other with a reason and optionally the chat messages
+ * in question, which are copied into the report. Reports start out `open`
+ * and are triaged by admins and moderators, newest first.
+ */
+@Injectable()
+export class ReportService {
+  constructor(
+    @InjectModel('Profile') private readonly profileModel: Model<Profile>,
+    @InjectModel('Report') private readonly reportModel: Model<Report>,
+    @Inject('CHAT_SERVICE') private readonly chatService: ClientProxy,
+  ) {}
+
+  async create(
+    userId: string,
+    createReport: CreateReport,
+  ): Promise<ReportInfo | ErrorData> {
+    const [profile, reported] = await Promise.all([
+      this.profileModel.findOne({ userId }).exec(),
+      isValidObjectId(createReport.profileId)
+        ? this.profileModel.findById(createReport.profileId).exec()
+        : null,
+    ]);
+    if (!profile || !reported) {
+      return {
+        statusCode: 1000,
+        error: 'Profile not found',
+      };
+    }
+    if (reported.userId === userId) {
+      return {
+        statusCode: 1020,
+        error: 'You can not block or report yourself',
+      };
+    }
+    const references = createReport.messages ?? [];
+    let messages: ReportedMessage[] = [];
+    if (references.length > 0) {
+      const found: ReportedMessage[] | null = await firstValueFrom(
+        this.chatService
+          .send('find-reported-messages', {
+            profileId: profile._id.toString(),
+            references: references.slice(0, MAX_REPORTED_MESSAGES),
+          })
+          .pipe(timeout(REPORT_TIMEOUT_MS)),
+      );
+      if (found === null) throw new Error('Looking up the messages failed');
+      if (found.length !== references.length) {
+        return {
+          statusCode: 1022,
+          error: `Reported messages must be at most ${MAX_REPORTED_MESSAGES} messages of rooms you are in`,
+        };
+      }
+      messages = found;
+    }
+    const report = await this.reportModel.create({
+      reporterId: userId,
+      reportedUserId: reported.userId,
+      reportedProfileId: createReport.profileId,
+      reason: createReport.reason,
+      details: createReport.details,
+      messages,
+      status: REPORT_STATUS.Open,
+    });
+    return this.toInfo(report);
+  }
+
+  /**
+   * Page through reports, newest first. The cursor is the id of the last
+   * report of the previous page.
+   */
+  async list(query: ReportQuery): Promise<ReportPage | ErrorData> {
+    if (query.cursor !== undefined && !isValidObjectId(query.cursor)) {
+      return {
+        statusCode: 1012,
+        error: 'Invalid cursor',
+      };
+    }
+    const filter: FilterQuery<Report> = {
+      ...(query.status ? { status: query.status } : {}),
+      ...(query.cursor ? { _id: { $lt: query.cursor } } : {}),
+    };
+    const limit = Math.min(
+      query.limit ?? DEFAULT_REPORT_PAGE_SIZE,
+      MAX_REPORT_PAGE_SIZE,
+    );
+    const reports = await this.reportModel
+      .find(filter)
+      .sort({ _id: -1 })
+      .limit(limit + 1)
+      .exec();
+    const page = reports.slice(0, limit);
+    return {
+      reports: page.map((report) => this.toInfo(report)),
+      nextCursor:
+        reports.length > limit ? page[page.length - 1]._id.toString() : null,
+    };
+  }
+
+  async review(
+    reviewerId: string,
+    reportId: string,
+    reviewReport: ReviewReport,
+  ): Promise<ReportInfo | ErrorData> {
+    const report = isValidObjectId(reportId)
+      ? await this.reportModel
+          .findByIdAndUpdate(
+            reportId,
+            {
+              status: reviewReport.status,
+              ...(reviewReport.note !== undefined
+                ? { note: reviewReport.note }
+                : {}),
+              reviewedBy: reviewerId,
+              reviewedAt: new Date(),
+            },
+            { new: true },
+          )
+          .exec()
+      : null;
+    if (!report) {
+      return {
+        statusCode: 1021,
+        error: 'Report not found',
+      };
+    }
+    return this.toInfo(report);
+  }
+
+  private toInfo(report: ReportDocument): ReportInfo {
+    return {
+      id: report._id.toString(),
+      reporterId: report.reporterId,
+      reportedUserId: report.reportedUserId,
+      reportedProfileId: report.reportedProfileId,
+      reason: report.reason,
+      details: report.details,
+      messages: report.messages.map(
+        ({ roomId, messageId, authorId, text, createdAt }) => ({
+          roomId,
+          messageId,
+          authorId,
+          text,
+          createdAt,
+        }),
+      ),
+      status: report.status,
+      note: report.note,
+      reviewedBy: report.reviewedBy,
+      reviewedAt: report.reviewedAt,
+      createdAt: report.createdAt,
+    };
+  }
+}
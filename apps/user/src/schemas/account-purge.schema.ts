@@ -0,0 +1,17 @@
+import { Schema } from 'mongoose';
+
+export const AccountPurgeSchema = new Schema(
+  {
+    userId: { type: String, unique: true },
+    profileId: String,
+    pending: [String],
+    attempts: { type: Number, default: 0 },
+    nextAttemptAt: { type: Date, index: true },
+    lastError: String,
+    completedAt: Date,
+    expiresAt: Date,
+  },
+  { timestamps: true },
+);
+
+AccountPurgeSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
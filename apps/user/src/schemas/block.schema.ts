@@ -0,0 +1,14 @@
+import { Schema } from 'mongoose';
+
+export const BlockSchema = new Schema(
+  {
+    userId: String,
+    profileId: String,
+    blockedUserId: String,
+    blockedProfileId: String,
+  },
+  { timestamps: true },
+);
+
+BlockSchema.index({ userId: 1, blockedUserId: 1 }, { unique: true });
+BlockSchema.index({ blockedUserId: 1 });
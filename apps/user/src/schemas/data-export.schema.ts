@@ -0,0 +1,17 @@
+import { Schema } from 'mongoose';
+
+export const DataExportSchema = new Schema({
+  userId: { type: String, index: true },
+  status: String,
+  requestedAt: Date,
+  startedAt: Date,
+  completedAt: Date,
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: Date,
+  size: Number,
+  lastError: String,
+  expiresAt: Date,
+});
+
+DataExportSchema.index({ status: 1, nextAttemptAt: 1 });
+DataExportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
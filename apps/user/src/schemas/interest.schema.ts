@@ -0,0 +1,21 @@
+import { Schema } from 'mongoose';
+import {
+  interestCategoryList,
+  interestStatusList,
+} from '@app/shared/enums/interest.enum';
+
+export const InterestSchema = new Schema(
+  {
+    slug: { type: String, unique: true },
+    name: String,
+    category: { type: String, enum: interestCategoryList },
+    synonyms: [String],
+    terms: { type: [String], index: true },
+    status: { type: String, enum: interestStatusList },
+    usageCount: { type: Number, default: 0 },
+    submittedBy: [String],
+  },
+  { timestamps: true },
+);
+
+InterestSchema.index({ status: 1, usageCount: -1 });
@@ -0,0 +1,10 @@
+import { Schema } from 'mongoose';
+
+export const MatchSchema = new Schema(
+  {
+    pairKey: { type: String, unique: true },
+    userIds: { type: [String], index: true },
+    profileIds: [String],
+  },
+  { timestamps: true },
+);
@@ -0,0 +1,22 @@
+import { Schema } from 'mongoose';
+
+export const ProfileChangeSchema = new Schema(
+  {
+    userId: String,
+    profileId: String,
+    changedBy: String,
+    changes: [
+      {
+        _id: false,
+        field: String,
+        from: Schema.Types.Mixed,
+        to: Schema.Types.Mixed,
+      },
+    ],
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+);
+
+ProfileChangeSchema.index({ userId: 1, _id: -1 });
+ProfileChangeSchema.index({ profileId: 1, _id: -1 });
+ProfileChangeSchema.index({ userId: 1, 'changes.field': 1, createdAt: -1 });
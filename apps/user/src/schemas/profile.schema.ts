@@ -1,4 +1,12 @@
 import { Schema } from 'mongoose';
+import { visibilityList } from '@app/shared/enums/visibility.enum';
+import { unitSystemList } from '@app/shared/enums/unit-system.enum';
+import {
+  ONBOARDING_STEP,
+  onboardingStepList,
+} from '@app/shared/enums/onboarding.enum';
+
+const visibility = { type: String, enum: visibilityList };
 
 export const ProfileSchema = new Schema({
   userId: String,
@@ -10,4 +18,65 @@ export const ProfileSchema = new Schema({
   horoscope: String,
   zodiac: String,
   interests: [String],
+  preferences: {
+    type: new Schema(
+      {
+        gender: Boolean,
+        minAge: Number,
+        maxAge: Number,
+        minHeight: Number,
+        maxHeight: Number,
+      },
+      { _id: false },
+    ),
+  },
+  privacy: {
+    type: new Schema(
+      {
+        birthday: visibility,
+        weight: visibility,
+        height: visibility,
+        horoscope: visibility,
+        interests: visibility,
+      },
+      { _id: false },
+    ),
+  },
+  units: { type: String, enum: unitSystemList },
+  location: {
+    type: new Schema(
+      {
+        point: new Schema(
+          {
+            type: { type: String, enum: ['Point'] },
+            coordinates: { type: [Number] },
+          },
+          { _id: false },
+        ),
+        city: String,
+        country: String,
+      },
+      { _id: false },
+    ),
+  },
+  photos: [new Schema({ fileId: String, addedAt: Date }, { _id: false })],
+  primaryPhotoId: String,
+  onboardingStep: {
+    type: String,
+    enum: onboardingStepList,
+    default: ONBOARDING_STEP.AccountCreated,
+  },
+  throttledChanges: Schema.Types.Mixed,
 });
+
+// discovery filters and sorts, each sort paired with `_id` for the cursor
+ProfileSchema.index({ userId: 1 });
+ProfileSchema.index({ name: 1, _id: 1 });
+ProfileSchema.index({ birthday: 1, _id: 1 });
+ProfileSchema.index({ heightInCm: 1, _id: 1 });
+ProfileSchema.index({ weightInKg: 1, _id: 1 });
+ProfileSchema.index({ gender: 1, birthday: 1 });
+ProfileSchema.index({ horoscope: 1 });
+ProfileSchema.index({ zodiac: 1 });
+ProfileSchema.index({ interests: 1 });
+ProfileSchema.index({ 'location.point': '2dsphere' });
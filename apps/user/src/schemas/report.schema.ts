@@ -0,0 +1,33 @@
+import { Schema } from 'mongoose';
+import {
+  reportReasonList,
+  reportStatusList,
+} from '@app/shared/enums/report.enum';
+
+export const ReportSchema = new Schema(
+  {
+    reporterId: String,
+    reportedUserId: String,
+    reportedProfileId: String,
+    reason: { type: String, enum: reportReasonList },
+    details: String,
+    messages: [
+      {
+        _id: false,
+        roomId: String,
+        messageId: String,
+        authorId: String,
+        text: String,
+        createdAt: String,
+      },
+    ],
+    status: { type: String, enum: reportStatusList },
+    note: String,
+    reviewedBy: String,
+    reviewedAt: Date,
+  },
+  { timestamps: true },
+);
+
+ReportSchema.index({ status: 1, _id: -1 });
+ReportSchema.index({ reporterId: 1 });
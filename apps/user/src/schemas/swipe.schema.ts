@@ -0,0 +1,16 @@
+import { Schema } from 'mongoose';
+import { swipeActionList } from '@app/shared/enums/swipe.enum';
+
+export const SwipeSchema = new Schema(
+  {
+    userId: String,
+    profileId: String,
+    targetUserId: String,
+    targetProfileId: String,
+    action: { type: String, enum: swipeActionList },
+  },
+  { timestamps: true },
+);
+
+SwipeSchema.index({ userId: 1, targetUserId: 1 }, { unique: true });
+SwipeSchema.index({ targetUserId: 1, action: 1 });
@@ -1,7 +1,30 @@
 import mongoose from 'mongoose';
+import { ROLE, roleList } from '@app/shared/enums/role.enum';
 
 export const UserSchema = new mongoose.Schema({
   email: String,
   username: String,
+  usernameKey: String,
+  usernameChangedAt: Date,
+  usernameHistory: [
+    new mongoose.Schema({ username: String, changedAt: Date }, { _id: false }),
+  ],
   password: String,
+  emailVerified: { type: Boolean, default: false },
+  emailVerifiedAt: Date,
+  verificationSentAt: Date,
+  roles: { type: [String], enum: roleList, default: [ROLE.User] },
+  deletionRequestedAt: Date,
+  deletionScheduledAt: { type: Date, index: true },
+  purgeStartedAt: Date,
 });
+
+UserSchema.index({ roles: 1 });
+// users from before usernames were normalized get their key on startup
+UserSchema.index(
+  { usernameKey: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { usernameKey: { $type: 'string' } },
+  },
+);
@@ -0,0 +1,13 @@
+import { Schema } from 'mongoose';
+
+export const UsernameReservationSchema = new Schema(
+  {
+    usernameKey: { type: String, unique: true },
+    username: String,
+    userId: String,
+    expiresAt: Date,
+  },
+  { timestamps: true },
+);
+
+UsernameReservationSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -1,5 +0,0 @@
-import { Schema } from 'mongoose';
-
-export const ZodiacEnd = new Schema({
-  data: [String],
-});
@@ -10,6 +10,16 @@ import { User } from '@app/shared/interfaces/user.interface';
 import { ClientProxy, RmqContext } from '@nestjs/microservices';
 import { Model } from 'mongoose';
 import { getModelToken } from '@nestjs/mongoose';
+import { AccountDeletionService } from './account-deletion.service';
+import { DataExportService } from './data-export.service';
+import { ProfilePhotoService } from './profile-photo.service';
+import { UsernameService } from './username.service';
+import { BlockService } from './block.service';
+import { ReportService } from './report.service';
+import { MatchService } from './match.service';
+import { InterestService } from './interest.service';
+import { OnboardingService } from './onboarding.service';
+import { ProfileHistoryService } from './profile-history.service';
 
 describe('UserController', () => {
   let userService: UserService;
@@ -29,6 +39,16 @@ describe('UserController', () => {
       providers: [
         UserService,
         SharedService,
+        AccountDeletionService,
+        DataExportService,
+        ProfilePhotoService,
+        UsernameService,
+        BlockService,
+        ReportService,
+        MatchService,
+        InterestService,
+        OnboardingService,
+        ProfileHistoryService,
         {
           provide: getModelToken('User'),
           useValue: {
@@ -44,10 +64,44 @@ describe('UserController', () => {
           useValue: {},
         },
         {
-          provide: getModelToken('ZodiacEnd'),
+          provide: getModelToken('AccountPurge'),
+          useValue: {},
+        },
+        {
+          provide: getModelToken('DataExport'),
+          useValue: {},
+        },
+        {
+          provide: getModelToken('UsernameReservation'),
+          useValue: {},
+        },
+        {
+          provide: getModelToken('Block'),
+          useValue: {},
+        },
+        {
+          provide: getModelToken('Report'),
+          useValue: {},
+        },
+        {
+          provide: getModelToken('Swipe'),
+          useValue: {},
+        },
+        {
+          provide: getModelToken('Match'),
+          useValue: {},
+        },
+        {
+          provide: getModelToken('Interest'),
+          useValue: {},
+        },
+        {
+          provide: getModelToken('ProfileChange'),
           useValue: {},
         },
         { provide: 'AUTH_SERVICE', useValue: authService },
+        { provide: 'CHAT_SERVICE', useValue: {} },
+        { provide: 'GRIDFS_SERVICE', useValue: {} },
       ],
     }).compile();
 
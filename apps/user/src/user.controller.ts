@@ -7,14 +7,90 @@ import { EmailAndUsernameDto } from '@app/shared/dto/email-username.dto';
 import { SharedService } from '@app/shared';
 import { ProfileAndUser } from '@app/shared/interfaces/profile-user.interface';
 import { HoroscopeZodiac } from '@app/shared/interfaces/horoscope-zodiac.interface';
-import { UpdateProfileDto } from 'apps/youapp-api/src/dto/update-profile.dto';
+import { ProfileUpdate } from './interfaces/profile.interface';
 import { UpdatePassword } from './dto/update-password.dto';
+import { Role } from '@app/shared/enums/role.enum';
+import { AccountDeletion } from '@app/shared/interfaces/account-deletion.interface';
+import { AccountDeletionService } from './account-deletion.service';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import { DataExportInfo } from '@app/shared/interfaces/data-export.interface';
+import { DataExportService } from './data-export.service';
+import { Compatibility } from '@app/shared/interfaces/compatibility.interface';
+import { ProfileGallery } from '@app/shared/interfaces/profile-photo.interface';
+import { ProfilePhotoService } from './profile-photo.service';
+import { UsernameService } from './username.service';
+import { UsernameChange } from '@app/shared/interfaces/username.interface';
+import { BlockedProfile } from '@app/shared/interfaces/block.interface';
+import { BlockService } from './block.service';
+import {
+  CreateReport,
+  ReportInfo,
+  ReportPage,
+  ReportQuery,
+  ReviewReport,
+} from '@app/shared/interfaces/report.interface';
+import { ReportService } from './report.service';
+import {
+  MatchedProfiles,
+  MatchInfo,
+  SwipeResult,
+} from '@app/shared/interfaces/match.interface';
+import { SwipeAction } from '@app/shared/enums/swipe.enum';
+import { MatchService } from './match.service';
+import {
+  InterestInfo,
+  InterestQuery,
+  InterestResolution,
+  PendingInterest,
+  ReviewInterest,
+} from '@app/shared/interfaces/interest.interface';
+import { InterestService } from './interest.service';
+import { OnboardingState } from '@app/shared/interfaces/onboarding.interface';
+import { OnboardingService } from './onboarding.service';
+import {
+  ProfileHistoryPage,
+  ProfileHistoryQuery,
+} from '@app/shared/interfaces/profile-history.interface';
+import { ProfileHistoryService } from './profile-history.service';
+import {
+  ProfilePage,
+  ProfileQuery,
+} from '@app/shared/interfaces/profile-query.interface';
+
+/**
+ * The fields `update-profile` writes, anything else (the owner, the gallery,
+ * onboarding and throttling state) only changes through its own pattern.
+ */
+const PROFILE_UPDATE_FIELDS: Record<keyof ProfileUpdate, true> = {
+  name: true,
+  birthday: true,
+  gender: true,
+  heightInCm: true,
+  weightInKg: true,
+  units: true,
+  location: true,
+  interests: true,
+  preferences: true,
+  privacy: true,
+  horoscope: true,
+  zodiac: true,
+};
 
 @Controller()
 export class UserController {
   constructor(
     private readonly userService: UserService,
     private readonly sharedService: SharedService,
+    private readonly accountDeletionService: AccountDeletionService,
+    private readonly dataExportService: DataExportService,
+    private readonly profilePhotoService: ProfilePhotoService,
+    private readonly usernameService: UsernameService,
+    private readonly blockService: BlockService,
+    private readonly reportService: ReportService,
+    private readonly matchService: MatchService,
+    private readonly interestService: InterestService,
+    private readonly onboardingService: OnboardingService,
+    private readonly profileHistoryService: ProfileHistoryService,
   ) {}
 
   @MessagePattern('find-user-by-email-or-username')
@@ -34,6 +110,34 @@ export class UserController {
     }
   }
 
+  @MessagePattern('find-user-by-email')
+  async findUserByEmail(@Ctx() context: RmqContext): Promise<User | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.userService.findOneByEmail(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('find-user-by-id')
+  async findUserById(@Ctx() context: RmqContext): Promise<User | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.userService.findOneById(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
   @MessagePattern('create-user')
   async createUser(@Ctx() context: RmqContext) {
     const extractData = this.sharedService.extractData<CreateUserDto>(context);
@@ -85,15 +189,19 @@ export class UserController {
   @MessagePattern('update-profile')
   async updateProfile(@Ctx() context: RmqContext) {
     const extractData = this.sharedService.extractData<
-      UpdateProfileDto & HoroscopeZodiac & { userId: string }
+      ProfileUpdate & { userId: string; username?: string }
     >(context);
-    const toUpdate = { ...extractData.data };
-    delete toUpdate.userId;
+    const toUpdate = Object.fromEntries(
+      Object.entries(extractData.data).filter(
+        ([key]) => key in PROFILE_UPDATE_FIELDS,
+      ),
+    ) as ProfileUpdate;
 
     try {
       const result = await this.userService.updateProfile(
         extractData.data.userId,
         toUpdate,
+        extractData.data.username,
       );
       extractData.ack();
       return result;
@@ -105,16 +213,303 @@ export class UserController {
   }
 
   @MessagePattern('get-all-profiles')
-  async getAllProfile(@Ctx() context: RmqContext) {
+  async getAllProfile(
+    @Ctx() context: RmqContext,
+  ): Promise<ProfilePage | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      query: ProfileQuery;
+    }>(context);
+    try {
+      const result = await this.userService.findAllProfile(
+        extractData.data.userId,
+        extractData.data.query,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('get-compatibility')
+  async getCompatibility(
+    @Ctx() context: RmqContext,
+  ): Promise<Compatibility | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      profileId: string;
+    }>(context);
+    try {
+      const result = await this.userService.getCompatibility(
+        extractData.data.userId,
+        extractData.data.profileId,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('get-profile-history')
+  async getProfileHistory(
+    @Ctx() context: RmqContext,
+  ): Promise<ProfileHistoryPage | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      query: ProfileHistoryQuery;
+    }>(context);
+    try {
+      const result = await this.profileHistoryService.list(
+        { userId: extractData.data.userId },
+        extractData.data.query,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('get-all-profile-history')
+  async getAllProfileHistory(
+    @Ctx() context: RmqContext,
+  ): Promise<ProfileHistoryPage | ErrorData | null> {
+    const extractData =
+      this.sharedService.extractData<ProfileHistoryQuery>(context);
+    try {
+      const query = extractData.data;
+      const result = await this.profileHistoryService.list(
+        query.profileId ? { profileId: query.profileId } : {},
+        query,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('get-onboarding')
+  async getOnboarding(
+    @Ctx() context: RmqContext,
+  ): Promise<OnboardingState | ErrorData | null> {
     const extractData = this.sharedService.extractData<string>(context);
     try {
-      const result = await this.userService.findAllProfile(extractData.data);
+      const result = await this.onboardingService.getState(extractData.data);
       extractData.ack();
       return result;
     } catch (error) {
       console.log(error);
       extractData.nack();
-      return [];
+      return null;
+    }
+  }
+
+  @MessagePattern('complete-onboarding')
+  async completeOnboarding(
+    @Ctx() context: RmqContext,
+  ): Promise<OnboardingState | ErrorData | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.onboardingService.complete(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('get-profile-photos')
+  async getProfilePhotos(
+    @Ctx() context: RmqContext,
+  ): Promise<ProfileGallery | ErrorData | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.profilePhotoService.getGallery(
+        extractData.data,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('add-profile-photo')
+  async addProfilePhoto(
+    @Ctx() context: RmqContext,
+  ): Promise<ProfileGallery | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      fileId: string;
+    }>(context);
+    try {
+      const result = await this.profilePhotoService.add(
+        extractData.data.userId,
+        extractData.data.fileId,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('remove-profile-photo')
+  async removeProfilePhoto(
+    @Ctx() context: RmqContext,
+  ): Promise<ProfileGallery | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      fileId: string;
+    }>(context);
+    try {
+      const result = await this.profilePhotoService.remove(
+        extractData.data.userId,
+        extractData.data.fileId,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('reorder-profile-photos')
+  async reorderProfilePhotos(
+    @Ctx() context: RmqContext,
+  ): Promise<ProfileGallery | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      fileIds: string[];
+    }>(context);
+    try {
+      const result = await this.profilePhotoService.reorder(
+        extractData.data.userId,
+        extractData.data.fileIds,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('set-primary-profile-photo')
+  async setPrimaryProfilePhoto(
+    @Ctx() context: RmqContext,
+  ): Promise<ProfileGallery | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      fileId: string;
+    }>(context);
+    try {
+      const result = await this.profilePhotoService.setPrimary(
+        extractData.data.userId,
+        extractData.data.fileId,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('suggest-interests')
+  async suggestInterests(
+    @Ctx() context: RmqContext,
+  ): Promise<InterestInfo[] | null> {
+    const extractData = this.sharedService.extractData<InterestQuery>(context);
+    try {
+      const result = await this.interestService.suggest(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('resolve-interests')
+  async resolveInterests(
+    @Ctx() context: RmqContext,
+  ): Promise<InterestResolution | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      interests: string[];
+    }>(context);
+    try {
+      const result = await this.interestService.resolve(
+        extractData.data.userId,
+        extractData.data.interests,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('get-pending-interests')
+  async getPendingInterests(
+    @Ctx() context: RmqContext,
+  ): Promise<PendingInterest[] | null> {
+    const extractData = this.sharedService.extractData<unknown>(context);
+    try {
+      const result = await this.interestService.listPending();
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('review-interest')
+  async reviewInterest(
+    @Ctx() context: RmqContext,
+  ): Promise<InterestInfo | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      slug: string;
+      review: ReviewInterest;
+    }>(context);
+    try {
+      const result = await this.interestService.review(
+        extractData.data.slug,
+        extractData.data.review,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
     }
   }
 
@@ -149,6 +544,134 @@ export class UserController {
     }
   }
 
+  @MessagePattern('set-user-roles')
+  async setRoles(
+    @Ctx() context: RmqContext,
+  ): Promise<Role[] | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      roles: Role[];
+    }>(context);
+    try {
+      const result = await this.userService.setRoles(
+        extractData.data.userId,
+        extractData.data.roles,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('schedule-account-deletion')
+  async scheduleAccountDeletion(
+    @Ctx() context: RmqContext,
+  ): Promise<AccountDeletion | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.accountDeletionService.schedule(
+        extractData.data,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('cancel-account-deletion')
+  async cancelAccountDeletion(
+    @Ctx() context: RmqContext,
+  ): Promise<boolean | ErrorData> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.accountDeletionService.cancel(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return false;
+    }
+  }
+
+  @MessagePattern('request-data-export')
+  async requestDataExport(
+    @Ctx() context: RmqContext,
+  ): Promise<DataExportInfo | ErrorData | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.dataExportService.request(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('get-data-export')
+  async getDataExport(
+    @Ctx() context: RmqContext,
+  ): Promise<DataExportInfo | ErrorData | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.dataExportService.getLatest(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('mark-email-verified')
+  async markEmailVerified(@Ctx() context: RmqContext): Promise<boolean> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      email: string;
+    }>(context);
+    try {
+      const result = await this.userService.markEmailVerified(
+        extractData.data.userId,
+        extractData.data.email,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return false;
+    }
+  }
+
+  @MessagePattern('mark-verification-sent')
+  async markVerificationSent(@Ctx() context: RmqContext): Promise<boolean> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      cooldownMs: number;
+    }>(context);
+    try {
+      const result = await this.userService.markVerificationSent(
+        extractData.data.userId,
+        extractData.data.cooldownMs,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return false;
+    }
+  }
+
   @MessagePattern('is-userid-exist')
   async isUserIdExist(@Ctx() context: RmqContext) {
     const extractData = this.sharedService.extractData<string>(context);
@@ -163,11 +686,33 @@ export class UserController {
     }
   }
 
+  @MessagePattern('change-username')
+  async changeUsername(
+    @Ctx() context: RmqContext,
+  ): Promise<UsernameChange | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      username: string;
+    }>(context);
+    try {
+      const result = await this.usernameService.change(
+        extractData.data.userId,
+        extractData.data.username,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
   @MessagePattern('is-username-exist')
   async isUsernameExist(@Ctx() context: RmqContext) {
     const extractData = this.sharedService.extractData<string>(context);
     try {
-      const result = await this.userService.isUsernameExist(extractData.data);
+      const result = await this.usernameService.isTaken(extractData.data);
       extractData.ack();
       return result;
     } catch (error) {
@@ -176,4 +721,202 @@ export class UserController {
       return false;
     }
   }
+
+  @MessagePattern('get-blocks')
+  async getBlocks(
+    @Ctx() context: RmqContext,
+  ): Promise<BlockedProfile[] | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.blockService.list(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('block-profile')
+  async blockProfile(
+    @Ctx() context: RmqContext,
+  ): Promise<BlockedProfile | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      profileId: string;
+    }>(context);
+    try {
+      const result = await this.blockService.block(
+        extractData.data.userId,
+        extractData.data.profileId,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('unblock-profile')
+  async unblockProfile(@Ctx() context: RmqContext): Promise<boolean | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      profileId: string;
+    }>(context);
+    try {
+      const result = await this.blockService.unblock(
+        extractData.data.userId,
+        extractData.data.profileId,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  /**
+   * Profile ids the user blocked or was blocked by. Resolves to null when
+   * they can't be looked up, so callers don't mistake that for no blocks.
+   */
+  @MessagePattern('find-blocked-profile-ids')
+  async findBlockedProfileIds(
+    @Ctx() context: RmqContext,
+  ): Promise<string[] | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.blockService.findBlockedProfileIds(
+        extractData.data,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('swipe-profile')
+  async swipeProfile(
+    @Ctx() context: RmqContext,
+  ): Promise<SwipeResult | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      profileId: string;
+      action: SwipeAction;
+    }>(context);
+    try {
+      const result = await this.matchService.swipe(
+        extractData.data.userId,
+        extractData.data.profileId,
+        extractData.data.action,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('get-matches')
+  async getMatches(@Ctx() context: RmqContext): Promise<MatchInfo[] | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.matchService.list(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('find-matched-profile-ids')
+  async findMatchedProfileIds(
+    @Ctx() context: RmqContext,
+  ): Promise<MatchedProfiles | null> {
+    const extractData = this.sharedService.extractData<string>(context);
+    try {
+      const result = await this.matchService.findMatchedProfileIds(
+        extractData.data,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('create-report')
+  async createReport(
+    @Ctx() context: RmqContext,
+  ): Promise<ReportInfo | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      userId: string;
+      report: CreateReport;
+    }>(context);
+    try {
+      const result = await this.reportService.create(
+        extractData.data.userId,
+        extractData.data.report,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('get-reports')
+  async getReports(
+    @Ctx() context: RmqContext,
+  ): Promise<ReportPage | ErrorData | null> {
+    const extractData = this.sharedService.extractData<ReportQuery>(context);
+    try {
+      const result = await this.reportService.list(extractData.data);
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
+
+  @MessagePattern('review-report')
+  async reviewReport(
+    @Ctx() context: RmqContext,
+  ): Promise<ReportInfo | ErrorData | null> {
+    const extractData = this.sharedService.extractData<{
+      reviewerId: string;
+      reportId: string;
+      review: ReviewReport;
+    }>(context);
+    try {
+      const result = await this.reportService.review(
+        extractData.data.reviewerId,
+        extractData.data.reportId,
+        extractData.data.review,
+      );
+      extractData.ack();
+      return result;
+    } catch (error) {
+      console.log(error);
+      extractData.nack();
+      return null;
+    }
+  }
 }
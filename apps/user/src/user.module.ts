@@ -7,7 +7,25 @@ import { ClientProxyFactory, Transport } from '@nestjs/microservices';
 import { ProfileSchema } from './schemas/profile.schema';
 import { UserSchema } from './schemas/user.schema';
 import { SharedModule } from '@app/shared';
-import { ZodiacEnd } from './schemas/zodiac.schema';
+import { AccountPurgeSchema } from './schemas/account-purge.schema';
+import { AccountDeletionService } from './account-deletion.service';
+import { DataExportSchema } from './schemas/data-export.schema';
+import { DataExportService } from './data-export.service';
+import { ProfilePhotoService } from './profile-photo.service';
+import { UsernameReservationSchema } from './schemas/username-reservation.schema';
+import { UsernameService } from './username.service';
+import { BlockSchema } from './schemas/block.schema';
+import { BlockService } from './block.service';
+import { ReportSchema } from './schemas/report.schema';
+import { ReportService } from './report.service';
+import { SwipeSchema } from './schemas/swipe.schema';
+import { MatchSchema } from './schemas/match.schema';
+import { MatchService } from './match.service';
+import { InterestSchema } from './schemas/interest.schema';
+import { InterestService } from './interest.service';
+import { OnboardingService } from './onboarding.service';
+import { ProfileHistoryService } from './profile-history.service';
+import { ProfileChangeSchema } from './schemas/profile-change.schema';
 
 @Module({
   imports: [
@@ -24,12 +42,38 @@ import { ZodiacEnd } from './schemas/zodiac.schema';
     }),
     MongooseModule.forFeature([{ name: 'User', schema: UserSchema }]),
     MongooseModule.forFeature([{ name: 'Profile', schema: ProfileSchema }]),
-    MongooseModule.forFeature([{ name: 'ZodiacEnd', schema: ZodiacEnd }]),
+    MongooseModule.forFeature([
+      { name: 'AccountPurge', schema: AccountPurgeSchema },
+    ]),
+    MongooseModule.forFeature([
+      { name: 'DataExport', schema: DataExportSchema },
+    ]),
+    MongooseModule.forFeature([
+      { name: 'UsernameReservation', schema: UsernameReservationSchema },
+    ]),
+    MongooseModule.forFeature([{ name: 'Block', schema: BlockSchema }]),
+    MongooseModule.forFeature([{ name: 'Report', schema: ReportSchema }]),
+    MongooseModule.forFeature([{ name: 'Swipe', schema: SwipeSchema }]),
+    MongooseModule.forFeature([{ name: 'Match', schema: MatchSchema }]),
+    MongooseModule.forFeature([{ name: 'Interest', schema: InterestSchema }]),
+    MongooseModule.forFeature([
+      { name: 'ProfileChange', schema: ProfileChangeSchema },
+    ]),
     SharedModule,
   ],
   controllers: [UserController],
   providers: [
     UserService,
+    AccountDeletionService,
+    DataExportService,
+    ProfilePhotoService,
+    UsernameService,
+    BlockService,
+    ReportService,
+    MatchService,
+    InterestService,
+    OnboardingService,
+    ProfileHistoryService,
     {
       provide: 'USER_SERVICE',
       useFactory: (configService: ConfigService) => {
@@ -72,6 +116,48 @@ import { ZodiacEnd } from './schemas/zodiac.schema';
       },
       inject: [ConfigService],
     },
+    {
+      provide: 'CHAT_SERVICE',
+      useFactory: (configService: ConfigService) => {
+        const USER = configService.get('RABBITMQ_USER');
+        const PASSWORD = configService.get('RABBITMQ_PASS');
+        const HOST = configService.get('RABBITMQ_HOST');
+        const QUEUE = configService.get('RABBITMQ_CHAT_QUEUE');
+
+        return ClientProxyFactory.create({
+          transport: Transport.RMQ,
+          options: {
+            urls: [`amqp://${USER}:${PASSWORD}@${HOST}`],
+            queue: QUEUE,
+            queueOptions: {
+              durable: true,
+            },
+          },
+        });
+      },
+      inject: [ConfigService],
+    },
+    {
+      provide: 'GRIDFS_SERVICE',
+      useFactory: (configService: ConfigService) => {
+        const USER = configService.get('RABBITMQ_USER');
+        const PASSWORD = configService.get('RABBITMQ_PASS');
+        const HOST = configService.get('RABBITMQ_HOST');
+        const QUEUE = configService.get('RABBITMQ_GRIDFS_QUEUE');
+
+        return ClientProxyFactory.create({
+          transport: Transport.RMQ,
+          options: {
+            urls: [`amqp://${USER}:${PASSWORD}@${HOST}`],
+            queue: QUEUE,
+            queueOptions: {
+              durable: true,
+            },
+          },
+        });
+      },
+      inject: [ConfigService],
+    },
   ],
 })
 export class UserModule {}
@@ -1,10 +1,21 @@
 import { CreateUserDto } from '@app/shared/dto/create-user.dto';
 import { EmailAndUsernameDto } from '@app/shared/dto/email-username.dto';
 import { User } from '@app/shared/interfaces/user.interface';
-import { Inject, Injectable } from '@nestjs/common';
+import { Inject, Injectable, OnApplicationBootstrap } from '@nestjs/common';
 import { InjectModel } from '@nestjs/mongoose';
-import { Model } from 'mongoose';
-import { Profile } from './interfaces/profile.interface';
+import {
+  FilterQuery,
+  isValidObjectId,
+  Model,
+  PipelineStage,
+  Types,
+} from 'mongoose';
+import {
+  Profile,
+  ProfileDocument,
+  ProfileUpdate,
+  PublicProfile,
+} from './interfaces/profile.interface';
 import { CreateProfileDto } from './dto/create-profile.dto';
 import { ProfileAndUser } from '@app/shared/interfaces/profile-user.interface';
 import { HoroscopeZodiac } from '@app/shared/interfaces/horoscope-zodiac.interface';
@@ -13,26 +24,85 @@ import {
   HOROSCOPE_START_DATES,
   Horoscope,
 } from './enums/horoscope.enum';
-import { ZodiacEndDocument } from './interfaces/zodiac.interface';
-import { zodiacList } from './enums/zodiac.enum';
-import { zodiacEndList } from './constants/zodiac-end-init.constan';
-import { UpdateProfileDto } from 'apps/youapp-api/src/dto/update-profile.dto';
+import { getZodiac } from './lunar-new-year';
 import { UpdatePassword } from './dto/update-password.dto';
 import { ClientProxy } from '@nestjs/microservices';
 import { firstValueFrom } from 'rxjs';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import { getEmailVerificationPolicy } from '@app/shared/email-verification';
+import { ROLE, Role } from '@app/shared/enums/role.enum';
+import {
+  ProfilePage,
+  ProfileQuery,
+} from '@app/shared/interfaces/profile-query.interface';
+import {
+  buildCandidateStages,
+  buildCursorFilter,
+  buildDistanceFilter,
+  buildNearStages,
+  buildProfileFilter,
+  buildVisibilityFilter,
+  Cursor,
+  encodeCursor,
+  getProfileSort,
+  getQueriedPrivacyFields,
+  ProfileSortSpec,
+  readCursor,
+  toMongoSort,
+} from './profile-query';
+import { PROFILE_SORT } from '@app/shared/enums/profile-sort.enum';
+import { Compatibility } from '@app/shared/interfaces/compatibility.interface';
+import { scoreCompatibility } from './compatibility';
+import { normalizeUsername } from '@app/shared/username-policy';
+import {
+  DEFAULT_PROFILE_PAGE_SIZE,
+  MAX_COMPATIBILITY_CANDIDATES,
+  MAX_PROFILE_PAGE_SIZE,
+} from './constants/profile-query.constant';
+import { BlockService } from './block.service';
+import { MatchService } from './match.service';
+import { InterestService } from './interest.service';
+import { OnboardingService } from './onboarding.service';
+import { ProfileHistoryService } from './profile-history.service';
+import { UsernameService } from './username.service';
+import {
+  buildThrottle,
+  diffProfile,
+  getThrottleError,
+} from './profile-history';
+import { ONBOARDING_STEP } from '@app/shared/enums/onboarding.enum';
+import {
+  ProfileAudience,
+  redactProfile,
+  serializeProfile,
+} from '@app/shared/profile-serializer';
+import { Coordinates, getDistanceRange, roundDistance } from '@app/shared/geo';
 
 @Injectable()
-export class UserService {
+export class UserService implements OnApplicationBootstrap {
   constructor(
     @InjectModel('User') private readonly userModel: Model<User>,
     @InjectModel('Profile') private readonly profileModel: Model<Profile>,
-    @InjectModel('ZodiacEnd')
-    private readonly zodiacEndModel: Model<ZodiacEndDocument>,
     @Inject('AUTH_SERVICE') private readonly authService: ClientProxy,
+    private readonly blockService: BlockService,
+    private readonly matchService: MatchService,
+    private readonly interestService: InterestService,
+    private readonly onboardingService: OnboardingService,
+    private readonly profileHistoryService: ProfileHistoryService,
+    private readonly usernameService: UsernameService,
   ) {}
 
+  async onApplicationBootstrap(): Promise<void> {
+    await this.bootstrapAdmin().catch((error) => console.log(error));
+  }
+
   async create(createUserDto: CreateUserDto): Promise<string | undefined> {
-    const createdUser = new this.userModel(createUserDto);
+    // only what the user chose, never roles or account state
+    const createdUser = new this.userModel({
+      username: createUserDto.username,
+      email: createUserDto.email,
+      usernameKey: normalizeUsername(createUserDto.username),
+    });
     createdUser.password = await firstValueFrom(
       this.authService.send('hash-password', createUserDto.password),
     );
@@ -92,13 +162,280 @@ export class UserService {
     return this.userModel.findById(id).exec();
   }
 
-  async findAllProfile(userId: string): Promise<Profile[]> {
+  async findAllProfile(
+    userId: string,
+    query: ProfileQuery,
+  ): Promise<ProfilePage | ErrorData> {
+    if (getEmailVerificationPolicy() === 'discovery') {
+      const user = await this.userModel.findById(userId).exec();
+      if (!user?.emailVerified) {
+        return {
+          statusCode: 2011,
+          error: 'Email is not verified',
+        };
+      }
+    }
+    const sort = getProfileSort(query);
+    const cursor = query.cursor ? readCursor(sort, query.cursor) : undefined;
+    if (cursor === null) {
+      return {
+        statusCode: 1012,
+        error: 'Invalid cursor',
+      };
+    }
     const profile = await this.profileModel.findOne({ userId }).exec();
-    if (!profile) return [];
-    const profiles = await this.profileModel
-      .find({ _id: { $ne: profile._id } })
+    if (!profile) return { profiles: [], total: 0, nextCursor: null };
+    const origin = profile.location?.point?.coordinates;
+    const isByDistance =
+      query.maxDistance !== undefined || query.sort === PROFILE_SORT.Distance;
+    if (isByDistance && origin?.length !== 2) {
+      return {
+        statusCode: 1030,
+        error: 'Set your location to search by distance',
+      };
+    }
+    // accounts waiting for deletion are no longer discoverable
+    const [leavingUserIds, blockedUserIds, { matchedProfileIds }] =
+      await Promise.all([
+        this.userModel
+          .find({ deletionScheduledAt: { $ne: null } })
+          .distinct('_id')
+          .exec(),
+        this.blockService.findBlockedUserIds(userId),
+        this.matchService.findMatchedProfileIds(userId),
+      ]);
+    const interests = query.interests?.length
+      ? await this.interestService.findSlugs(query.interests)
+      : query.interests;
+    const baseFilter = {
+      ...buildProfileFilter({ ...query, interests }),
+      ...buildVisibilityFilter(
+        getQueriedPrivacyFields(query),
+        matchedProfileIds,
+      ),
+      _id: { $ne: profile._id },
+      userId: {
+        $nin: [...leavingUserIds.map((id) => id.toString()), ...blockedUserIds],
+      },
+      onboardingStep: ONBOARDING_STEP.Done,
+    };
+    // everyone whose distance is shown as at most `maxDistance`
+    const maxKm =
+      query.maxDistance !== undefined
+        ? getDistanceRange(query.maxDistance)[1]
+        : undefined;
+    const filter = {
+      ...baseFilter,
+      ...(maxKm !== undefined ? buildDistanceFilter(origin, maxKm) : {}),
+    };
+    const limit = Math.min(
+      query.limit ?? DEFAULT_PROFILE_PAGE_SIZE,
+      MAX_PROFILE_PAGE_SIZE,
+    );
+    const audienceOf = (other: ProfileDocument): ProfileAudience =>
+      matchedProfileIds.includes(other._id.toString()) ? 'match' : 'public';
+    const serialize = (other: ProfileDocument) =>
+      serializeProfile(other, audienceOf(other), {
+        units: profile.units,
+        origin,
+      });
+    if (query.sort === PROFILE_SORT.Compatibility) {
+      return this.findRanked(
+        buildCandidateStages(
+          profile,
+          filter,
+          matchedProfileIds,
+          MAX_COMPATIBILITY_CANDIDATES,
+        ),
+        sort,
+        cursor,
+        limit,
+        (candidate) =>
+          scoreCompatibility(
+            profile,
+            redactProfile(candidate, audienceOf(candidate)),
+          ).score,
+        serialize,
+      );
+    }
+    if (query.sort === PROFILE_SORT.Distance) {
+      return this.findNearest(
+        baseFilter,
+        query.maxDistance !== undefined
+          ? filter
+          : { ...filter, 'location.point': { $exists: true } },
+        sort,
+        cursor,
+        limit,
+        origin,
+        maxKm,
+        serialize,
+      );
+    }
+    const cursorFilter = cursor ? buildCursorFilter(sort, cursor) : {};
+    const [profiles, total] = await Promise.all([
+      this.profileModel
+        .find({ $and: [filter, cursorFilter] })
+        .sort(toMongoSort(sort))
+        .limit(limit + 1)
+        .exec(),
+      this.profileModel.countDocuments(filter).exec(),
+    ]);
+    const hasMore = profiles.length > limit;
+    const page = profiles.slice(0, limit);
+    return {
+      profiles: page.map(serialize),
+      total,
+      nextCursor: hasMore ? encodeCursor(sort, page[page.length - 1]) : null,
+    };
+  }
+
+  async getCompatibility(
+    userId: string,
+    profileId: string,
+  ): Promise<Compatibility | ErrorData> {
+    const [profile, other] = await Promise.all([
+      this.profileModel.findOne({ userId }).exec(),
+      isValidObjectId(profileId)
+        ? this.profileModel.findById(profileId).exec()
+        : null,
+    ]);
+    if (
+      !profile ||
+      !other ||
+      (await this.blockService.isBlocked(userId, other.userId))
+    ) {
+      return {
+        statusCode: 1000,
+        error: 'Profile not found',
+      };
+    }
+    if (other.userId === userId) return scoreCompatibility(profile, other);
+    const { matchedProfileIds } =
+      await this.matchService.findMatchedProfileIds(userId);
+    // the score mustn't give away what the other one hides
+    return scoreCompatibility(
+      profile,
+      redactProfile(
+        other,
+        matchedProfileIds.includes(profileId) ? 'match' : 'public',
+      ),
+    );
+  }
+
+  /**
+   * Ranked on the rounded distance and then `_id`, so the cursor tells no
+   * more than the distances shown. The 2dsphere index finds the next
+   * profiles outwards from the cursor; only the band of distances the page
+   * ends in is read in full, to order it by `_id`.
+   */
+  private async findNearest(
+    filter: FilterQuery<Profile>,
+    countFilter: FilterQuery<Profile>,
+    sort: ProfileSortSpec,
+    cursor: Cursor | undefined,
+    limit: number,
+    origin: Coordinates,
+    maxKm: number | undefined,
+    serialize: (candidate: ProfileDocument) => PublicProfile,
+  ): Promise<ProfilePage> {
+    const near = async (stages: PipelineStage[]) => {
+      const found: (Profile & { _id: Types.ObjectId; distance: number })[] =
+        await this.profileModel.aggregate(stages).exec();
+      return found.map(({ distance, ...candidate }) => ({
+        candidate: this.profileModel.hydrate(candidate),
+        id: candidate._id.toString(),
+        score: roundDistance(distance / 1000),
+      }));
+    };
+    const [from] = cursor ? getDistanceRange(Number(cursor.value)) : [0];
+    const [found, total] = await Promise.all([
+      near([
+        ...buildNearStages(origin, filter, from, maxKm, cursor),
+        { $limit: limit + 1 },
+      ]),
+      this.profileModel.countDocuments(countFilter).exec(),
+    ]);
+    const byRank = (a: { score: number; id: string }, b: typeof a) =>
+      a.score - b.score || a.id.localeCompare(b.id);
+    let ranked = [...found].sort(byRank);
+    if (found.length > limit) {
+      // the last band may go on past what was read
+      const score = found[found.length - 1].score;
+      const [bandFrom, bandTo] = getDistanceRange(score);
+      const before = ranked.filter((profile) => profile.score < score);
+      const band = await near([
+        ...buildNearStages(
+          origin,
+          filter,
+          bandFrom,
+          Math.min(bandTo, maxKm ?? bandTo),
+          Number(cursor?.value) === score ? cursor : undefined,
+        ),
+        { $match: { distance: { $lt: bandTo * 1000 } } },
+        { $sort: { _id: 1 } },
+        { $limit: limit + 1 - before.length },
+      ]);
+      ranked = [...before, ...band];
+    }
+    const page = ranked.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      profiles: page.map(({ candidate }) => serialize(candidate)),
+      total,
+      nextCursor:
+        ranked.length > limit
+          ? encodeCursor(sort, last.candidate, last.score)
+          : null,
+    };
+  }
+
+  /**
+   * Compatibility scores aren't stored, so the candidates `stages` pick are
+   * ranked and sorted here. Profiles are ranked on what the viewer may see
+   * of them, and ties are broken by `_id` like the other sorts.
+   */
+  private async findRanked(
+    stages: PipelineStage[],
+    sort: ProfileSortSpec,
+    cursor: Cursor | undefined,
+    limit: number,
+    rank: (candidate: ProfileDocument) => number,
+    serialize: (candidate: ProfileDocument) => PublicProfile,
+  ): Promise<ProfilePage> {
+    const candidates: Profile[] = await this.profileModel
+      .aggregate(stages)
       .exec();
-    return profiles;
+    const ranked = candidates
+      .map((found) => this.profileModel.hydrate(found))
+      .map((candidate) => ({
+        candidate,
+        id: candidate._id.toString(),
+        score: rank(candidate),
+      }))
+      .sort(
+        (a, b) =>
+          (a.score - b.score || a.id.localeCompare(b.id)) * sort.direction,
+      );
+    const start = cursor
+      ? ranked.findIndex(
+          ({ score, id }) =>
+            (score - Number(cursor.value) || id.localeCompare(cursor.id)) *
+              sort.direction >
+            0,
+        )
+      : 0;
+    const rest = start === -1 ? [] : ranked.slice(start);
+    const page = rest.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      profiles: page.map(({ candidate }) => serialize(candidate)),
+      total: ranked.length,
+      nextCursor:
+        rest.length > limit
+          ? encodeCursor(sort, last.candidate, last.score)
+          : null,
+    };
   }
 
   async getProfileAndUser(userId: string): Promise<ProfileAndUser | null> {
@@ -119,6 +456,92 @@ export class UserService {
     return result.modifiedCount === 1;
   }
 
+  async markEmailVerified(userId: string, email: string): Promise<boolean> {
+    const result = await this.userModel.updateOne(
+      { _id: userId, email },
+      { emailVerified: true, emailVerifiedAt: new Date() },
+    );
+    if (result.acknowledged === false) return false;
+    if (result.matchedCount !== 1) return false;
+    await this.bootstrapAdmin();
+    return true;
+  }
+
+  /**
+   * Replace the roles of a user. Everyone keeps the `user` role, and the last
+   * admin can't lose the admin role so the app can't be locked out of its
+   * admin endpoints.
+   */
+  async setRoles(userId: string, roles: Role[]): Promise<Role[] | ErrorData> {
+    const user = isValidObjectId(userId)
+      ? await this.userModel.findById(userId).exec()
+      : null;
+    if (!user) {
+      return {
+        statusCode: 1007,
+        error: 'User not found',
+      };
+    }
+    const nextRoles = [...new Set<Role>([ROLE.User, ...roles])];
+    if (user.roles?.includes(ROLE.Admin) && !nextRoles.includes(ROLE.Admin)) {
+      const adminCount = await this.userModel
+        .countDocuments({ roles: ROLE.Admin })
+        .exec();
+      if (adminCount <= 1) {
+        return {
+          statusCode: 1008,
+          error: 'The last admin can not lose the admin role',
+        };
+      }
+    }
+    await this.userModel.updateOne({ _id: userId }, { roles: nextRoles });
+    return nextRoles;
+  }
+
+  /**
+   * Make the account with `BOOTSTRAP_ADMIN_EMAIL` an admin as long as there
+   * is no admin yet. Only a verified email counts, otherwise whoever
+   * registers the address first would become admin.
+   */
+  private async bootstrapAdmin(): Promise<void> {
+    const email = process.env.BOOTSTRAP_ADMIN_EMAIL;
+    if (!email) return;
+    const admin = await this.userModel.exists({ roles: ROLE.Admin }).exec();
+    if (admin) return;
+    const result = await this.userModel.updateOne(
+      { email, emailVerified: true },
+      { $addToSet: { roles: ROLE.Admin } },
+    );
+    if (result.modifiedCount === 1) {
+      console.log(`Granted the admin role to ${email}`);
+    }
+  }
+
+  /**
+   * Record that a verification mail is about to be sent. Resolves to false
+   * while the previous one is younger than `cooldownMs`.
+   */
+  async markVerificationSent(
+    userId: string,
+    cooldownMs: number,
+  ): Promise<boolean> {
+    const now = new Date();
+    const result = await this.userModel.updateOne(
+      {
+        _id: userId,
+        $or: [
+          { verificationSentAt: null },
+          {
+            verificationSentAt: { $lte: new Date(now.getTime() - cooldownMs) },
+          },
+        ],
+      },
+      { verificationSentAt: now },
+    );
+    if (result.acknowledged === false) return false;
+    return result.modifiedCount === 1;
+  }
+
   async isUserIdExist(userId: string): Promise<boolean> {
     const result = await this.userModel.findById(userId).exec();
     return result !== null;
@@ -141,49 +564,71 @@ export class UserService {
     return HOROSCOPE.Capricorn;
   }
 
-  private async getZodiac(data: string): Promise<string | undefined> {
-    const dob = new Date(data);
-    const startDate = new Date('1912-02-18');
-    let dbList = await this.zodiacEndModel.find();
-    if (dbList.length === 0) {
-      const zodiacEnd = new this.zodiacEndModel({ data: zodiacEndList });
-      await zodiacEnd.save();
-    }
-    dbList = await this.zodiacEndModel.find();
-    const endDateList = dbList[0].data;
-    let deltaYear = dob.getFullYear() - startDate.getFullYear();
-    const endDate = new Date(endDateList[endDateList.length - deltaYear]);
-    const offset = dob.getTime() < endDate.getTime() ? 0 : 1;
-    deltaYear += offset;
-    const zodiacIndex = deltaYear % 12;
-    const result = zodiacList.at(zodiacIndex);
-    if (!result) return '';
-    return result;
-  }
-
   async getHoroscopeZodiac(birthday: string): Promise<HoroscopeZodiac | null> {
-    const [horoscope, zodiac] = await Promise.all([
-      this.getHoroscope(birthday),
-      this.getZodiac(birthday),
-    ]);
-    if (!horoscope || !zodiac) return null;
-    return { horoscope, zodiac };
+    const horoscope = await this.getHoroscope(birthday);
+    if (!horoscope) return null;
+    return { horoscope, zodiac: getZodiac(birthday) };
   }
 
+  /**
+   * Apply the changes and add them to the profile history, unless they
+   * touch a field that changed too often lately. A new username is only
+   * taken once the rest of the update has been accepted.
+   */
   async updateProfile(
     userId: string,
-    updateProfileDto: UpdateProfileDto,
-  ): Promise<boolean> {
+    updateProfileDto: ProfileUpdate,
+    username?: string,
+  ): Promise<boolean | ErrorData> {
+    const profile = await this.profileModel
+      .findOne({ userId: String(userId) })
+      .exec();
+    if (!profile) return false;
+    const now = new Date();
+    const changes = diffProfile(profile.toObject(), updateProfileDto);
+    const throttled = getThrottleError(profile.throttledChanges, changes, now);
+    if (throttled) return throttled;
+    if (username !== undefined) {
+      const refused = await this.usernameService.check(
+        String(userId),
+        username,
+      );
+      if (refused) return refused;
+    }
+    // the username is only changed once the rest of the profile is saved
+    const changeUsername = async (): Promise<ErrorData | null> => {
+      if (username === undefined) return null;
+      const change = await this.usernameService.change(
+        String(userId),
+        username,
+      );
+      return (change as ErrorData).statusCode ? (change as ErrorData) : null;
+    };
+    if (Object.keys(updateProfileDto).length === 0) {
+      return (await changeUsername()) ?? true;
+    }
+    // checked again as part of the update, in case of concurrent changes
+    const throttle = buildThrottle(changes, now);
     const result = await this.profileModel.updateOne(
-      { userId: String(userId) },
-      updateProfileDto,
+      { _id: profile._id, ...throttle.filter },
+      { ...updateProfileDto, ...throttle.update },
     );
     if (result.acknowledged === false) return false;
+    if (result.matchedCount === 0) {
+      const current = await this.profileModel.findById(profile._id).exec();
+      return getThrottleError(current?.throttledChanges, changes, now) ?? false;
+    }
+    const usernameError = await changeUsername();
+    if (usernameError) return usernameError;
+    if (result.modifiedCount === 1) {
+      await this.profileHistoryService.record(
+        String(userId),
+        profile._id.toString(),
+        String(userId),
+        changes,
+      );
+    }
+    await this.onboardingService.advance(String(userId));
     return result.modifiedCount === 1;
   }
-
-  async isUsernameExist(username: string): Promise<boolean> {
-    const result = await this.userModel.findOne({ username }).exec();
-    return result !== null;
-  }
 }
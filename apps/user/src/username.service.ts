@@ -0,0 +1,204 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { isValidObjectId, Model } from 'mongoose';
+import { User } from '@app/shared/interfaces/user.interface';
+import { ErrorData } from '@app/shared/interfaces/error-data.interface';
+import { UsernameChange } from '@app/shared/interfaces/username.interface';
+import { checkUsername, normalizeUsername } from '@app/shared/username-policy';
+import { UsernameReservation } from './interfaces/username-reservation.interface';
+import {
+  DEFAULT_USERNAME_CHANGE_COOLDOWN_MS,
+  DEFAULT_USERNAME_RESERVATION_MS,
+} from './constants/username.constant';
+
+/**
+ * @description
+ * Usernames are unique regardless of case through the unique `usernameKey`
+ * index. A user can change theirs once per `USERNAME_CHANGE_COOLDOWN_MS`;
+ * the old one stays reserved for them for `USERNAME_RESERVATION_MS`.
+ * Changing only the case is always allowed.
+ */
+@Injectable()
+export class UsernameService implements OnApplicationBootstrap {
+  private readonly cooldownMs =
+    Number(process.env.USERNAME_CHANGE_COOLDOWN_MS) ||
+    DEFAULT_USERNAME_CHANGE_COOLDOWN_MS;
+  private readonly reservationMs =
+    Number(process.env.USERNAME_RESERVATION_MS) ||
+    DEFAULT_USERNAME_RESERVATION_MS;
+
+  constructor(
+    @InjectModel('User') private readonly userModel: Model<User>,
+    @InjectModel('UsernameReservation')
+    private readonly usernameReservationModel: Model<UsernameReservation>,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.backfillKeys().catch((error) => console.log(error));
+  }
+
+  /**
+   * Whether the username belongs or is reserved to someone other than
+   * `userId`.
+   */
+  async isTaken(username: string, userId?: string): Promise<boolean> {
+    const usernameKey = normalizeUsername(username);
+    const [user, reservation] = await Promise.all([
+      this.userModel
+        .findOne({
+          $or: [{ usernameKey }, { username }],
+          ...(userId ? { _id: { $ne: userId } } : {}),
+        })
+        .exec(),
+      this.usernameReservationModel
+        .findOne({
+          usernameKey,
+          expiresAt: { $gt: new Date() },
+          ...(userId ? { userId: { $ne: userId } } : {}),
+        })
+        .exec(),
+    ]);
+    return user !== null || reservation !== null;
+  }
+
+  /**
+   * Why `userId` can't change their username to `username` right now, null
+   * when they can. Nothing is written.
+   */
+  async check(userId: string, username: string): Promise<ErrorData | null> {
+    const prepared = await this.prepare(userId, username);
+    return 'statusCode' in prepared ? prepared : null;
+  }
+
+  async change(
+    userId: string,
+    username: string,
+  ): Promise<UsernameChange | ErrorData> {
+    const prepared = await this.prepare(userId, username);
+    if ('statusCode' in prepared) return prepared;
+    const { user, nextUsername, now } = prepared;
+    if (user.username === nextUsername) return this.toChange(user);
+
+    const usernameKey = normalizeUsername(nextUsername);
+    const previousKey = user.usernameKey ?? normalizeUsername(user.username);
+    const isCaseChange = usernameKey === previousKey;
+    if (!isCaseChange) {
+      // hold on to the old name before letting go of it
+      await this.usernameReservationModel.updateOne(
+        { usernameKey: previousKey },
+        {
+          username: user.username,
+          userId,
+          expiresAt: new Date(now + this.reservationMs),
+        },
+        { upsert: true },
+      );
+    }
+
+    try {
+      const result = await this.userModel.updateOne(
+        { _id: userId, username: user.username },
+        {
+          username: nextUsername,
+          usernameKey,
+          ...(isCaseChange ? {} : { usernameChangedAt: new Date(now) }),
+          $push: {
+            usernameHistory: {
+              username: user.username,
+              changedAt: new Date(now),
+            },
+          },
+        },
+      );
+      if (result.matchedCount === 0) {
+        throw new Error(`Username of ${userId} changed concurrently`);
+      }
+    } catch (error) {
+      if ((error as { code?: number }).code === 11000) return this.taken();
+      throw error;
+    }
+    if (!isCaseChange) {
+      await this.usernameReservationModel.deleteOne({ usernameKey, userId });
+    }
+    const updated = await this.userModel.findById(userId).exec();
+    return this.toChange(updated ?? user);
+  }
+
+  private async prepare(
+    userId: string,
+    username: string,
+  ): Promise<{ user: User; nextUsername: string; now: number } | ErrorData> {
+    const nextUsername = username.trim();
+    const violations = checkUsername(nextUsername);
+    if (violations.length > 0) {
+      return {
+        statusCode: 1018,
+        error: `Username ${violations.join(', ')}`,
+      };
+    }
+    const user = isValidObjectId(userId)
+      ? await this.userModel.findById(userId).exec()
+      : null;
+    if (!user) {
+      return {
+        statusCode: 1007,
+        error: 'User not found',
+      };
+    }
+    const now = Date.now();
+    const isCaseChange =
+      normalizeUsername(nextUsername) ===
+      (user.usernameKey ?? normalizeUsername(user.username));
+    if (user.username !== nextUsername && !isCaseChange) {
+      const retryAfterMs =
+        (user.usernameChangedAt?.getTime() ?? 0) + this.cooldownMs - now;
+      if (retryAfterMs > 0) {
+        return {
+          statusCode: 1017,
+          error: 'The username was changed recently',
+          retryAfter: Math.ceil(retryAfterMs / 1000),
+        };
+      }
+      if (await this.isTaken(nextUsername, userId)) return this.taken();
+    }
+    return { user, nextUsername, now };
+  }
+
+  private toChange(user: User): UsernameChange {
+    return {
+      username: user.username,
+      changedAt: user.usernameChangedAt,
+      nextChangeAt: user.usernameChangedAt
+        ? new Date(user.usernameChangedAt.getTime() + this.cooldownMs)
+        : undefined,
+    };
+  }
+
+  private taken(): ErrorData {
+    return {
+      statusCode: 1019,
+      error: 'Username is taken',
+    };
+  }
+
+  /**
+   * Give users created before usernames were normalized their key. Names
+   * differing only in case can't both have one; those are logged and left
+   * for an admin.
+   */
+  private async backfillKeys(): Promise<void> {
+    const users = this.userModel
+      .find({ usernameKey: null, username: { $type: 'string' } })
+      .cursor();
+    for await (const user of users) {
+      await this.userModel
+        .updateOne(
+          { _id: user._id },
+          { usernameKey: normalizeUsername(user.username) },
+        )
+        .catch((error) =>
+          console.log(`Username of ${user._id} not normalized`, error),
+        );
+    }
+  }
+}
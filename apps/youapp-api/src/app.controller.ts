@@ -1,15 +1,19 @@
 import {
   Body,
   Controller,
+  Delete,
   Get,
   Inject,
+  Param,
   Post,
   Put,
+  Query,
   Req,
   Res,
   UseGuards,
+  ValidationPipe,
 } from '@nestjs/common';
-import { Response } from 'express';
+import { Request, Response } from 'express';
 import { CreateUserDto } from '@app/shared/dto/create-user.dto';
 import { ClientProxy } from '@nestjs/microservices';
 import { firstValueFrom } from 'rxjs';
@@ -17,16 +21,86 @@ import { ServerResponse } from './dto/server-response.dto';
 import { ErrorData } from '@app/shared/interfaces/error-data.interface';
 import { LoginUserDto } from '@app/shared/interfaces/login-user.interface';
 import { Jwt, JwtPayload } from 'apps/auth/src/interfaces/jwtToken.interface';
+import {
+  SessionInfo,
+  SessionMetadata,
+} from 'apps/auth/src/interfaces/session.interface';
 import { AuthRequest } from '@app/shared/types/auth-request.type';
-import { AuthGuard } from './auth-guard';
+import { AuthGuard } from '@app/shared/auth-guard';
+import { RolesGuard } from './roles-guard';
+import { Roles } from './roles.decorator';
+import { SetRolesDto } from './dto/set-roles.dto';
+import { ROLE, Role } from '@app/shared/enums/role.enum';
 import {
-  Profile,
-  ProfileDocument,
+  ProfileUpdate,
+  PublicProfile,
 } from 'apps/user/src/interfaces/profile.interface';
+import {
+  resolveGallery,
+  serializeProfile,
+} from '@app/shared/profile-serializer';
+import { toProfileLocation } from '@app/shared/geo';
+import {
+  MAX_HEIGHT_CM,
+  MAX_WEIGHT_KG,
+  MIN_HEIGHT_CM,
+  MIN_WEIGHT_KG,
+  toCentimeters,
+  toKilograms,
+} from '@app/shared/measurements';
 import { ProfileAndUser } from '@app/shared/interfaces/profile-user.interface';
 import { UpdateProfileDto } from './dto/update-profile.dto';
 import { HoroscopeZodiac } from '../../../libs/shared/src/interfaces/horoscope-zodiac.interface';
 import { BirthdayDto } from './dto/birthday.dto';
+import { EmailDto } from '@app/shared/dto/email.dto';
+import { ResetPasswordDto } from '@app/shared/dto/reset-password.dto';
+import { TokenDto } from '@app/shared/dto/token.dto';
+import { ChangePasswordDto } from '@app/shared/dto/change-password.dto';
+import { DeleteAccountDto } from '@app/shared/dto/delete-account.dto';
+import { AccountDeletion } from '@app/shared/interfaces/account-deletion.interface';
+import { DataExportInfo } from '@app/shared/interfaces/data-export.interface';
+import {
+  TwoFactorCodeDto,
+  TwoFactorLoginDto,
+} from '@app/shared/dto/two-factor.dto';
+import {
+  TwoFactorChallenge,
+  TwoFactorEnrolment,
+} from 'apps/auth/src/interfaces/two-factor.interface';
+import { ProfileQueryDto } from './dto/profile-query.dto';
+import { ProfilePage } from '@app/shared/interfaces/profile-query.interface';
+import { Compatibility } from '@app/shared/interfaces/compatibility.interface';
+import {
+  PhotoGallery,
+  ProfileGallery,
+} from '@app/shared/interfaces/profile-photo.interface';
+import { AddPhotoDto, PhotoOrderDto } from './dto/profile-photo.dto';
+import { ChangeUsernameDto } from './dto/username.dto';
+import { UsernameChange } from '@app/shared/interfaces/username.interface';
+import { BlockedProfile } from '@app/shared/interfaces/block.interface';
+import { MatchInfo, SwipeResult } from '@app/shared/interfaces/match.interface';
+import { SWIPE_ACTION, SwipeAction } from '@app/shared/enums/swipe.enum';
+import {
+  InterestInfo,
+  InterestResolution,
+  PendingInterest,
+} from '@app/shared/interfaces/interest.interface';
+import { InterestQueryDto, ReviewInterestDto } from './dto/interest.dto';
+import { OnboardingState } from '@app/shared/interfaces/onboarding.interface';
+import { ProfileHistoryPage } from '@app/shared/interfaces/profile-history.interface';
+import {
+  AdminProfileHistoryQueryDto,
+  ProfileHistoryQueryDto,
+} from './dto/profile-history.dto';
+import {
+  ReportInfo,
+  ReportPage,
+} from '@app/shared/interfaces/report.interface';
+import {
+  CreateReportDto,
+  ReportQueryDto,
+  ReviewReportDto,
+} from './dto/report.dto';
 
 @Controller('api')
 export class AppController {
@@ -38,7 +112,7 @@ export class AppController {
   @Post('register')
   async register(
     @Res() res: Response,
-    @Body() createUserDto: CreateUserDto,
+    @Body(new ValidationPipe({ whitelist: true })) createUserDto: CreateUserDto,
   ): Promise<Response> {
     const result: boolean | ErrorData = await firstValueFrom(
       this.authService.send('register', createUserDto),
@@ -48,6 +122,7 @@ export class AppController {
         res,
         (result as ErrorData).statusCode,
         (result as ErrorData).error,
+        (result as ErrorData).statusCode === 1018 ? 400 : 500,
       );
     } else {
       return res.status(201).send();
@@ -56,21 +131,140 @@ export class AppController {
 
   @Post('login')
   async login(
+    @Req() req: Request,
     @Res() res: Response,
     @Body() loginUserDto: LoginUserDto,
   ): Promise<Response> {
-    const jwt = await firstValueFrom(
-      this.authService.send('login', loginUserDto),
-    );
+    const jwt: Jwt | TwoFactorChallenge | ErrorData | null =
+      await firstValueFrom(
+        this.authService.send('login', {
+          ...loginUserDto,
+          ...this.getSessionMetadata(req),
+        } as LoginUserDto & SessionMetadata),
+      );
+    if (jwt && (jwt as ErrorData).statusCode) {
+      return this.buildLoginErrorResponse(res, jwt as ErrorData, 403);
+    }
+    if (jwt && (jwt as TwoFactorChallenge).twoFactorRequired) {
+      return res.status(200).json({
+        isOk: true,
+        message: 'Two-factor code required',
+        data: jwt as TwoFactorChallenge,
+      } satisfies ServerResponse<TwoFactorChallenge>);
+    }
     const isJwtValid = jwt !== null;
     return res.status(!jwt ? 400 : 200).json({
       isOk: isJwtValid,
       message: !isJwtValid ? 'Invalid username, email or password' : undefined,
       errorCode: !isJwtValid ? 2004 : undefined,
-      data: !isJwtValid ? undefined : jwt,
+      data: !isJwtValid ? undefined : (jwt as Jwt),
+    } satisfies ServerResponse<Jwt>);
+  }
+
+  @Post('login/2fa')
+  async loginTwoFactor(
+    @Req() req: Request,
+    @Res() res: Response,
+    @Body(ValidationPipe) twoFactorLoginDto: TwoFactorLoginDto,
+  ): Promise<Response> {
+    const jwt: Jwt | ErrorData | null = await firstValueFrom(
+      this.authService.send('login-2fa', {
+        ...twoFactorLoginDto,
+        ...this.getSessionMetadata(req),
+      } as TwoFactorLoginDto & SessionMetadata),
+    );
+    if (!jwt || (jwt as ErrorData).statusCode) {
+      return this.buildLoginErrorResponse(
+        res,
+        (jwt as ErrorData) ?? {
+          statusCode: 2014,
+          error: 'Invalid two-factor code',
+        },
+        401,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: jwt as Jwt,
     } satisfies ServerResponse<Jwt>);
   }
 
+  @Post('2fa/enroll')
+  @UseGuards(AuthGuard)
+  async enrollTwoFactor(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const result: TwoFactorEnrolment | ErrorData | null = await firstValueFrom(
+      this.authService.send('enroll-2fa', req.payload.sub),
+    );
+    if (!result || (result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData)?.statusCode ?? 2017,
+        (result as ErrorData)?.error ?? 'Two-factor enrolment failed',
+        result ? 409 : 500,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as TwoFactorEnrolment,
+    } satisfies ServerResponse<TwoFactorEnrolment>);
+  }
+
+  @Post('2fa/confirm')
+  @UseGuards(AuthGuard)
+  async confirmTwoFactor(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Body(ValidationPipe) twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<Response> {
+    const result: string[] | ErrorData | null = await firstValueFrom(
+      this.authService.send('confirm-2fa', {
+        userId: req.payload.sub,
+        code: twoFactorCodeDto.code,
+      }),
+    );
+    if (!result || (result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData)?.statusCode ?? 2017,
+        (result as ErrorData)?.error ?? 'Two-factor enrolment failed',
+        result ? 400 : 500,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: { recoveryCodes: result as string[] },
+    } satisfies ServerResponse<{ recoveryCodes: string[] }>);
+  }
+
+  @Post('2fa/disable')
+  @UseGuards(AuthGuard)
+  async disableTwoFactor(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Body(ValidationPipe) twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<Response> {
+    const result: boolean | ErrorData = await firstValueFrom(
+      this.authService.send('disable-2fa', {
+        userId: req.payload.sub,
+        code: twoFactorCodeDto.code,
+      }),
+    );
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        400,
+      );
+    }
+    return res.status(result ? 200 : 500).json({
+      isOk: result === true,
+    } satisfies ServerResponse<unknown>);
+  }
+
   @Get('getProfile')
   @UseGuards(AuthGuard)
   async getProfile(
@@ -81,50 +275,257 @@ export class AppController {
     const { profile, user }: ProfileAndUser = await firstValueFrom(
       this.userService.send('get-profile-and-user', jwtPayload.sub),
     );
-    const response: ServerResponse<Profile> = {
+    const response: ServerResponse<PublicProfile> = {
       isOk: profile !== null && user !== null,
       ...(profile === null || user === null
         ? {
             errorCode: 1000,
             message: `Profile not found`,
           }
-        : { data: this.sanitizeProfile(profile, user?.username) }),
+        : {
+            data: serializeProfile(profile, 'self', {
+              username: user.username,
+              units: profile.units,
+            }),
+          }),
     };
     return res.status(profile === null ? 404 : 201).json(response);
   }
 
+  @Get('profile/history')
+  @UseGuards(AuthGuard)
+  async getProfileHistory(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Query(new ValidationPipe({ transform: true }))
+    query: ProfileHistoryQueryDto,
+  ): Promise<Response> {
+    const result: ProfileHistoryPage | ErrorData | null = await firstValueFrom(
+      this.userService.send('get-profile-history', {
+        userId: req.payload.sub,
+        query,
+      }),
+    );
+    return this.buildProfileHistoryResponse(res, result);
+  }
+
+  @Get('onboarding')
+  @UseGuards(AuthGuard)
+  async getOnboarding(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const result: OnboardingState | ErrorData | null = await firstValueFrom(
+      this.userService.send('get-onboarding', req.payload.sub),
+    );
+    return this.buildOnboardingResponse(res, result);
+  }
+
+  @Post('onboarding/complete')
+  @UseGuards(AuthGuard)
+  async completeOnboarding(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const result: OnboardingState | ErrorData | null = await firstValueFrom(
+      this.userService.send('complete-onboarding', req.payload.sub),
+    );
+    return this.buildOnboardingResponse(res, result);
+  }
+
+  @Get('profile/photos')
+  @UseGuards(AuthGuard)
+  async getProfilePhotos(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const result: ProfileGallery | ErrorData | null = await firstValueFrom(
+      this.userService.send('get-profile-photos', req.payload.sub),
+    );
+    return this.buildGalleryResponse(res, result, 200);
+  }
+
+  @Post('profile/photos')
+  @UseGuards(AuthGuard)
+  async addProfilePhoto(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Body(ValidationPipe) addPhotoDto: AddPhotoDto,
+  ): Promise<Response> {
+    const result: ProfileGallery | ErrorData | null = await firstValueFrom(
+      this.userService.send('add-profile-photo', {
+        userId: req.payload.sub,
+        fileId: addPhotoDto.fileId,
+      }),
+    );
+    return this.buildGalleryResponse(res, result, 201);
+  }
+
+  @Put('profile/photos/order')
+  @UseGuards(AuthGuard)
+  async reorderProfilePhotos(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Body(ValidationPipe) photoOrderDto: PhotoOrderDto,
+  ): Promise<Response> {
+    const result: ProfileGallery | ErrorData | null = await firstValueFrom(
+      this.userService.send('reorder-profile-photos', {
+        userId: req.payload.sub,
+        fileIds: photoOrderDto.fileIds,
+      }),
+    );
+    return this.buildGalleryResponse(res, result, 200);
+  }
+
+  @Put('profile/photos/:fileId/primary')
+  @UseGuards(AuthGuard)
+  async setPrimaryProfilePhoto(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Param('fileId') fileId: string,
+  ): Promise<Response> {
+    const result: ProfileGallery | ErrorData | null = await firstValueFrom(
+      this.userService.send('set-primary-profile-photo', {
+        userId: req.payload.sub,
+        fileId,
+      }),
+    );
+    return this.buildGalleryResponse(res, result, 200);
+  }
+
+  @Delete('profile/photos/:fileId')
+  @UseGuards(AuthGuard)
+  async removeProfilePhoto(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Param('fileId') fileId: string,
+  ): Promise<Response> {
+    const result: ProfileGallery | ErrorData | null = await firstValueFrom(
+      this.userService.send('remove-profile-photo', {
+        userId: req.payload.sub,
+        fileId,
+      }),
+    );
+    return this.buildGalleryResponse(res, result, 200);
+  }
+
   @Put('updateProfile')
   @UseGuards(AuthGuard)
   async update(
     @Req() req: AuthRequest,
     @Res() res: Response,
-    @Body() updateProfileDto: UpdateProfileDto,
+    @Body(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
+    updateProfileDto: UpdateProfileDto,
   ): Promise<Response> {
     const jwtPayload = req.payload;
-    let toupdate: UpdateProfileDto & HoroscopeZodiac = updateProfileDto;
-    if (Object.keys(toupdate).length === 0) return res.status(200).send();
-    if (updateProfileDto.birthday) {
-      if (!/^\d{4}-\d{2}-\d{2}$/.exec(updateProfileDto.birthday)) {
-        return res.status(400).json({
-          isOk: false,
-          errorCode: 1003,
-          message: 'Birthday is not in the format of YYYY-MM-DD',
-        });
+    const { username, height, weight, location, ...changes } = updateProfileDto;
+    if (
+      updateProfileDto.birthday &&
+      !/^\d{4}-\d{2}-\d{2}$/.exec(updateProfileDto.birthday)
+    ) {
+      return res.status(400).json({
+        isOk: false,
+        errorCode: 1003,
+        message: 'Birthday is not in the format of YYYY-MM-DD',
+      });
+    }
+    // heights and weights are stored metric whatever units they came in
+    const measurements: { heightInCm?: number; weightInKg?: number } = {};
+    if (height !== undefined || changes.heightInCm !== undefined) {
+      const heightInCm = toCentimeters(height ?? { cm: changes.heightInCm });
+      if (heightInCm === null) {
+        return this.buildErrorReponse(
+          res,
+          1026,
+          `Height must be given in cm or in ft and in, between ${MIN_HEIGHT_CM} and ${MAX_HEIGHT_CM} cm`,
+          400,
+        );
+      }
+      measurements.heightInCm = heightInCm;
+    }
+    if (weight !== undefined || changes.weightInKg !== undefined) {
+      const weightInKg = toKilograms(weight ?? { kg: changes.weightInKg });
+      if (weightInKg === null) {
+        return this.buildErrorReponse(
+          res,
+          1027,
+          `Weight must be given in kg or lb, between ${MIN_WEIGHT_KG} and ${MAX_WEIGHT_KG} kg`,
+          400,
+        );
       }
+      measurements.weightInKg = weightInKg;
+    }
+    const profileChanges = {
+      ...changes,
+      ...measurements,
+      ...(location !== undefined
+        ? { location: location && toProfileLocation(location) }
+        : {}),
+    };
+    let toupdate: ProfileUpdate = profileChanges;
+    if (Object.keys(toupdate).length === 0 && username === undefined) {
+      return res.status(200).send();
+    }
+    if (updateProfileDto.birthday) {
       const result = await this.getHoroscopeZodiac(updateProfileDto.birthday);
       toupdate = {
-        ...updateProfileDto,
+        ...toupdate,
         horoscope: result?.horoscope,
         zodiac: result?.zodiac,
       };
     }
-    const isOk: boolean = await firstValueFrom(
+    let resolution: InterestResolution | null = null;
+    if (profileChanges.interests !== undefined) {
+      resolution = await firstValueFrom(
+        this.userService.send('resolve-interests', {
+          userId: jwtPayload.sub,
+          interests: profileChanges.interests,
+        }),
+      );
+      if (resolution === null) {
+        return res.status(500).json({
+          isOk: false,
+        } satisfies ServerResponse<unknown>);
+      }
+      toupdate = { ...toupdate, interests: resolution.interests };
+    }
+    // the username is changed by the same call, after everything else
+    // has been checked
+    const isOk: boolean | ErrorData = await firstValueFrom(
       this.userService.send('update-profile', {
-        userId: jwtPayload.sub,
         ...toupdate,
-      } as UpdateProfileDto & HoroscopeZodiac & { userId: string }),
+        username,
+        userId: jwtPayload.sub,
+      } as ProfileUpdate & { userId: string; username?: string }),
     );
-    return res.status(isOk ? 200 : 400).send();
+    if ((isOk as ErrorData).statusCode) {
+      return this.buildUsernameErrorResponse(res, isOk as ErrorData);
+    }
+    if (resolution === null) return res.status(isOk ? 200 : 400).send();
+    return res.status(isOk ? 200 : 400).json({
+      isOk: isOk === true,
+      data: resolution,
+    } satisfies ServerResponse<InterestResolution>);
+  }
+
+  @Get('interests')
+  @UseGuards(AuthGuard)
+  async suggestInterests(
+    @Res() res: Response,
+    @Query(new ValidationPipe({ transform: true })) query: InterestQueryDto,
+  ): Promise<Response> {
+    const result: InterestInfo[] | null = await firstValueFrom(
+      this.userService.send('suggest-interests', query),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result,
+    } satisfies ServerResponse<InterestInfo[]>);
   }
 
   @Post('askHoroscopeZodiac')
@@ -169,96 +570,871 @@ export class AppController {
   async getAllProfile(
     @Req() req: AuthRequest,
     @Res() res: Response,
+    @Query(new ValidationPipe({ transform: true })) query: ProfileQueryDto,
   ): Promise<Response> {
     const jwtPayload = req.payload;
-    let profiles: Profile[] = await firstValueFrom(
-      this.userService.send('get-all-profiles', jwtPayload.sub),
+    const result: ProfilePage | ErrorData | null = await firstValueFrom(
+      this.userService.send('get-all-profiles', {
+        userId: jwtPayload.sub,
+        query,
+      }),
     );
-    profiles = profiles.filter((profile) => profile.name !== undefined);
-    const response: ServerResponse<Profile[]> = {
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return res
+        .status((result as ErrorData).statusCode === 2011 ? 403 : 400)
+        .json({
+          isOk: false,
+          errorCode: (result as ErrorData).statusCode,
+          message: (result as ErrorData).error,
+        } satisfies ServerResponse<ProfilePage>);
+    }
+    const response: ServerResponse<ProfilePage> = {
       isOk: true,
-      data: profiles,
+      data: result as ProfilePage,
     };
 
     return res.status(200).json(response);
   }
 
-  @Get('refresh')
-  async refreshToken(
+  @Get('profiles/:id/compatibility')
+  @UseGuards(AuthGuard)
+  async getCompatibility(
     @Req() req: AuthRequest,
     @Res() res: Response,
+    @Param('id') profileId: string,
   ): Promise<Response> {
-    const jwt = await firstValueFrom(
-      this.authService.send('refresh', req.headers['x-refresh-token']),
+    const result: Compatibility | ErrorData | null = await firstValueFrom(
+      this.userService.send('get-compatibility', {
+        userId: req.payload.sub,
+        profileId,
+      }),
     );
-    const isJwtValid = jwt !== null;
-    return res.status(!jwt ? 401 : 200).json({
-      isOk: isJwtValid,
-      message: !isJwtValid ? 'Invalid refresh token' : undefined,
-      errorCode: !isJwtValid ? 2005 : undefined,
-      data: !isJwtValid ? undefined : jwt,
-    } satisfies ServerResponse<Jwt>);
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        404,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as Compatibility,
+    } satisfies ServerResponse<Compatibility>);
   }
 
-  @Post('isUsernameExist')
-  async isUsernameExist(
-    @Body() data: { username: string },
+  @Put('profiles/:id/like')
+  @UseGuards(AuthGuard)
+  async likeProfile(
+    @Req() req: AuthRequest,
     @Res() res: Response,
+    @Param('id') profileId: string,
   ): Promise<Response> {
-    const result: boolean = await firstValueFrom(
-      this.userService.send('is-username-exist', data.username),
+    return this.swipeProfile(req, res, profileId, SWIPE_ACTION.Like);
+  }
+
+  @Put('profiles/:id/pass')
+  @UseGuards(AuthGuard)
+  async passProfile(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Param('id') profileId: string,
+  ): Promise<Response> {
+    return this.swipeProfile(req, res, profileId, SWIPE_ACTION.Pass);
+  }
+
+  @Get('matches')
+  @UseGuards(AuthGuard)
+  async getMatches(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const result: MatchInfo[] | null = await firstValueFrom(
+      this.userService.send('get-matches', req.payload.sub),
     );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
     return res.status(200).json({
       isOk: true,
       data: result,
-    } satisfies ServerResponse<boolean>);
+    } satisfies ServerResponse<MatchInfo[]>);
   }
 
-  private getHoroscopeZodiac(
-    birthday: string,
-  ): Promise<HoroscopeZodiac | null> {
-    return firstValueFrom(
-      this.userService.send('get-horoscope-zodiac', birthday),
+  @Get('blocks')
+  @UseGuards(AuthGuard)
+  async getBlocks(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const result: BlockedProfile[] | null = await firstValueFrom(
+      this.userService.send('get-blocks', req.payload.sub),
     );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result,
+    } satisfies ServerResponse<BlockedProfile[]>);
   }
 
-  private buildErrorReponse(
-    res: Response,
-    errorCode: number,
-    message: string,
-  ): Response {
-    return res.status(500).json({
-      isOk: false,
-      errorCode,
-      message,
-    } satisfies ServerResponse<unknown>);
-  }
-
-  private sanitizeProfile(data: ProfileDocument, username: string): Profile {
-    const {
-      _id,
-      name,
-      birthday,
-      heightInCm,
-      weightInKg,
-      gender,
-      interests,
-      zodiac,
-      horoscope,
-    } = data;
-    const tempdata = {
-      pId: _id,
-      name,
-      birthday,
-      username,
-      heightInCm,
-      weightInKg,
-      gender,
-      interests,
-      zodiac,
-      horoscope,
-    };
-    if (tempdata.interests?.length === 0) delete tempdata.interests;
-    return tempdata;
+  @Put('blocks/:profileId')
+  @UseGuards(AuthGuard)
+  async blockProfile(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Param('profileId') profileId: string,
+  ): Promise<Response> {
+    const result: BlockedProfile | ErrorData | null = await firstValueFrom(
+      this.userService.send('block-profile', {
+        userId: req.payload.sub,
+        profileId,
+      }),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        (result as ErrorData).statusCode === 1000 ? 404 : 400,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as BlockedProfile,
+    } satisfies ServerResponse<BlockedProfile>);
+  }
+
+  /**
+   * Unblocking a profile that isn't blocked succeeds too.
+   */
+  @Delete('blocks/:profileId')
+  @UseGuards(AuthGuard)
+  async unblockProfile(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Param('profileId') profileId: string,
+  ): Promise<Response> {
+    const result: boolean | null = await firstValueFrom(
+      this.userService.send('unblock-profile', {
+        userId: req.payload.sub,
+        profileId,
+      }),
+    );
+    return res.status(result === null ? 500 : 200).json({
+      isOk: result !== null,
+    } satisfies ServerResponse<unknown>);
+  }
+
+  @Post('reports')
+  @UseGuards(AuthGuard)
+  async createReport(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Body(ValidationPipe) createReportDto: CreateReportDto,
+  ): Promise<Response> {
+    const result: ReportInfo | ErrorData | null = await firstValueFrom(
+      this.userService.send('create-report', {
+        userId: req.payload.sub,
+        report: createReportDto,
+      }),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        (result as ErrorData).statusCode === 1000 ? 404 : 400,
+      );
+    }
+    return res.status(201).json({
+      isOk: true,
+      data: result as ReportInfo,
+    } satisfies ServerResponse<ReportInfo>);
+  }
+
+  @Get('refresh')
+  async refreshToken(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const jwt: Jwt | ErrorData | null = await firstValueFrom(
+      this.authService.send('refresh', req.headers['x-refresh-token']),
+    );
+    if (jwt && (jwt as ErrorData).statusCode) {
+      return res.status(401).json({
+        isOk: false,
+        message: (jwt as ErrorData).error,
+        errorCode: (jwt as ErrorData).statusCode,
+      } satisfies ServerResponse<Jwt>);
+    }
+    const isJwtValid = jwt !== null;
+    return res.status(!jwt ? 401 : 200).json({
+      isOk: isJwtValid,
+      message: !isJwtValid ? 'Invalid refresh token' : undefined,
+      errorCode: !isJwtValid ? 2005 : undefined,
+      data: !isJwtValid ? undefined : (jwt as Jwt),
+    } satisfies ServerResponse<Jwt>);
+  }
+
+  @Post('logout')
+  @UseGuards(AuthGuard)
+  async logout(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const isOk: boolean = await firstValueFrom(
+      this.authService.send('logout', req.payload),
+    );
+    return res.status(isOk ? 200 : 400).send();
+  }
+
+  @Get('sessions')
+  @UseGuards(AuthGuard)
+  async getSessions(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const sessions: SessionInfo[] = await firstValueFrom(
+      this.authService.send('get-sessions', req.payload),
+    );
+    return res.status(200).json({
+      isOk: true,
+      data: sessions,
+    } satisfies ServerResponse<SessionInfo[]>);
+  }
+
+  @Delete('sessions/:id')
+  @UseGuards(AuthGuard)
+  async revokeSession(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Param('id') sessionId: string,
+  ): Promise<Response> {
+    const isOk: boolean = await firstValueFrom(
+      this.authService.send('revoke-session', {
+        userId: req.payload.sub,
+        sessionId,
+      }),
+    );
+    if (!isOk) {
+      return res.status(404).json({
+        isOk: false,
+        errorCode: 2007,
+        message: 'Session not found',
+      } satisfies ServerResponse<unknown>);
+    }
+    return res.status(200).send();
+  }
+
+  @Post('password/reset-request')
+  async requestPasswordReset(
+    @Res() res: Response,
+    @Body(ValidationPipe) emailDto: EmailDto,
+  ): Promise<Response> {
+    await firstValueFrom(
+      this.authService.send('request-password-reset', emailDto.email),
+    );
+    return res.status(200).json({
+      isOk: true,
+      message: 'If the email is registered, a reset link has been sent',
+    } satisfies ServerResponse<unknown>);
+  }
+
+  @Post('password/reset')
+  async resetPassword(
+    @Res() res: Response,
+    @Body(ValidationPipe) resetPasswordDto: ResetPasswordDto,
+  ): Promise<Response> {
+    const result: boolean | ErrorData = await firstValueFrom(
+      this.authService.send('reset-password', resetPasswordDto),
+    );
+    if ((result as ErrorData).statusCode) {
+      return res.status(400).json({
+        isOk: false,
+        errorCode: (result as ErrorData).statusCode,
+        message: (result as ErrorData).error,
+      } satisfies ServerResponse<unknown>);
+    }
+    return res.status(result ? 200 : 500).json({
+      isOk: result === true,
+    } satisfies ServerResponse<unknown>);
+  }
+
+  @Put('password')
+  @UseGuards(AuthGuard)
+  async changePassword(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Body(ValidationPipe) changePasswordDto: ChangePasswordDto,
+  ): Promise<Response> {
+    const result: boolean | ErrorData = await firstValueFrom(
+      this.authService.send('change-password', {
+        payload: req.payload,
+        changePasswordDto,
+      }),
+    );
+    if ((result as ErrorData).statusCode) {
+      return this.buildLoginErrorResponse(
+        res,
+        result as ErrorData,
+        (result as ErrorData).statusCode === 2020 ? 403 : 400,
+      );
+    }
+    return res.status(result ? 200 : 500).json({
+      isOk: result === true,
+    } satisfies ServerResponse<unknown>);
+  }
+
+  @Delete('account')
+  @UseGuards(AuthGuard)
+  async deleteAccount(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Body(ValidationPipe) deleteAccountDto: DeleteAccountDto,
+  ): Promise<Response> {
+    const result: AccountDeletion | ErrorData | null = await firstValueFrom(
+      this.authService.send('delete-account', {
+        payload: req.payload,
+        password: deleteAccountDto.password,
+      }),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildLoginErrorResponse(
+        res,
+        result as ErrorData,
+        (result as ErrorData).statusCode === 2020 ? 403 : 500,
+      );
+    }
+    return res.status(202).json({
+      isOk: true,
+      data: result as AccountDeletion,
+    } satisfies ServerResponse<AccountDeletion>);
+  }
+
+  @Post('account/restore')
+  @UseGuards(AuthGuard)
+  async restoreAccount(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const result: boolean | ErrorData = await firstValueFrom(
+      this.userService.send('cancel-account-deletion', req.payload.sub),
+    );
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        409,
+      );
+    }
+    return res.status(result ? 200 : 500).json({
+      isOk: result === true,
+    } satisfies ServerResponse<unknown>);
+  }
+
+  @Post('account/export')
+  @UseGuards(AuthGuard)
+  async requestDataExport(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const result: DataExportInfo | ErrorData | null = await firstValueFrom(
+      this.userService.send('request-data-export', req.payload.sub),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildLoginErrorResponse(res, result as ErrorData, 429);
+    }
+    return res.status(202).json({
+      isOk: true,
+      data: result as DataExportInfo,
+    } satisfies ServerResponse<DataExportInfo>);
+  }
+
+  @Get('account/export')
+  @UseGuards(AuthGuard)
+  async getDataExport(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+  ): Promise<Response> {
+    const result: DataExportInfo | ErrorData | null = await firstValueFrom(
+      this.userService.send('get-data-export', req.payload.sub),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        404,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as DataExportInfo,
+    } satisfies ServerResponse<DataExportInfo>);
+  }
+
+  @Put('admin/users/:id/roles')
+  @Roles(ROLE.Admin)
+  @UseGuards(AuthGuard, RolesGuard)
+  async setUserRoles(
+    @Res() res: Response,
+    @Param('id') userId: string,
+    @Body(ValidationPipe) setRolesDto: SetRolesDto,
+  ): Promise<Response> {
+    const result: Role[] | ErrorData | null = await firstValueFrom(
+      this.userService.send('set-user-roles', {
+        userId,
+        roles: setRolesDto.roles,
+      }),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        (result as ErrorData).statusCode === 1007 ? 404 : 409,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as Role[],
+    } satisfies ServerResponse<Role[]>);
+  }
+
+  @Get('admin/interests/pending')
+  @Roles(ROLE.Admin, ROLE.Moderator)
+  @UseGuards(AuthGuard, RolesGuard)
+  async getPendingInterests(@Res() res: Response): Promise<Response> {
+    const result: PendingInterest[] | null = await firstValueFrom(
+      this.userService.send('get-pending-interests', {}),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result,
+    } satisfies ServerResponse<PendingInterest[]>);
+  }
+
+  @Put('admin/interests/:slug')
+  @Roles(ROLE.Admin, ROLE.Moderator)
+  @UseGuards(AuthGuard, RolesGuard)
+  async reviewInterest(
+    @Res() res: Response,
+    @Param('slug') slug: string,
+    @Body(ValidationPipe) reviewInterestDto: ReviewInterestDto,
+  ): Promise<Response> {
+    const result: InterestInfo | ErrorData | null = await firstValueFrom(
+      this.userService.send('review-interest', {
+        slug,
+        review: reviewInterestDto,
+      }),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        (result as ErrorData).statusCode === 1024 ? 404 : 400,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as InterestInfo,
+    } satisfies ServerResponse<InterestInfo>);
+  }
+
+  @Get('admin/profile-history')
+  @Roles(ROLE.Admin, ROLE.Moderator)
+  @UseGuards(AuthGuard, RolesGuard)
+  async getAllProfileHistory(
+    @Res() res: Response,
+    @Query(new ValidationPipe({ transform: true }))
+    query: AdminProfileHistoryQueryDto,
+  ): Promise<Response> {
+    const result: ProfileHistoryPage | ErrorData | null = await firstValueFrom(
+      this.userService.send('get-all-profile-history', query),
+    );
+    return this.buildProfileHistoryResponse(res, result);
+  }
+
+  @Get('admin/reports')
+  @Roles(ROLE.Admin, ROLE.Moderator)
+  @UseGuards(AuthGuard, RolesGuard)
+  async getReports(
+    @Res() res: Response,
+    @Query(new ValidationPipe({ transform: true })) query: ReportQueryDto,
+  ): Promise<Response> {
+    const result: ReportPage | ErrorData | null = await firstValueFrom(
+      this.userService.send('get-reports', query),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        400,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as ReportPage,
+    } satisfies ServerResponse<ReportPage>);
+  }
+
+  @Put('admin/reports/:id')
+  @Roles(ROLE.Admin, ROLE.Moderator)
+  @UseGuards(AuthGuard, RolesGuard)
+  async reviewReport(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Param('id') reportId: string,
+    @Body(ValidationPipe) reviewReportDto: ReviewReportDto,
+  ): Promise<Response> {
+    const result: ReportInfo | ErrorData | null = await firstValueFrom(
+      this.userService.send('review-report', {
+        reviewerId: req.payload.sub,
+        reportId,
+        review: reviewReportDto,
+      }),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        404,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as ReportInfo,
+    } satisfies ServerResponse<ReportInfo>);
+  }
+
+  @Post('verify-email')
+  async verifyEmail(
+    @Res() res: Response,
+    @Body(ValidationPipe) tokenDto: TokenDto,
+  ): Promise<Response> {
+    const result: boolean | ErrorData = await firstValueFrom(
+      this.authService.send('verify-email', tokenDto.token),
+    );
+    if ((result as ErrorData).statusCode) {
+      return res.status(400).json({
+        isOk: false,
+        errorCode: (result as ErrorData).statusCode,
+        message: (result as ErrorData).error,
+      } satisfies ServerResponse<unknown>);
+    }
+    return res.status(result ? 200 : 500).json({
+      isOk: result === true,
+    } satisfies ServerResponse<unknown>);
+  }
+
+  @Post('verify-email/resend')
+  async resendVerification(
+    @Res() res: Response,
+    @Body(ValidationPipe) emailDto: EmailDto,
+  ): Promise<Response> {
+    const result: boolean | ErrorData = await firstValueFrom(
+      this.authService.send('resend-verification', emailDto.email),
+    );
+    if ((result as ErrorData).statusCode) {
+      return res.status(429).json({
+        isOk: false,
+        errorCode: (result as ErrorData).statusCode,
+        message: (result as ErrorData).error,
+      } satisfies ServerResponse<unknown>);
+    }
+    return res.status(200).json({
+      isOk: true,
+      message:
+        'If the email is registered and not verified yet, a link has been sent',
+    } satisfies ServerResponse<unknown>);
+  }
+
+  @Put('username')
+  @UseGuards(AuthGuard)
+  async updateUsername(
+    @Req() req: AuthRequest,
+    @Res() res: Response,
+    @Body(ValidationPipe) changeUsernameDto: ChangeUsernameDto,
+  ): Promise<Response> {
+    const result = await this.changeUsername(
+      req.payload.sub,
+      changeUsernameDto.username,
+    );
+    if (result === null || (result as ErrorData).statusCode) {
+      return this.buildUsernameErrorResponse(res, result as ErrorData | null);
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as UsernameChange,
+    } satisfies ServerResponse<UsernameChange>);
+  }
+
+  @Post('isUsernameExist')
+  async isUsernameExist(
+    @Body() data: { username: string },
+    @Res() res: Response,
+  ): Promise<Response> {
+    const result: boolean = await firstValueFrom(
+      this.userService.send('is-username-exist', data.username),
+    );
+    return res.status(200).json({
+      isOk: true,
+      data: result,
+    } satisfies ServerResponse<boolean>);
+  }
+
+  private async swipeProfile(
+    req: AuthRequest,
+    res: Response,
+    profileId: string,
+    action: SwipeAction,
+  ): Promise<Response> {
+    const result: SwipeResult | ErrorData | null = await firstValueFrom(
+      this.userService.send('swipe-profile', {
+        userId: req.payload.sub,
+        profileId,
+        action,
+      }),
+    );
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        (result as ErrorData).statusCode === 1000 ? 404 : 400,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as SwipeResult,
+    } satisfies ServerResponse<SwipeResult>);
+  }
+
+  private changeUsername(
+    userId: string,
+    username: string,
+  ): Promise<UsernameChange | ErrorData | null> {
+    return firstValueFrom(
+      this.userService.send('change-username', { userId, username }),
+    );
+  }
+
+  private buildUsernameErrorResponse(
+    res: Response,
+    error: ErrorData | null,
+  ): Response {
+    if (error === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    const errorStatus: { [statusCode: number]: number } = {
+      1007: 404,
+      1019: 409,
+    };
+    return this.buildLoginErrorResponse(
+      res,
+      error,
+      errorStatus[error.statusCode] ?? 400,
+    );
+  }
+
+  private getHoroscopeZodiac(
+    birthday: string,
+  ): Promise<HoroscopeZodiac | null> {
+    return firstValueFrom(
+      this.userService.send('get-horoscope-zodiac', birthday),
+    );
+  }
+
+  private getSessionMetadata(req: Request): SessionMetadata {
+    return {
+      device: req.headers['x-device-name'] as string | undefined,
+      ip: req.ip,
+      userAgent: req.headers['user-agent'],
+    };
+  }
+
+  private buildErrorReponse(
+    res: Response,
+    errorCode: number,
+    message: string,
+    status = 500,
+  ): Response {
+    return res.status(status).json({
+      isOk: false,
+      errorCode,
+      message,
+    } satisfies ServerResponse<unknown>);
+  }
+
+  /**
+   * Throttled logins are answered with 429 and a `Retry-After` header, other
+   * errors with `status`.
+   */
+  private buildLoginErrorResponse(
+    res: Response,
+    error: ErrorData,
+    status: number,
+  ): Response {
+    if (error.retryAfter !== undefined) {
+      res.setHeader('Retry-After', String(error.retryAfter));
+    }
+    return this.buildErrorReponse(
+      res,
+      error.statusCode,
+      error.error,
+      error.retryAfter !== undefined ? 429 : status,
+    );
+  }
+
+  private buildGalleryResponse(
+    res: Response,
+    result: ProfileGallery | ErrorData | null,
+    status: number,
+  ): Response {
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      const errorStatus: { [statusCode: number]: number } = {
+        1000: 404,
+        1014: 409,
+        1015: 404,
+      };
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        errorStatus[(result as ErrorData).statusCode] ?? 400,
+      );
+    }
+    return res.status(status).json({
+      isOk: true,
+      data: resolveGallery(result as ProfileGallery),
+    } satisfies ServerResponse<PhotoGallery>);
+  }
+
+  private buildProfileHistoryResponse(
+    res: Response,
+    result: ProfileHistoryPage | ErrorData | null,
+  ): Response {
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        400,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as ProfileHistoryPage,
+    } satisfies ServerResponse<ProfileHistoryPage>);
+  }
+
+  private buildOnboardingResponse(
+    res: Response,
+    result: OnboardingState | ErrorData | null,
+  ): Response {
+    if (result === null) {
+      return res.status(500).json({
+        isOk: false,
+      } satisfies ServerResponse<unknown>);
+    }
+    if ((result as ErrorData).statusCode) {
+      return this.buildErrorReponse(
+        res,
+        (result as ErrorData).statusCode,
+        (result as ErrorData).error,
+        (result as ErrorData).statusCode === 1000 ? 404 : 409,
+      );
+    }
+    return res.status(200).json({
+      isOk: true,
+      data: result as OnboardingState,
+    } satisfies ServerResponse<OnboardingState>);
   }
 }
@@ -2,9 +2,16 @@ import { Module } from '@nestjs/common';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { ConfigModule, ConfigService } from '@nestjs/config';
-import { ClientProxyFactory, Transport } from '@nestjs/microservices';
-import { JwtModule } from '@nestjs/jwt';
-import { AuthModule } from 'apps/auth/src/auth.module';
+import {
+  ClientProxy,
+  ClientProxyFactory,
+  Transport,
+} from '@nestjs/microservices';
+import { JwtModule, JwtService } from '@nestjs/jwt';
+import { firstValueFrom } from 'rxjs';
+import { JwksVerifier } from '@app/shared/jwks-verifier';
+import { RevokedSessions } from '@app/shared/revoked-sessions';
+import { JwksController } from './jwks.controller';
 
 @Module({
   imports: [
@@ -13,9 +20,8 @@ import { AuthModule } from 'apps/auth/src/auth.module';
       isGlobal: true,
     }),
     JwtModule,
-    AuthModule,
   ],
-  controllers: [AppController],
+  controllers: [AppController, JwksController],
   providers: [
     AppService,
     {
@@ -60,6 +66,22 @@ import { AuthModule } from 'apps/auth/src/auth.module';
       },
       inject: [ConfigService],
     },
+    {
+      provide: JwksVerifier,
+      useFactory: (authService: ClientProxy, jwtService: JwtService) =>
+        new JwksVerifier(jwtService, () =>
+          firstValueFrom(authService.send('get-jwks', {})),
+        ),
+      inject: ['AUTH_SERVICE', JwtService],
+    },
+    {
+      provide: RevokedSessions,
+      useFactory: (authService: ClientProxy) =>
+        new RevokedSessions(() =>
+          firstValueFrom(authService.send('get-revoked-sessions', {})),
+        ),
+      inject: ['AUTH_SERVICE'],
+    },
   ],
 })
 export class AppModule {}
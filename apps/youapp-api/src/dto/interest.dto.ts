@@ -0,0 +1,59 @@
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import {
+  INTEREST_STATUS,
+  InterestCategory,
+  interestCategoryList,
+} from '@app/shared/enums/interest.enum';
+import { ReviewInterest } from '@app/shared/interfaces/interest.interface';
+
+/**
+ * @description
+ * Query string of `GET /api/interests`.
+ */
+export class InterestQueryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  readonly q?: string;
+
+  @IsOptional()
+  @IsIn(interestCategoryList)
+  readonly category?: InterestCategory;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(50)
+  readonly limit?: number;
+}
+
+export class ReviewInterestDto {
+  @IsIn([INTEREST_STATUS.Approved, INTEREST_STATUS.Rejected])
+  readonly status!: ReviewInterest['status'];
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  readonly name?: string;
+
+  @IsOptional()
+  @IsIn(interestCategoryList)
+  readonly category?: InterestCategory;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  readonly synonymOf?: string;
+}
@@ -0,0 +1,33 @@
+import { Type } from 'class-transformer';
+import {
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class ProfileHistoryQueryDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  readonly field?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly cursor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  readonly limit?: number;
+}
+
+export class AdminProfileHistoryQueryDto extends ProfileHistoryQueryDto {
+  @IsOptional()
+  @IsString()
+  readonly profileId?: string;
+}
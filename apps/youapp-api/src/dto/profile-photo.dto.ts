@@ -0,0 +1,14 @@
+import { ArrayMaxSize, IsArray, IsNotEmpty, IsString } from 'class-validator';
+
+export class AddPhotoDto {
+  @IsNotEmpty()
+  @IsString()
+  readonly fileId!: string;
+}
+
+export class PhotoOrderDto {
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  readonly fileIds!: string[];
+}
@@ -0,0 +1,112 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  ProfileSort,
+  profileSortList,
+  SortOrder,
+} from '@app/shared/enums/profile-sort.enum';
+import { DISTANCE_STEPS, MAX_DISTANCE_KM } from '@app/shared/geo';
+
+/**
+ * @description
+ * Query string of `GET /api/profiles`. `interests` may be repeated or
+ * comma separated.
+ */
+export class ProfileQueryDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  readonly minAge?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  readonly maxAge?: number;
+
+  @IsOptional()
+  @Transform(({ value }) =>
+    value === 'true' ? true : value === 'false' ? false : value,
+  )
+  @IsBoolean()
+  readonly gender?: boolean;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  readonly minHeight?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  readonly maxHeight?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  readonly minWeight?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  readonly maxWeight?: number;
+
+  @IsOptional()
+  @IsString()
+  readonly horoscope?: string;
+
+  @IsOptional()
+  @IsString()
+  readonly zodiac?: string;
+
+  @IsOptional()
+  @Transform(({ value }) =>
+    ([] as string[])
+      .concat(value)
+      .flatMap((interest) => String(interest).split(','))
+      .map((interest) => interest.trim())
+      .filter((interest) => interest.length > 0),
+  )
+  @IsString({ each: true })
+  readonly interests?: string[];
+
+  /**
+   * Kilometers from the viewer's location, in the steps distances are
+   * shown in.
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn(DISTANCE_STEPS, {
+    message: `maxDistance must be a whole number of km up to 10 or a multiple of 5 up to ${MAX_DISTANCE_KM}`,
+  })
+  readonly maxDistance?: number;
+
+  @IsOptional()
+  @IsIn(profileSortList)
+  readonly sort?: ProfileSort;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  readonly order?: SortOrder;
+
+  @IsOptional()
+  @IsString()
+  readonly cursor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  readonly limit?: number;
+}
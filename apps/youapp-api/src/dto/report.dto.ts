@@ -0,0 +1,82 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import {
+  ReportReason,
+  reportReasonList,
+  ReportStatus,
+  reportStatusList,
+} from '@app/shared/enums/report.enum';
+
+export class MessageReferenceDto {
+  @IsNotEmpty()
+  @IsString()
+  readonly roomId!: string;
+
+  @IsNotEmpty()
+  @IsString()
+  readonly messageId!: string;
+}
+
+export class CreateReportDto {
+  @IsNotEmpty()
+  @IsString()
+  readonly profileId!: string;
+
+  @IsIn(reportReasonList)
+  readonly reason!: ReportReason;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  readonly details?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => MessageReferenceDto)
+  readonly messages?: MessageReferenceDto[];
+}
+
+/**
+ * @description
+ * Query string of `GET /api/admin/reports`.
+ */
+export class ReportQueryDto {
+  @IsOptional()
+  @IsIn(reportStatusList)
+  readonly status?: ReportStatus;
+
+  @IsOptional()
+  @IsString()
+  readonly cursor?: string;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  readonly limit?: number;
+}
+
+export class ReviewReportDto {
+  @IsIn(reportStatusList)
+  readonly status!: ReportStatus;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  readonly note?: string;
+}
@@ -0,0 +1,8 @@
+import { IsArray, IsIn } from 'class-validator';
+import { Role, roleList } from '@app/shared/enums/role.enum';
+
+export class SetRolesDto {
+  @IsArray()
+  @IsIn(roleList, { each: true })
+  readonly roles!: Role[];
+}
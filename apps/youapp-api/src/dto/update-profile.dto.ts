@@ -1,10 +1,124 @@
+import { Type } from 'class-transformer';
 import {
+  ArrayMaxSize,
   IsArray,
   IsBoolean,
+  IsIn,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
   IsNumber,
   IsOptional,
   IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
 } from 'class-validator';
+import { Visibility, visibilityList } from '@app/shared/enums/visibility.enum';
+import { UnitSystem, unitSystemList } from '@app/shared/enums/unit-system.enum';
+import { Height, Weight } from '@app/shared/interfaces/measurement.interface';
+import { Location } from '@app/shared/interfaces/location.interface';
+
+export class ProfilePreferencesDto {
+  @IsOptional()
+  @IsBoolean()
+  readonly gender?: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  readonly minAge?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  readonly maxAge?: number;
+
+  @IsOptional()
+  @IsNumber()
+  readonly minHeight?: number;
+
+  @IsOptional()
+  @IsNumber()
+  readonly maxHeight?: number;
+}
+
+export class ProfilePrivacyDto {
+  @IsOptional()
+  @IsIn(visibilityList)
+  readonly birthday?: Visibility;
+
+  @IsOptional()
+  @IsIn(visibilityList)
+  readonly weight?: Visibility;
+
+  @IsOptional()
+  @IsIn(visibilityList)
+  readonly height?: Visibility;
+
+  @IsOptional()
+  @IsIn(visibilityList)
+  readonly horoscope?: Visibility;
+
+  @IsOptional()
+  @IsIn(visibilityList)
+  readonly interests?: Visibility;
+}
+
+/**
+ * @description
+ * Either `cm`, or `ft` and `in`, which may both be fractional.
+ */
+export class HeightDto implements Height {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  readonly cm?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  readonly ft?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  readonly in?: number;
+}
+
+/**
+ * @description
+ * Either `kg` or `lb`.
+ */
+export class WeightDto implements Weight {
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  readonly kg?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  readonly lb?: number;
+}
+
+export class LocationDto implements Location {
+  @IsLatitude()
+  readonly latitude!: number;
+
+  @IsLongitude()
+  readonly longitude!: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  readonly city?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  readonly country?: string;
+}
 
 export class UpdateProfileDto {
   @IsOptional()
@@ -25,13 +139,58 @@ export class UpdateProfileDto {
 
   @IsOptional()
   @IsNumber()
-  readonly heightInCm?: string;
+  readonly heightInCm?: number;
 
   @IsOptional()
   @IsNumber()
   readonly weightInKg?: number;
 
+  /**
+   * Takes the place of `heightInCm` when both are given.
+   */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => HeightDto)
+  readonly height?: HeightDto;
+
+  /**
+   * Takes the place of `weightInKg` when both are given.
+   */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => WeightDto)
+  readonly weight?: WeightDto;
+
+  @IsOptional()
+  @IsIn(unitSystemList)
+  readonly units?: UnitSystem;
+
+  /**
+   * Null removes the location.
+   */
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LocationDto)
+  readonly location?: LocationDto | null;
+
+  /**
+   * Names, synonyms or slugs from the interests catalog. Unknown ones are
+   * submitted for moderation instead of being saved.
+   */
   @IsOptional()
   @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(50, { each: true })
   readonly interests?: string[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProfilePreferencesDto)
+  readonly preferences?: ProfilePreferencesDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProfilePrivacyDto)
+  readonly privacy?: ProfilePrivacyDto;
 }
@@ -0,0 +1,23 @@
+import { Controller, Get, Inject, Res } from '@nestjs/common';
+import { ClientProxy } from '@nestjs/microservices';
+import { Response } from 'express';
+import { firstValueFrom } from 'rxjs';
+import { JsonWebKeySet } from '@app/shared/jwks-verifier';
+
+@Controller('.well-known')
+export class JwksController {
+  constructor(
+    @Inject('AUTH_SERVICE') private readonly authService: ClientProxy,
+  ) {}
+
+  @Get('jwks.json')
+  async getJwks(@Res() res: Response): Promise<Response> {
+    const jwks: JsonWebKeySet | null = await firstValueFrom(
+      this.authService.send('get-jwks', {}),
+    );
+    if (jwks === null) return res.status(503).send();
+    // short enough that a new key is picked up well before it signs tokens
+    res.setHeader('Cache-Control', 'public, max-age=300');
+    return res.status(200).json(jwks);
+  }
+}
@@ -0,0 +1,21 @@
+import { AuthRequest } from '@app/shared/types/auth-request.type';
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Role } from '@app/shared/enums/role.enum';
+import { ROLES_KEY } from './roles.decorator';
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<Role[] | undefined>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!roles || roles.length === 0) return true;
+    const request = context.switchToHttp().getRequest<AuthRequest>();
+    const userRoles = request.payload?.roles ?? [];
+    return roles.some((role) => userRoles.includes(role));
+  }
+}
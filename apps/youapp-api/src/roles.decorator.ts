@@ -0,0 +1,11 @@
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '@app/shared/enums/role.enum';
+
+export const ROLES_KEY = 'roles';
+
+/**
+ * @description
+ * Restrict a route to users having at least one of `roles`. Needs
+ * `RolesGuard` after `AuthGuard`, which puts the token claims on the request.
+ */
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
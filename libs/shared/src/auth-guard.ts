@@ -1,19 +1,21 @@
-import { AuthRequest } from '@app/shared/types/auth-request.type';
-import {
-  CanActivate,
-  ExecutionContext,
-  Inject,
-  Injectable,
-} from '@nestjs/common';
-import { ClientProxy } from '@nestjs/microservices';
+import { AuthRequest } from './types/auth-request.type';
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
 import { JwtPayload } from 'apps/auth/src/interfaces/jwtToken.interface';
+import { JwksVerifier } from './jwks-verifier';
+import { RevokedSessions } from './revoked-sessions';
 import { Request } from 'express';
-import { firstValueFrom } from 'rxjs';
 
+/**
+ * @description
+ * Access tokens are verified locally with the keys auth publishes instead of
+ * asking auth about every request. Tokens of sessions auth has revoked are
+ * turned away too, a few seconds after the revocation at most.
+ */
 @Injectable()
 export class AuthGuard implements CanActivate {
   constructor(
-    @Inject('AUTH_SERVICE') private readonly authService: ClientProxy,
+    private readonly jwksVerifier: JwksVerifier,
+    private readonly revokedSessions: RevokedSessions,
   ) {}
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
@@ -21,10 +23,9 @@ export class AuthGuard implements CanActivate {
     const token = this.extractBearerTokenFromHeader(request);
     if (!token) return false;
     try {
-      const payload: JwtPayload = await firstValueFrom(
-        this.authService.send('validate', token),
-      );
-      if (!payload) return false;
+      const payload = await this.jwksVerifier.verify<JwtPayload>(token);
+      if (!payload.sub || !payload.sid) return false;
+      if (await this.revokedSessions.isRevoked(payload.sid)) return false;
       request.payload = payload;
       return true;
     } catch (error) {
@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class ChangePasswordDto {
+  @IsNotEmpty()
+  @IsString()
+  readonly currentPassword!: string;
+
+  @IsNotEmpty()
+  @IsString()
+  readonly newPassword!: string;
+}
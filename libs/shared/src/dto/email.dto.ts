@@ -0,0 +1,7 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+
+export class EmailDto {
+  @IsNotEmpty()
+  @IsEmail()
+  readonly email!: string;
+}
@@ -0,0 +1,10 @@
+import { IsNotEmpty, MinLength } from 'class-validator';
+
+export class ResetPasswordDto {
+  @IsNotEmpty()
+  readonly token!: string;
+
+  @IsNotEmpty()
+  @MinLength(6)
+  readonly password!: string;
+}
@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class TokenDto {
+  @IsNotEmpty()
+  @IsString()
+  readonly token!: string;
+}
@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class TwoFactorCodeDto {
+  @IsNotEmpty()
+  @IsString()
+  readonly code!: string;
+}
+
+export class TwoFactorLoginDto extends TwoFactorCodeDto {
+  @IsNotEmpty()
+  @IsString()
+  readonly challengeToken!: string;
+}
@@ -0,0 +1,56 @@
+import { KeyObject, sign, verify } from 'crypto';
+
+export interface EdDsaSignOptions {
+  privateKey: string | KeyObject;
+  keyid: string;
+  expiresInMs: number;
+}
+
+const encode = (value: object) =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+/**
+ * @description
+ * A JWT signed with Ed25519 (`EdDSA`), which the JWT library in use doesn't
+ * support. Only what access tokens need: `kid`, `iat` and `exp`.
+ */
+export function signEdDsaJwt(
+  payload: object,
+  { privateKey, keyid, expiresInMs }: EdDsaSignOptions,
+): string {
+  const iat = Math.floor(Date.now() / 1000);
+  const data = `${encode({ alg: 'EdDSA', typ: 'JWT', kid: keyid })}.${encode({
+    ...payload,
+    iat,
+    exp: iat + Math.floor(expiresInMs / 1000),
+  })}`;
+  const signature = sign(null, Buffer.from(data), privateKey);
+  return `${data}.${signature.toString('base64url')}`;
+}
+
+/**
+ * The payload of the token, throwing when it isn't an `EdDSA` token signed
+ * with `publicKey` or has expired.
+ */
+export function verifyEdDsaJwt<T extends object>(
+  token: string,
+  publicKey: string | KeyObject,
+): T {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) throw new Error('Malformed token');
+  if (JSON.parse(Buffer.from(header, 'base64url').toString()).alg !== 'EdDSA') {
+    throw new Error('Invalid algorithm');
+  }
+  const isValid = verify(
+    null,
+    Buffer.from(`${header}.${payload}`),
+    publicKey,
+    Buffer.from(signature, 'base64url'),
+  );
+  if (!isValid) throw new Error('Invalid signature');
+  const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= Date.now()) {
+    throw new Error('Token expired');
+  }
+  return claims as T;
+}
@@ -0,0 +1,14 @@
+/**
+ * @description
+ * What an unverified account is not allowed to do:
+ * - `none`: nothing is blocked
+ * - `login`: the user can't log in
+ * - `discovery`: the user can log in but can't browse other profiles
+ */
+export type EmailVerificationPolicy = 'none' | 'login' | 'discovery';
+
+export function getEmailVerificationPolicy(): EmailVerificationPolicy {
+  const policy = process.env.EMAIL_VERIFICATION_POLICY;
+  if (policy === 'login' || policy === 'discovery') return policy;
+  return 'none';
+}
@@ -0,0 +1,32 @@
+export const INTEREST_CATEGORY = {
+  Music: 'music',
+  Sports: 'sports',
+  Arts: 'arts',
+  Food: 'food',
+  Travel: 'travel',
+  Outdoors: 'outdoors',
+  Games: 'games',
+  Tech: 'tech',
+  Books: 'books',
+  Film: 'film',
+  Lifestyle: 'lifestyle',
+  Other: 'other',
+} as const;
+
+export const interestCategoryList: InterestCategory[] =
+  Object.values(INTEREST_CATEGORY);
+
+export const INTEREST_STATUS = {
+  Approved: 'approved',
+  Pending: 'pending',
+  Rejected: 'rejected',
+} as const;
+
+export const interestStatusList: InterestStatus[] =
+  Object.values(INTEREST_STATUS);
+
+type ObjectValues<T> = T[keyof T];
+
+export type InterestCategory = ObjectValues<typeof INTEREST_CATEGORY>;
+
+export type InterestStatus = ObjectValues<typeof INTEREST_STATUS>;
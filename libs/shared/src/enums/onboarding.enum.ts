@@ -0,0 +1,18 @@
+/**
+ * @description
+ * Onboarding steps in order, each named after what the user has done last.
+ */
+export const ONBOARDING_STEP = {
+  AccountCreated: 'account-created',
+  BasicInfo: 'basic-info',
+  Photos: 'photos',
+  Interests: 'interests',
+  Done: 'done',
+} as const;
+
+export const onboardingStepList: OnboardingStep[] =
+  Object.values(ONBOARDING_STEP);
+
+type ObjectValues<T> = T[keyof T];
+
+export type OnboardingStep = ObjectValues<typeof ONBOARDING_STEP>;
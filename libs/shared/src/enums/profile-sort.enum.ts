@@ -0,0 +1,17 @@
+export const PROFILE_SORT = {
+  Newest: 'newest',
+  Name: 'name',
+  Age: 'age',
+  Height: 'height',
+  Weight: 'weight',
+  Compatibility: 'compatibility',
+  Distance: 'distance',
+} as const;
+
+export const profileSortList: ProfileSort[] = Object.values(PROFILE_SORT);
+
+type ObjectValues<T> = T[keyof T];
+
+export type ProfileSort = ObjectValues<typeof PROFILE_SORT>;
+
+export type SortOrder = 'asc' | 'desc';
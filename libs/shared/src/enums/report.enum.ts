@@ -0,0 +1,25 @@
+export const REPORT_REASON = {
+  Spam: 'spam',
+  Harassment: 'harassment',
+  Inappropriate: 'inappropriate',
+  FakeProfile: 'fake-profile',
+  Underage: 'underage',
+  Other: 'other',
+} as const;
+
+export const reportReasonList: ReportReason[] = Object.values(REPORT_REASON);
+
+export const REPORT_STATUS = {
+  Open: 'open',
+  Reviewing: 'reviewing',
+  Resolved: 'resolved',
+  Dismissed: 'dismissed',
+} as const;
+
+export const reportStatusList: ReportStatus[] = Object.values(REPORT_STATUS);
+
+type ObjectValues<T> = T[keyof T];
+
+export type ReportReason = ObjectValues<typeof REPORT_REASON>;
+
+export type ReportStatus = ObjectValues<typeof REPORT_STATUS>;
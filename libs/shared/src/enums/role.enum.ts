@@ -0,0 +1,11 @@
+export const ROLE = {
+  User: 'user',
+  Moderator: 'moderator',
+  Admin: 'admin',
+} as const;
+
+export const roleList: Role[] = Object.values(ROLE);
+
+type ObjectValues<T> = T[keyof T];
+
+export type Role = ObjectValues<typeof ROLE>;
@@ -0,0 +1,10 @@
+export const SWIPE_ACTION = {
+  Like: 'like',
+  Pass: 'pass',
+} as const;
+
+export const swipeActionList: SwipeAction[] = Object.values(SWIPE_ACTION);
+
+type ObjectValues<T> = T[keyof T];
+
+export type SwipeAction = ObjectValues<typeof SWIPE_ACTION>;
@@ -0,0 +1,10 @@
+export const UNIT_SYSTEM = {
+  Metric: 'metric',
+  Imperial: 'imperial',
+} as const;
+
+export const unitSystemList: UnitSystem[] = Object.values(UNIT_SYSTEM);
+
+type ObjectValues<T> = T[keyof T];
+
+export type UnitSystem = ObjectValues<typeof UNIT_SYSTEM>;
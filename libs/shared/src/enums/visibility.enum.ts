@@ -0,0 +1,11 @@
+export const VISIBILITY = {
+  Everyone: 'everyone',
+  Matches: 'matches',
+  Nobody: 'nobody',
+} as const;
+
+export const visibilityList: Visibility[] = Object.values(VISIBILITY);
+
+type ObjectValues<T> = T[keyof T];
+
+export type Visibility = ObjectValues<typeof VISIBILITY>;
@@ -0,0 +1,62 @@
+import {
+  DISTANCE_STEPS,
+  getDistanceKm,
+  getDistanceRange,
+  MAX_DISTANCE_KM,
+  roundDistance,
+  toProfileLocation,
+} from './geo';
+
+describe('geo', () => {
+  it('should store coarse coordinates', () => {
+    expect(
+      toProfileLocation({
+        latitude: -6.208763,
+        longitude: 106.845599,
+        city: ' Jakarta ',
+        country: 'Indonesia',
+      }),
+    ).toEqual({
+      point: { type: 'Point', coordinates: [106.85, -6.21] },
+      city: 'Jakarta',
+      country: 'Indonesia',
+    });
+  });
+
+  it('should measure great-circle distances', () => {
+    // Jakarta to Bandung
+    expect(getDistanceKm([106.85, -6.21], [107.61, -6.91])).toBeCloseTo(
+      114.7,
+      0,
+    );
+    expect(getDistanceKm([106.85, -6.21], [106.85, -6.21])).toBe(0);
+  });
+
+  it('should round distances more coarsely the farther they are', () => {
+    expect(roundDistance(0)).toBe(1);
+    expect(roundDistance(1.4)).toBe(1);
+    expect(roundDistance(7.6)).toBe(8);
+    expect(roundDistance(10.2)).toBe(10);
+    expect(roundDistance(114.7)).toBe(115);
+    expect(roundDistance(117.4)).toBe(115);
+  });
+
+  it('should only allow limits distances are rounded to', () => {
+    expect(DISTANCE_STEPS.slice(0, 12)).toEqual([
+      1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 15, 20,
+    ]);
+    expect(DISTANCE_STEPS[DISTANCE_STEPS.length - 1]).toBe(MAX_DISTANCE_KM);
+    for (const step of DISTANCE_STEPS) {
+      expect(roundDistance(step)).toBe(step);
+    }
+  });
+
+  it('should tell which distances round to a value', () => {
+    for (const rounded of [1, 2, 9, 10, 15, 115]) {
+      const [from, to] = getDistanceRange(rounded);
+      expect(roundDistance(from)).toBe(rounded);
+      expect(roundDistance(to - 1e-9)).toBe(rounded);
+      expect(roundDistance(to)).not.toBe(rounded);
+    }
+  });
+});
@@ -0,0 +1,82 @@
+import { ProfileLocation } from 'apps/user/src/interfaces/profile.interface';
+import { Location } from './interfaces/location.interface';
+
+export const EARTH_RADIUS_KM = 6378.1;
+export const MAX_DISTANCE_KM = 20000;
+
+// two decimals are about a kilometer, enough for discovery
+const COORDINATE_DECIMALS = 2;
+
+/**
+ * @description
+ * `[longitude, latitude]`, the order GeoJSON and Mongo use.
+ */
+export type Coordinates = [number, number];
+
+const round = (value: number, digits: number) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * The location as profiles store it, with the coordinates made coarse.
+ */
+export function toProfileLocation(
+  location: Location & { latitude: number; longitude: number },
+): ProfileLocation {
+  return {
+    point: {
+      type: 'Point',
+      coordinates: [
+        round(location.longitude, COORDINATE_DECIMALS),
+        round(location.latitude, COORDINATE_DECIMALS),
+      ],
+    },
+    ...(location.city ? { city: location.city.trim() } : {}),
+    ...(location.country ? { country: location.country.trim() } : {}),
+  };
+}
+
+/**
+ * The great-circle distance between two points.
+ */
+export function getDistanceKm(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLatitude = toRadians(b[1] - a[1]);
+  const dLongitude = toRadians(b[0] - a[0]);
+  const h =
+    Math.sin(dLatitude / 2) ** 2 +
+    Math.cos(toRadians(a[1])) *
+      Math.cos(toRadians(b[1])) *
+      Math.sin(dLongitude / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Distances are only shown rounded, more coarsely the farther they are, so
+ * nobody can be located from the distances others see: 1 km at least, whole
+ * kilometers up to 10 km and steps of 5 km beyond.
+ */
+export function roundDistance(km: number): number {
+  if (km < 1.5) return 1;
+  if (km < 10) return Math.round(km);
+  return Math.max(10, Math.round(km / 5) * 5);
+}
+
+/**
+ * What distances are rounded to, the only distances searches may be limited
+ * to: finer limits would tell more than the distances shown.
+ */
+export const DISTANCE_STEPS: number[] = [
+  ...Array.from({ length: 10 }, (_, i) => i + 1),
+  ...Array.from({ length: (MAX_DISTANCE_KM - 10) / 5 }, (_, i) => 15 + i * 5),
+];
+
+/**
+ * The distances `roundDistance` rounds to `rounded`, from inclusive to
+ * exclusive.
+ */
+export function getDistanceRange(rounded: number): [number, number] {
+  if (rounded <= 1) return [0, 1.5];
+  if (rounded < 10) return [rounded - 0.5, rounded + 0.5];
+  if (rounded === 10) return [9.5, 12.5];
+  return [rounded - 2.5, rounded + 2.5];
+}
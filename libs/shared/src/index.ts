@@ -1,2 +1,4 @@
 export * from './shared.module';
 export * from './shared.service';
+export * from './mail/mail.module';
+export * from './mail/mail.service';
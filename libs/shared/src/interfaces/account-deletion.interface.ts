@@ -0,0 +1,4 @@
+export interface AccountDeletion {
+  requestedAt: Date;
+  scheduledAt: Date;
+}
@@ -0,0 +1,4 @@
+export interface BlockedProfile {
+  profileId: string;
+  blockedAt: Date;
+}
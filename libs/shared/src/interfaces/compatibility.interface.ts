@@ -0,0 +1,16 @@
+/**
+ * @description
+ * Each part scores 0 to 100, or is null when one of the profiles lacks the
+ * data for it. `score` is the weighted mean of the parts that are set.
+ */
+export interface CompatibilityBreakdown {
+  horoscope: number | null;
+  zodiac: number | null;
+  interests: number | null;
+  preferences: number | null;
+}
+
+export interface Compatibility {
+  score: number;
+  breakdown: CompatibilityBreakdown;
+}
@@ -0,0 +1,28 @@
+export type DataExportStatus = 'pending' | 'running' | 'ready' | 'failed';
+
+/**
+ * @description
+ * What a user sees of their export. `downloadUrl` is only set once the
+ * archive is ready and expires on its own, well before `expiresAt`.
+ */
+export interface DataExportInfo {
+  id: string;
+  status: DataExportStatus;
+  requestedAt: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+  size?: number;
+  downloadUrl?: string;
+}
+
+/**
+ * @description
+ * Payload of `build-export`: the JSON documents to put in the archive, by
+ * path. The GridFS service adds the files the user owns.
+ */
+export interface BuildExport {
+  exportId: string;
+  userId: string;
+  expiresAt: Date;
+  documents: Record<string, unknown>;
+}
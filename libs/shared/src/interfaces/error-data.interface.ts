@@ -1,4 +1,9 @@
 export interface ErrorData {
   error: string;
   statusCode: number;
+  /**
+   * @description
+   * Seconds before the request is worth retrying, for rate limited errors.
+   */
+  retryAfter?: number;
 }
@@ -0,0 +1,51 @@
+import { InterestCategory, InterestStatus } from '../enums/interest.enum';
+
+export interface InterestInfo {
+  slug: string;
+  name: string;
+  category: InterestCategory | null;
+  synonyms: string[];
+  usageCount: number;
+}
+
+/**
+ * @description
+ * A submitted interest waiting for moderation. `submittedCount` is how
+ * many users asked for it.
+ */
+export interface PendingInterest {
+  slug: string;
+  name: string;
+  submittedCount: number;
+  submittedAt: Date;
+}
+
+export interface InterestQuery {
+  q?: string;
+  category?: InterestCategory;
+  limit?: number;
+}
+
+/**
+ * @description
+ * Interests as a user entered them, sorted out against the catalog:
+ * `interests` are the slugs of the known ones, `pending` the names waiting
+ * for moderation and `rejected` those moderators turned down.
+ */
+export interface InterestResolution {
+  interests: string[];
+  pending: string[];
+  rejected: string[];
+}
+
+/**
+ * @description
+ * Approve or reject a submitted interest, or make it a synonym of an
+ * approved one with `synonymOf`.
+ */
+export interface ReviewInterest {
+  status: Exclude<InterestStatus, 'pending'>;
+  name?: string;
+  category?: InterestCategory;
+  synonymOf?: string;
+}
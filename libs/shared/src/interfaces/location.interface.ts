@@ -0,0 +1,11 @@
+/**
+ * @description
+ * Where a user says they are. Coordinates are only ever shown to the user
+ * themselves.
+ */
+export interface Location {
+  latitude?: number;
+  longitude?: number;
+  city?: string;
+  country?: string;
+}
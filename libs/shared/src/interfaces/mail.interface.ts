@@ -0,0 +1,18 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  /**
+   * @description
+   * Name of the mail kind (e.g. `password-reset`), kept on the outbox entry
+   * so deliveries can be traced without reading the body.
+   */
+  template?: string;
+}
+
+export interface MailTransport {
+  deliver(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export type MailStatus = 'pending' | 'sent' | 'failed';
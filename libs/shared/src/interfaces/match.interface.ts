@@ -0,0 +1,33 @@
+import { PublicProfile } from 'apps/user/src/interfaces/profile.interface';
+import { SwipeAction } from '../enums/swipe.enum';
+
+export interface SwipeResult {
+  action: SwipeAction;
+  matched: boolean;
+}
+
+export interface MatchInfo {
+  profile: PublicProfile;
+  matchedAt: Date;
+}
+
+/**
+ * @description
+ * Payload of the `profile-matched` event, sent when two users liked each
+ * other. The ids are in the same order in both lists.
+ */
+export interface MatchEvent {
+  userIds: [string, string];
+  profileIds: [string, string];
+  matchedAt: Date;
+}
+
+/**
+ * @description
+ * Answer of `find-matched-profile-ids`: the profile of the user and those
+ * they matched with.
+ */
+export interface MatchedProfiles {
+  profileId: string | null;
+  matchedProfileIds: string[];
+}
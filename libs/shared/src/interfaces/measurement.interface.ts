@@ -0,0 +1,18 @@
+/**
+ * @description
+ * A height in centimeters, or in feet and inches.
+ */
+export interface Height {
+  readonly cm?: number;
+  readonly ft?: number;
+  readonly in?: number;
+}
+
+/**
+ * @description
+ * A weight in kilograms or in pounds.
+ */
+export interface Weight {
+  readonly kg?: number;
+  readonly lb?: number;
+}
@@ -0,0 +1,31 @@
+import { OnboardingStep } from '../enums/onboarding.enum';
+
+export type ProfileField =
+  | 'name'
+  | 'birthday'
+  | 'gender'
+  | 'height'
+  | 'weight'
+  | 'photos'
+  | 'interests';
+
+export interface ProfileCompleteness {
+  /**
+   * 0 to 100, weighted by field.
+   */
+  score: number;
+  missing: ProfileField[];
+}
+
+export interface OnboardingState {
+  step: OnboardingStep;
+  /**
+   * Null once onboarding is done.
+   */
+  nextStep: OnboardingStep | null;
+  /**
+   * What the profile lacks to reach `nextStep`.
+   */
+  missing: ProfileField[];
+  completeness: ProfileCompleteness;
+}
@@ -0,0 +1,11 @@
+/**
+ * @description
+ * A password hash in PHC string format:
+ * `$<id>$<param>=<value>,...$<base64 salt>$<base64 hash>`
+ */
+export interface PasswordHashParts {
+  id: string;
+  params: Record<string, number>;
+  salt: Buffer;
+  hash: Buffer;
+}
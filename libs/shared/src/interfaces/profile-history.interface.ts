@@ -0,0 +1,33 @@
+/**
+ * @description
+ * One field of a profile change. Fields that weren't set are null.
+ */
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ProfileHistoryQuery {
+  /**
+   * Only for admins, users see their own profile.
+   */
+  profileId?: string;
+  field?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ProfileChangeInfo {
+  id: string;
+  userId: string;
+  profileId: string;
+  changedBy: string;
+  changes: FieldChange[];
+  createdAt: Date;
+}
+
+export interface ProfileHistoryPage {
+  changes: ProfileChangeInfo[];
+  nextCursor: string | null;
+}
@@ -0,0 +1,34 @@
+export interface ProfilePhoto {
+  fileId: string;
+  addedAt: Date;
+}
+
+/**
+ * @description
+ * The photos of a profile in display order. `primaryPhotoId` is the avatar
+ * and null only while the gallery is empty.
+ */
+export interface ProfileGallery {
+  photos: ProfilePhoto[];
+  primaryPhotoId: string | null;
+}
+
+/**
+ * @description
+ * The gallery as clients see it, with the file ids resolved to URLs.
+ */
+export interface PhotoGallery {
+  photos: { fileId: string; url: string }[];
+  profileImage: string | null;
+}
+
+/**
+ * @description
+ * What the GridFS service tells about an upload, answer of `find-file`.
+ */
+export interface StoredFile {
+  id: string;
+  userId?: string;
+  contentType?: string;
+  length: number;
+}
@@ -0,0 +1,37 @@
+import { PublicProfile } from 'apps/user/src/interfaces/profile.interface';
+import { ProfileSort, SortOrder } from '../enums/profile-sort.enum';
+
+/**
+ * @description
+ * Filters of the profile discovery. Ranges are inclusive and `interests`
+ * matches profiles sharing at least one of them. `maxDistance` is in
+ * kilometers from the viewer's location.
+ */
+export interface ProfileQuery {
+  minAge?: number;
+  maxAge?: number;
+  gender?: boolean;
+  minHeight?: number;
+  maxHeight?: number;
+  minWeight?: number;
+  maxWeight?: number;
+  horoscope?: string;
+  zodiac?: string;
+  interests?: string[];
+  maxDistance?: number;
+  sort?: ProfileSort;
+  order?: SortOrder;
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * @description
+ * `total` counts every profile matching the filters, not just this page.
+ * `nextCursor` is null on the last page.
+ */
+export interface ProfilePage {
+  profiles: PublicProfile[];
+  total: number;
+  nextCursor: string | null;
+}
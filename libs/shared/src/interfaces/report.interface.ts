@@ -0,0 +1,60 @@
+import { ReportReason, ReportStatus } from '../enums/report.enum';
+
+/**
+ * @description
+ * Points at a chat message, by the room it was sent in and its id.
+ */
+export interface MessageReference {
+  roomId: string;
+  messageId: string;
+}
+
+/**
+ * @description
+ * A copy of a reported message, taken when the report is filed so it
+ * survives the message being edited or its author being deleted. Answer of
+ * the chat `find-reported-messages` pattern.
+ */
+export interface ReportedMessage extends MessageReference {
+  authorId: string;
+  text?: string;
+  createdAt?: string;
+}
+
+export interface CreateReport {
+  profileId: string;
+  reason: ReportReason;
+  details?: string;
+  messages?: MessageReference[];
+}
+
+export interface ReviewReport {
+  status: ReportStatus;
+  note?: string;
+}
+
+export interface ReportQuery {
+  status?: ReportStatus;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface ReportInfo {
+  id: string;
+  reporterId: string;
+  reportedUserId: string;
+  reportedProfileId: string;
+  reason: ReportReason;
+  details?: string;
+  messages: ReportedMessage[];
+  status: ReportStatus;
+  note?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  createdAt: Date;
+}
+
+export interface ReportPage {
+  reports: ReportInfo[];
+  nextCursor: string | null;
+}
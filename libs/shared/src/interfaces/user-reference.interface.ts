@@ -0,0 +1,11 @@
+/**
+ * @description
+ * Identifies a user towards other services, some of which (chat) only know
+ * users by their profile id. Payload of `purge-user` and `export-user`;
+ * `purge-user` handlers must be idempotent, the message is sent again until
+ * the service confirms it.
+ */
+export interface UserReference {
+  userId: string;
+  profileId?: string;
+}
@@ -1,7 +1,23 @@
 import { Document } from 'mongoose';
+import { Role } from '../enums/role.enum';
+import { UsernameHistoryEntry } from './username.interface';
 
 export interface User extends Document {
   readonly email: string;
   readonly username: string;
+  readonly usernameKey?: string;
+  readonly usernameChangedAt?: Date;
+  readonly usernameHistory?: UsernameHistoryEntry[];
   password: string;
+  readonly emailVerified?: boolean;
+  readonly emailVerifiedAt?: Date;
+  readonly verificationSentAt?: Date;
+  readonly roles?: Role[];
+  readonly deletionRequestedAt?: Date;
+  readonly deletionScheduledAt?: Date;
+  /**
+   * When the account purge was started, the user is not picked up for one
+   * again.
+   */
+  readonly purgeStartedAt?: Date;
 }
@@ -0,0 +1,10 @@
+export interface UsernameChange {
+  username: string;
+  changedAt?: Date;
+  nextChangeAt?: Date;
+}
+
+export interface UsernameHistoryEntry {
+  username: string;
+  changedAt: Date;
+}
@@ -0,0 +1,116 @@
+import { createPublicKey, generateKeyPairSync } from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+import { JsonWebKeySet, JwksVerifier } from './jwks-verifier';
+import { signEdDsaJwt } from './eddsa-jwt';
+
+describe('JwksVerifier', () => {
+  const jwtService = new JwtService();
+  const { privateKey, publicKey } = generateKeyPairSync('ec', {
+    namedCurve: 'P-256',
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+  const jwks: JsonWebKeySet = {
+    keys: [
+      {
+        ...createPublicKey(publicKey).export({ format: 'jwk' }),
+        kid: 'key-1',
+        alg: 'ES256',
+        use: 'sig',
+      },
+    ],
+  };
+
+  const sign = (kid: string) =>
+    jwtService.signAsync(
+      { sub: 'user-1' },
+      { privateKey, algorithm: 'ES256', keyid: kid, expiresIn: '3m' },
+    );
+
+  it('should verify tokens signed with a published key', async () => {
+    const fetchJwks = jest.fn().mockResolvedValue(jwks);
+    const verifier = new JwksVerifier(jwtService, fetchJwks);
+
+    await expect(verifier.verify(await sign('key-1'))).resolves.toMatchObject({
+      sub: 'user-1',
+    });
+    await verifier.verify(await sign('key-1'));
+    expect(fetchJwks).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not refetch keys for unknown key ids more than once per interval', async () => {
+    const fetchJwks = jest.fn().mockResolvedValue(jwks);
+    const verifier = new JwksVerifier(jwtService, fetchJwks);
+    const token = await sign('key-2');
+
+    await expect(verifier.verify(token)).rejects.toThrow('Unknown signing key');
+    await expect(verifier.verify(token)).rejects.toThrow('Unknown signing key');
+    expect(fetchJwks).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let tokens arriving during a fetch wait for its keys', async () => {
+    let resolve: (jwks: JsonWebKeySet) => void;
+    const fetchJwks = jest.fn(
+      () => new Promise<JsonWebKeySet>((done) => (resolve = done)),
+    );
+    const verifier = new JwksVerifier(jwtService, fetchJwks);
+    const token = await sign('key-1');
+
+    const first = verifier.verify(token);
+    const second = verifier.verify(token);
+    resolve(jwks);
+
+    await expect(first).resolves.toMatchObject({ sub: 'user-1' });
+    await expect(second).resolves.toMatchObject({ sub: 'user-1' });
+    expect(fetchJwks).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fetch again right away after a failed fetch', async () => {
+    const fetchJwks = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('auth is down'))
+      .mockResolvedValue(jwks);
+    const verifier = new JwksVerifier(jwtService, fetchJwks);
+    const token = await sign('key-1');
+
+    await expect(verifier.verify(token)).rejects.toThrow('auth is down');
+    await expect(verifier.verify(token)).resolves.toMatchObject({
+      sub: 'user-1',
+    });
+  });
+
+  it('should verify EdDSA tokens', async () => {
+    const keyPair = generateKeyPairSync('ed25519');
+    const verifier = new JwksVerifier(jwtService, async () => ({
+      keys: [
+        {
+          ...keyPair.publicKey.export({ format: 'jwk' }),
+          kid: 'key-3',
+          alg: 'EdDSA',
+          use: 'sig',
+        },
+      ],
+    }));
+    const token = signEdDsaJwt(
+      { sub: 'user-1' },
+      { privateKey: keyPair.privateKey, keyid: 'key-3', expiresInMs: 60000 },
+    );
+
+    await expect(verifier.verify(token)).resolves.toMatchObject({
+      sub: 'user-1',
+    });
+    await expect(verifier.verify(`${token.slice(0, -4)}AAAA`)).rejects.toThrow(
+      'Invalid signature',
+    );
+  });
+
+  it('should reject tokens signed with a shared secret', async () => {
+    const verifier = new JwksVerifier(jwtService, async () => jwks);
+    const token = await jwtService.signAsync(
+      { sub: 'user-1' },
+      { secret: 'secret', keyid: 'key-1' },
+    );
+
+    await expect(verifier.verify(token)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,93 @@
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { JwtService } from '@nestjs/jwt';
+import { verifyEdDsaJwt } from './eddsa-jwt';
+
+export type SigningAlgorithm = 'RS256' | 'ES256' | 'EdDSA';
+
+export const SIGNING_ALGORITHMS: SigningAlgorithm[] = [
+  'RS256',
+  'ES256',
+  'EdDSA',
+];
+
+export interface Jwk extends JsonWebKey {
+  kid: string;
+  alg: SigningAlgorithm;
+  use: 'sig';
+}
+
+export interface JsonWebKeySet {
+  keys: Jwk[];
+}
+
+const DEFAULT_MIN_REFRESH_MS = 30 * 1000;
+
+/**
+ * @description
+ * Verifies access tokens with the public keys the auth service publishes, so
+ * services don't need to ask auth about every token. Keys are cached and
+ * fetched again when a token names an unknown `kid`, at most once per
+ * `minRefreshMs` so tokens with made up key ids can't flood auth.
+ */
+export class JwksVerifier {
+  private keys = new Map<
+    string,
+    { algorithm: SigningAlgorithm; pem: string }
+  >();
+  private fetchedAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly fetchJwks: () => Promise<JsonWebKeySet>,
+    private readonly minRefreshMs = DEFAULT_MIN_REFRESH_MS,
+  ) {}
+
+  async verify<T extends object>(token: string): Promise<T> {
+    const decoded = this.jwtService.decode<{ header?: { kid?: string } }>(
+      token,
+      { complete: true },
+    );
+    const kid = decoded?.header?.kid;
+    if (!kid) throw new Error('Token has no key id');
+    if (!this.keys.has(kid)) await this.refresh();
+    const key = this.keys.get(kid);
+    if (!key) throw new Error(`Unknown signing key ${kid}`);
+    if (key.algorithm === 'EdDSA') return verifyEdDsaJwt<T>(token, key.pem);
+    return this.jwtService.verifyAsync<T>(token, {
+      publicKey: key.pem,
+      algorithms: [key.algorithm],
+    });
+  }
+
+  /**
+   * Tokens arriving while keys are being fetched wait for that fetch rather
+   * than being turned away by the cooldown.
+   */
+  private async refresh(): Promise<void> {
+    if (this.pending) return this.pending;
+    if (Date.now() - this.fetchedAt < this.minRefreshMs) return;
+    this.pending = this.load().finally(() => {
+      this.pending = null;
+    });
+    return this.pending;
+  }
+
+  private async load(): Promise<void> {
+    const jwks = await this.fetchJwks();
+    this.keys = new Map(
+      (jwks?.keys ?? [])
+        .filter((jwk) => SIGNING_ALGORITHMS.includes(jwk.alg))
+        .map((jwk) => [
+          jwk.kid,
+          {
+            algorithm: jwk.alg,
+            pem: createPublicKey({ key: jwk, format: 'jwk' })
+              .export({ type: 'spki', format: 'pem' })
+              .toString(),
+          },
+        ]),
+    );
+    this.fetchedAt = Date.now();
+  }
+}
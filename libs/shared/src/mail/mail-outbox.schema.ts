@@ -0,0 +1,27 @@
+import { Document, Schema } from 'mongoose';
+import { MailMessage, MailStatus } from '../interfaces/mail.interface';
+
+export const MailOutboxSchema = new Schema({
+  to: String,
+  subject: String,
+  text: String,
+  html: String,
+  template: String,
+  status: { type: String, default: 'pending' },
+  attempts: { type: Number, default: 0 },
+  lastError: String,
+  createdAt: { type: Date, default: Date.now },
+  sentAt: Date,
+});
+
+MailOutboxSchema.index({ status: 1, createdAt: 1 });
+
+export interface MailOutbox extends MailMessage {
+  status: MailStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: Date;
+  sentAt?: Date;
+}
+
+export interface MailOutboxDocument extends Document, MailOutbox {}
@@ -0,0 +1,39 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MongooseModule } from '@nestjs/mongoose';
+import { MailOutboxSchema } from './mail-outbox.schema';
+import { MailService } from './mail.service';
+import { ConsoleMailTransport } from './transports/console.transport';
+import { FileMailTransport } from './transports/file.transport';
+
+/**
+ * @description
+ * Needs a mongoose connection from the importing app. The transport is picked
+ * with `MAIL_TRANSPORT` (`console` or `file`, the latter writing into
+ * `MAIL_OUTBOX_DIR`).
+ */
+@Module({
+  imports: [
+    MongooseModule.forFeature([
+      { name: 'MailOutbox', schema: MailOutboxSchema },
+    ]),
+  ],
+  providers: [
+    MailService,
+    {
+      provide: 'MAIL_TRANSPORT',
+      useFactory: (configService: ConfigService) => {
+        const TRANSPORT = configService.get('MAIL_TRANSPORT');
+        const DIRECTORY = configService.get('MAIL_OUTBOX_DIR');
+
+        if (TRANSPORT === 'file') {
+          return new FileMailTransport(DIRECTORY ?? 'mail-outbox');
+        }
+        return new ConsoleMailTransport();
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
@@ -0,0 +1,81 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getModelToken } from '@nestjs/mongoose';
+import { MailService } from './mail.service';
+import { MailTransport } from '../interfaces/mail.interface';
+
+class OutboxEntry {
+  status = 'pending';
+  attempts = 0;
+  save = jest.fn().mockResolvedValue(this);
+
+  constructor(data: object) {
+    Object.assign(this, data);
+  }
+}
+
+describe('MailService', () => {
+  let service: MailService;
+  let transport: MailTransport;
+  let entries: OutboxEntry[];
+
+  beforeEach(async () => {
+    entries = [];
+    transport = { deliver: jest.fn().mockResolvedValue(undefined) };
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailService,
+        { provide: 'MAIL_TRANSPORT', useValue: transport },
+        { provide: ConfigService, useValue: { get: () => 'test@youapp' } },
+        {
+          provide: getModelToken('MailOutbox'),
+          useValue: function (data: object) {
+            const entry = new OutboxEntry(data);
+            entries.push(entry);
+            return entry;
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MailService>(MailService);
+  });
+
+  it('should deliver a mail and drop its body from the outbox', async () => {
+    const result = await service.send({
+      to: 'user@test.id',
+      subject: 'Hello',
+      text: 'secret link',
+    });
+
+    expect(result).toBe(true);
+    expect(transport.deliver).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: 'test@youapp',
+        to: 'user@test.id',
+        text: 'secret link',
+      }),
+    );
+    expect(entries[0]).toMatchObject({ status: 'sent', attempts: 1 });
+    expect(entries[0]).not.toHaveProperty('text', 'secret link');
+  });
+
+  it('should keep a failed mail in the outbox for a retry', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    (transport.deliver as jest.Mock).mockRejectedValue(new Error('down'));
+
+    const result = await service.send({
+      to: 'user@test.id',
+      subject: 'Hello',
+      text: 'secret link',
+    });
+
+    expect(result).toBe(false);
+    expect(entries[0]).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      text: 'secret link',
+      lastError: 'Error: down',
+    });
+  });
+});
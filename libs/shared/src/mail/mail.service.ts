@@ -0,0 +1,93 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { InjectModel } from '@nestjs/mongoose';
+import { ConfigService } from '@nestjs/config';
+import { Model } from 'mongoose';
+import { MailMessage, MailTransport } from '../interfaces/mail.interface';
+import { MailOutbox, MailOutboxDocument } from './mail-outbox.schema';
+
+const RETRY_INTERVAL_MS = 60 * 1000;
+const MAX_ATTEMPTS = 5;
+
+/**
+ * @description
+ * Every mail is written to the outbox collection first and then handed to the
+ * configured transport. Failed deliveries stay in the outbox and are retried
+ * in the background. The body is dropped once a mail is sent, since it may
+ * hold one-time links.
+ */
+@Injectable()
+export class MailService implements OnModuleInit, OnModuleDestroy {
+  private retryTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectModel('MailOutbox')
+    private readonly outboxModel: Model<MailOutbox>,
+    @Inject('MAIL_TRANSPORT') private readonly transport: MailTransport,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit(): void {
+    this.retryTimer = setInterval(
+      () => this.flush().catch((error) => console.log(error)),
+      RETRY_INTERVAL_MS,
+    );
+    this.retryTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.retryTimer);
+  }
+
+  async send(message: MailMessage): Promise<boolean> {
+    const entry = await new this.outboxModel(message).save();
+    return this.deliver(entry);
+  }
+
+  async flush(): Promise<void> {
+    const entries = await this.outboxModel
+      .find({
+        attempts: { $lt: MAX_ATTEMPTS },
+        $or: [
+          { status: 'failed' },
+          {
+            status: 'pending',
+            createdAt: { $lt: new Date(Date.now() - RETRY_INTERVAL_MS) },
+          },
+        ],
+      })
+      .exec();
+    for (const entry of entries) {
+      await this.deliver(entry);
+    }
+  }
+
+  private async deliver(entry: MailOutboxDocument): Promise<boolean> {
+    entry.attempts += 1;
+    try {
+      await this.transport.deliver({
+        from: this.configService.get<string>('MAIL_FROM') ?? 'no-reply@youapp',
+        to: entry.to,
+        subject: entry.subject,
+        text: entry.text,
+        html: entry.html,
+        template: entry.template,
+      });
+      entry.status = 'sent';
+      entry.sentAt = new Date();
+      entry.lastError = undefined;
+      entry.text = undefined;
+      entry.html = undefined;
+    } catch (error) {
+      console.log(error);
+      entry.status = 'failed';
+      entry.lastError = String(error);
+    }
+    await entry.save();
+    return entry.status === 'sent';
+  }
+}
@@ -0,0 +1,12 @@
+import { Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from '../../interfaces/mail.interface';
+
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  async deliver(message: MailMessage & { from: string }): Promise<void> {
+    this.logger.log(
+      `From: ${message.from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`,
+    );
+  }
+}
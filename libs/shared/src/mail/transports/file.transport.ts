@@ -0,0 +1,22 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { randomUUID } from 'crypto';
+import { MailMessage, MailTransport } from '../../interfaces/mail.interface';
+
+/**
+ * @description
+ * Writes every mail as a JSON file into `directory`, so local runs and tests
+ * can read what would have been sent.
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async deliver(message: MailMessage & { from: string }): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${randomUUID()}.json`;
+    await writeFile(
+      join(this.directory, fileName),
+      JSON.stringify({ ...message, date: new Date().toISOString() }, null, 2),
+    );
+  }
+}
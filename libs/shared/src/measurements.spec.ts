@@ -0,0 +1,38 @@
+import {
+  formatHeight,
+  formatWeight,
+  toCentimeters,
+  toKilograms,
+} from './measurements';
+
+describe('measurements', () => {
+  it('should normalize heights to centimeters', () => {
+    expect(toCentimeters({ cm: 172 })).toBe(172);
+    expect(toCentimeters({ ft: 5, in: 10 })).toBe(177.8);
+    expect(toCentimeters({ in: 70 })).toBe(177.8);
+    expect(toCentimeters({ ft: 6 })).toBe(182.88);
+  });
+
+  it('should reject heights mixing units, without a value or out of range', () => {
+    expect(toCentimeters({ cm: 172, in: 2 })).toBeNull();
+    expect(toCentimeters({})).toBeNull();
+    expect(toCentimeters({ cm: 30 })).toBeNull();
+    expect(toCentimeters({ ft: 10 })).toBeNull();
+  });
+
+  it('should normalize weights to kilograms', () => {
+    expect(toKilograms({ kg: 68 })).toBe(68);
+    expect(toKilograms({ lb: 150 })).toBe(68.04);
+    expect(toKilograms({ kg: 68, lb: 150 })).toBeNull();
+    expect(toKilograms({})).toBeNull();
+    expect(toKilograms({ lb: 1000 })).toBeNull();
+  });
+
+  it('should show stored values in either unit system', () => {
+    expect(formatHeight(177.8, 'metric')).toEqual({ cm: 177.8 });
+    expect(formatHeight(177.8, 'imperial')).toEqual({ ft: 5, in: 10 });
+    expect(formatHeight(182.87, 'imperial')).toEqual({ ft: 6, in: 0 });
+    expect(formatWeight(68.04, 'metric')).toEqual({ kg: 68 });
+    expect(formatWeight(68.04, 'imperial')).toEqual({ lb: 150 });
+  });
+});
@@ -0,0 +1,52 @@
+import { UNIT_SYSTEM, UnitSystem } from './enums/unit-system.enum';
+import { Height, Weight } from './interfaces/measurement.interface';
+
+export const MIN_HEIGHT_CM = 50;
+export const MAX_HEIGHT_CM = 275;
+export const MIN_WEIGHT_KG = 20;
+export const MAX_WEIGHT_KG = 400;
+
+const CM_PER_INCH = 2.54;
+const KG_PER_POUND = 0.45359237;
+
+// stored values keep enough digits to show whole inches and pounds again
+const round = (value: number, digits: number) =>
+  Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * The height in centimeters, or null when it mixes unit systems, has no
+ * value or is out of range.
+ */
+export function toCentimeters(height: Height): number | null {
+  const isImperial = height.ft !== undefined || height.in !== undefined;
+  if (isImperial === (height.cm !== undefined)) return null;
+  const cm = isImperial
+    ? ((height.ft ?? 0) * 12 + (height.in ?? 0)) * CM_PER_INCH
+    : height.cm;
+  if (cm < MIN_HEIGHT_CM || cm > MAX_HEIGHT_CM) return null;
+  return round(cm, 2);
+}
+
+/**
+ * The weight in kilograms, or null when it has none or both units or is
+ * out of range.
+ */
+export function toKilograms(weight: Weight): number | null {
+  if ((weight.kg === undefined) === (weight.lb === undefined)) return null;
+  const kg = weight.kg ?? weight.lb * KG_PER_POUND;
+  if (kg < MIN_WEIGHT_KG || kg > MAX_WEIGHT_KG) return null;
+  return round(kg, 2);
+}
+
+export function formatHeight(cm: number, units: UnitSystem): Height {
+  if (units !== UNIT_SYSTEM.Imperial) return { cm: round(cm, 1) };
+  const inches = round(cm / CM_PER_INCH, 1);
+  const ft = Math.floor(inches / 12);
+  return { ft, in: round(inches - ft * 12, 1) };
+}
+
+export function formatWeight(kg: number, units: UnitSystem): Weight {
+  return units === UNIT_SYSTEM.Imperial
+    ? { lb: round(kg / KG_PER_POUND, 1) }
+    : { kg: round(kg, 1) };
+}
@@ -0,0 +1,41 @@
+import { randomBytes, scryptSync } from 'crypto';
+import { PasswordHasher } from './password-hasher';
+import { SCRYPT_POLICY, Scrypt } from './scrypt';
+
+describe('PasswordHasher', () => {
+  it('should hash into a self-describing scrypt string', async () => {
+    const hash = await PasswordHasher.hash('secret123');
+
+    expect(hash).toMatch(/^\$scrypt\$ln=15,r=8,p=1\$[^$]+\$[^$]+$/);
+    expect(await PasswordHasher.verify('secret123', hash)).toBe(true);
+    expect(await PasswordHasher.verify('secret124', hash)).toBe(false);
+    expect(PasswordHasher.needsRehash(hash)).toBe(false);
+  });
+
+  it('should still accept legacy salt:key hashes and ask for a rehash', async () => {
+    const salt = randomBytes(16).toString('hex');
+    const legacy =
+      salt + ':' + scryptSync('secret123', salt, 64).toString('hex');
+
+    expect(await PasswordHasher.verify('secret123', legacy)).toBe(true);
+    expect(await PasswordHasher.verify('secret124', legacy)).toBe(false);
+    expect(PasswordHasher.needsRehash(legacy)).toBe(true);
+  });
+
+  it('should verify hashes made with older parameters and ask for a rehash', async () => {
+    const older = PasswordHasher.format(
+      await Scrypt.hashPassword('secret123', { ...SCRYPT_POLICY, ln: 12 }),
+    );
+
+    expect(await PasswordHasher.verify('secret123', older)).toBe(true);
+    expect(PasswordHasher.needsRehash(older)).toBe(true);
+  });
+
+  it('should reject unknown or malformed hashes', async () => {
+    expect(await PasswordHasher.verify('secret123', '$argon2id$v=19$a$b')).toBe(
+      false,
+    );
+    expect(await PasswordHasher.verify('secret123', 'garbage')).toBe(false);
+    expect(await PasswordHasher.verify('secret123', '')).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { PasswordHashParts } from './interfaces/password-hash.interface';
+import { Scrypt } from './scrypt';
+
+/**
+ * @description
+ * Entry point for hashing and checking passwords. Hashes are stored in PHC
+ * string format, so the algorithm and its cost parameters travel with every
+ * hash. Supporting another algorithm (argon2, bcrypt) means handling its id
+ * in `verify` and `needsRehash`.
+ */
+export class PasswordHasher {
+  static async hash(password: string): Promise<string> {
+    return PasswordHasher.format(await Scrypt.hashPassword(password));
+  }
+
+  static async verify(password: string, encoded: string): Promise<boolean> {
+    if (!encoded) return false;
+    if (PasswordHasher.isLegacy(encoded)) {
+      return Scrypt.verifyLegacyPassword(password, encoded);
+    }
+    const parts = PasswordHasher.parse(encoded);
+    if (parts === null) return false;
+    switch (parts.id) {
+      case Scrypt.id:
+        return Scrypt.verifyPassword(password, parts);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * True when the hash was made with another algorithm or other parameters
+   * than the current policy, and should be replaced on the next login.
+   */
+  static needsRehash(encoded: string): boolean {
+    if (PasswordHasher.isLegacy(encoded)) return true;
+    const parts = PasswordHasher.parse(encoded);
+    if (parts === null || parts.id !== Scrypt.id) return true;
+    return !Scrypt.isCurrent(parts.params);
+  }
+
+  static format({ id, params, salt, hash }: PasswordHashParts): string {
+    const encodedParams = Object.entries(params)
+      .map(([key, value]) => `${key}=${value}`)
+      .join(',');
+    return `$${id}$${encodedParams}$${salt.toString('base64')}$${hash.toString(
+      'base64',
+    )}`;
+  }
+
+  static parse(encoded: string): PasswordHashParts | null {
+    const [empty, id, encodedParams, salt, hash] = encoded.split('$');
+    if (empty !== '' || !id || !salt || !hash) return null;
+    const params: Record<string, number> = {};
+    for (const param of (encodedParams ?? '').split(',')) {
+      const [key, value] = param.split('=');
+      if (!key || value === undefined) return null;
+      params[key] = Number(value);
+    }
+    return {
+      id,
+      params,
+      salt: Buffer.from(salt, 'base64'),
+      hash: Buffer.from(hash, 'base64'),
+    };
+  }
+
+  private static isLegacy(encoded: string): boolean {
+    return !encoded.startsWith('$') && encoded.includes(':');
+  }
+}
@@ -0,0 +1,31 @@
+import { checkPasswordStrength, PasswordPolicy } from './password-policy';
+
+describe('checkPasswordStrength', () => {
+  const policy: PasswordPolicy = {
+    minLength: 8,
+    maxLength: 128,
+    minCharacterClasses: 3,
+  };
+
+  it('should accept a long enough password mixing character classes', () => {
+    expect(checkPasswordStrength('Tr0ub4dor&3', {}, policy)).toEqual([]);
+  });
+
+  it('should reject short and single-class passwords', () => {
+    expect(checkPasswordStrength('abc', {}, policy)).toEqual([
+      'must be at least 8 characters long',
+      'must mix at least 3 of lowercase, uppercase, digits and symbols',
+    ]);
+  });
+
+  it('should reject passwords containing the username or email', () => {
+    const account = { username: 'angga', email: 'danar@youapp.ai' };
+
+    expect(checkPasswordStrength('Angga#2024', account, policy)).toEqual([
+      'must not contain the username or email',
+    ]);
+    expect(checkPasswordStrength('xDANAR-99', account, policy)).toEqual([
+      'must not contain the username or email',
+    ]);
+  });
+});
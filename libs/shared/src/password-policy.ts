@@ -0,0 +1,59 @@
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  minCharacterClasses: number;
+}
+
+const CHARACTER_CLASSES = [/[a-z]/, /[A-Z]/, /[0-9]/, /[^a-zA-Z0-9]/];
+
+/**
+ * @description
+ * Rules for passwords chosen through password change or reset, on top of the
+ * DTO validation. Character classes are lowercase, uppercase, digits and
+ * symbols. The maximum length keeps hashing cost bounded.
+ */
+export function getPasswordPolicy(): PasswordPolicy {
+  return {
+    minLength: Number(process.env.PASSWORD_MIN_LENGTH) || 8,
+    maxLength: 128,
+    minCharacterClasses: Math.min(
+      Number(process.env.PASSWORD_MIN_CHARACTER_CLASSES) || 3,
+      CHARACTER_CLASSES.length,
+    ),
+  };
+}
+
+/**
+ * Resolves to the rules the password breaks, empty when it is acceptable.
+ * Passwords containing the username or the local part of the email are
+ * rejected too.
+ */
+export function checkPasswordStrength(
+  password: string,
+  account: { username?: string; email?: string } = {},
+  policy: PasswordPolicy = getPasswordPolicy(),
+): string[] {
+  const violations: string[] = [];
+  if (password.length < policy.minLength) {
+    violations.push(`must be at least ${policy.minLength} characters long`);
+  }
+  if (password.length > policy.maxLength) {
+    violations.push(`must be at most ${policy.maxLength} characters long`);
+  }
+  const classes = CHARACTER_CLASSES.filter((pattern) =>
+    pattern.test(password),
+  ).length;
+  if (classes < policy.minCharacterClasses) {
+    violations.push(
+      `must mix at least ${policy.minCharacterClasses} of lowercase, uppercase, digits and symbols`,
+    );
+  }
+  const lowered = password.toLowerCase();
+  const personal = [account.username, account.email?.split('@')[0]].filter(
+    (value): value is string => !!value && value.length >= 3,
+  );
+  if (personal.some((value) => lowered.includes(value.toLowerCase()))) {
+    violations.push('must not contain the username or email');
+  }
+  return violations;
+}
@@ -0,0 +1,96 @@
+import { Types } from 'mongoose';
+import { Profile } from 'apps/user/src/interfaces/profile.interface';
+import { redactProfile, serializeProfile } from './profile-serializer';
+
+describe('serializeProfile', () => {
+  const profile = {
+    _id: new Types.ObjectId(),
+    pId: '',
+    userId: 'user-1',
+    name: 'Angga',
+    birthday: '1995-08-17',
+    gender: true,
+    heightInCm: 172,
+    weightInKg: 68,
+    horoscope: 'Leo',
+    zodiac: 'Pig',
+    interests: ['music'],
+    preferences: { minAge: 20 },
+    privacy: {
+      birthday: 'nobody',
+      weight: 'matches',
+      horoscope: 'matches',
+    },
+    location: {
+      point: { type: 'Point', coordinates: [106.85, -6.21] },
+      city: 'Jakarta',
+    },
+    photos: [{ fileId: 'file-1', addedAt: new Date() }],
+    primaryPhotoId: 'file-1',
+  } satisfies Profile & { _id: Types.ObjectId };
+
+  beforeEach(() => {
+    process.env.GRIDFS_FILE_URL = 'http://files';
+  });
+
+  it('should hide fields by their visibility and never show the user id', () => {
+    const publicProfile = serializeProfile(profile, 'public');
+    expect(publicProfile).toEqual({
+      pId: profile._id.toString(),
+      name: 'Angga',
+      gender: true,
+      heightInCm: 172,
+      height: { cm: 172 },
+      interests: ['music'],
+      location: { city: 'Jakarta' },
+      photos: [{ fileId: 'file-1', url: 'http://files/file-1' }],
+      profileImage: 'http://files/file-1',
+    });
+    expect(serializeProfile(profile, 'match')).toMatchObject({
+      weightInKg: 68,
+      horoscope: 'Leo',
+      zodiac: 'Pig',
+    });
+    expect(serializeProfile(profile, 'match')).not.toHaveProperty('birthday');
+  });
+
+  it('should show owners everything but the user id', () => {
+    const own = serializeProfile(profile, 'self', { username: 'angga' });
+    expect(own).toMatchObject({
+      username: 'angga',
+      birthday: '1995-08-17',
+      preferences: { minAge: 20 },
+      privacy: profile.privacy,
+      location: { latitude: -6.21, longitude: 106.85, city: 'Jakarta' },
+    });
+    expect(own).not.toHaveProperty('distanceKm');
+    expect(own).not.toHaveProperty('userId');
+  });
+
+  it("should give height and weight in the viewer's units", () => {
+    expect(
+      serializeProfile(profile, 'match', { units: 'imperial' }),
+    ).toMatchObject({
+      heightInCm: 172,
+      height: { ft: 5, in: 7.7 },
+      weightInKg: 68,
+      weight: { lb: 149.9 },
+    });
+    expect(serializeProfile(profile, 'public')).not.toHaveProperty('weight');
+  });
+
+  it('should only give a rounded distance to others', () => {
+    const seen = serializeProfile(profile, 'public', {
+      origin: [107.61, -6.91],
+    });
+    expect(seen.distanceKm).toBe(115);
+    expect(seen.location).toEqual({ city: 'Jakarta' });
+  });
+
+  it('should keep preferences when redacting for scoring', () => {
+    const redacted = redactProfile(profile, 'public');
+    expect(redacted.preferences).toEqual({ minAge: 20 });
+    expect(redacted.birthday).toBeUndefined();
+    expect(redacted.zodiac).toBeUndefined();
+  });
+});
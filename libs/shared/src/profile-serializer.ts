@@ -0,0 +1,176 @@
+import {
+  Profile,
+  ProfileLocation,
+  ProfilePrivacy,
+  PublicProfile,
+} from 'apps/user/src/interfaces/profile.interface';
+import { VISIBILITY, Visibility } from './enums/visibility.enum';
+import { UNIT_SYSTEM, UnitSystem } from './enums/unit-system.enum';
+import { formatHeight, formatWeight } from './measurements';
+import { Coordinates, getDistanceKm, roundDistance } from './geo';
+import { Location } from './interfaces/location.interface';
+import {
+  PhotoGallery,
+  ProfileGallery,
+} from './interfaces/profile-photo.interface';
+
+/**
+ * @description
+ * Who looks at a profile: its owner, someone they matched with, or anyone
+ * else.
+ */
+export type ProfileAudience = 'self' | 'match' | 'public';
+
+export type PrivacyField = keyof ProfilePrivacy;
+
+export interface SerializeOptions {
+  /**
+   * The username of the profile owner, only known for their own profile.
+   */
+  readonly username?: string;
+  /**
+   * The units the viewer wants heights and weights in.
+   */
+  readonly units?: UnitSystem;
+  /**
+   * Where the viewer is, to tell how far away the profile is.
+   */
+  readonly origin?: Coordinates;
+}
+
+/**
+ * @description
+ * The profile fields each privacy setting hides.
+ */
+export const PRIVACY_FIELDS: Record<PrivacyField, (keyof Profile)[]> = {
+  birthday: ['birthday'],
+  weight: ['weightInKg'],
+  height: ['heightInCm'],
+  horoscope: ['horoscope', 'zodiac'],
+  interests: ['interests'],
+};
+
+const PROFILE_FIELDS: (keyof Profile)[] = [
+  'name',
+  'birthday',
+  'gender',
+  'heightInCm',
+  'weightInKg',
+  'horoscope',
+  'zodiac',
+  'interests',
+  'preferences',
+  'privacy',
+  'units',
+  'location',
+  'photos',
+  'primaryPhotoId',
+];
+
+export function isVisible(
+  visibility: Visibility | undefined,
+  audience: ProfileAudience,
+): boolean {
+  switch (visibility ?? VISIBILITY.Everyone) {
+    case VISIBILITY.Everyone:
+      return true;
+    case VISIBILITY.Matches:
+      return audience !== 'public';
+    default:
+      return audience === 'self';
+  }
+}
+
+/**
+ * A plain copy of the profile without the fields hidden from `audience`,
+ * and without its ids. Preferences and settings are kept, for scoring.
+ */
+export function redactProfile(
+  profile: Profile,
+  audience: ProfileAudience,
+): Profile {
+  const hidden = (Object.keys(PRIVACY_FIELDS) as PrivacyField[])
+    .filter((field) => !isVisible(profile.privacy?.[field], audience))
+    .flatMap((field) => PRIVACY_FIELDS[field]);
+  const redacted: Partial<Record<keyof Profile, unknown>> = {};
+  for (const field of PROFILE_FIELDS) {
+    if (profile[field] !== undefined && !hidden.includes(field)) {
+      redacted[field] = profile[field];
+    }
+  }
+  return redacted as Profile;
+}
+
+/**
+ * The profile as `audience` gets to see it. Every profile that leaves the
+ * backend goes through here.
+ */
+export function serializeProfile(
+  profile: Profile & { _id?: unknown },
+  audience: ProfileAudience,
+  { username, units = UNIT_SYSTEM.Metric, origin }: SerializeOptions = {},
+): PublicProfile {
+  const {
+    photos,
+    primaryPhotoId,
+    preferences,
+    privacy,
+    units: ownUnits,
+    location,
+    interests,
+    ...fields
+  } = redactProfile(profile, audience);
+  const point = location?.point?.coordinates;
+  return {
+    pId: String(profile._id),
+    ...(username !== undefined ? { username } : {}),
+    ...fields,
+    ...(location ? { location: toPublicLocation(location, audience) } : {}),
+    ...(audience !== 'self' && origin && point?.length === 2
+      ? { distanceKm: roundDistance(getDistanceKm(origin, point)) }
+      : {}),
+    ...(fields.heightInCm !== undefined
+      ? { height: formatHeight(fields.heightInCm, units) }
+      : {}),
+    ...(fields.weightInKg !== undefined
+      ? { weight: formatWeight(fields.weightInKg, units) }
+      : {}),
+    ...(interests?.length ? { interests } : {}),
+    ...(audience === 'self' ? { preferences, privacy, units: ownUnits } : {}),
+    ...resolveGallery({
+      photos: photos ?? [],
+      primaryPhotoId: primaryPhotoId ?? null,
+    }),
+  };
+}
+
+/**
+ * Only owners see their coordinates, everyone else gets city and country.
+ */
+function toPublicLocation(
+  location: ProfileLocation,
+  audience: ProfileAudience,
+): Location {
+  const [longitude, latitude] = location.point?.coordinates ?? [];
+  return {
+    ...(audience === 'self' && latitude !== undefined
+      ? { latitude, longitude }
+      : {}),
+    ...(location.city ? { city: location.city } : {}),
+    ...(location.country ? { country: location.country } : {}),
+  };
+}
+
+/**
+ * Photos are served by the GridFS service at `GRIDFS_FILE_URL/<fileId>`.
+ */
+export function resolveGallery(gallery: ProfileGallery): PhotoGallery {
+  const toUrl = (fileId: string) => `${process.env.GRIDFS_FILE_URL}/${fileId}`;
+  return {
+    photos: gallery.photos.map(({ fileId }) => ({
+      fileId,
+      url: toUrl(fileId),
+    })),
+    profileImage: gallery.primaryPhotoId ? toUrl(gallery.primaryPhotoId) : null,
+  };
+}
@@ -0,0 +1,36 @@
+import { RevokedSessions } from './revoked-sessions';
+
+describe('RevokedSessions', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should fetch revocations at most once per interval', async () => {
+    const fetchRevoked = jest.fn().mockResolvedValue(['session-1']);
+    const revokedSessions = new RevokedSessions(fetchRevoked, 5000);
+
+    await expect(revokedSessions.isRevoked('session-1')).resolves.toBe(true);
+    await expect(revokedSessions.isRevoked('session-2')).resolves.toBe(false);
+    expect(fetchRevoked).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pick up new revocations after the interval', async () => {
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const fetchRevoked = jest
+      .fn()
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce(['session-1']);
+    const revokedSessions = new RevokedSessions(fetchRevoked, 5000);
+
+    await expect(revokedSessions.isRevoked('session-1')).resolves.toBe(false);
+    jest.spyOn(Date, 'now').mockReturnValue(now + 5000);
+    await expect(revokedSessions.isRevoked('session-1')).resolves.toBe(true);
+  });
+
+  it('should fail when auth does not answer', async () => {
+    const revokedSessions = new RevokedSessions(async () => null);
+
+    await expect(revokedSessions.isRevoked('session-1')).rejects.toThrow(
+      'Revoked sessions could not be fetched',
+    );
+  });
+});
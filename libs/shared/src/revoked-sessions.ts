@@ -0,0 +1,38 @@
+const DEFAULT_REFRESH_MS = 5 * 1000;
+
+/**
+ * @description
+ * The sessions auth revoked recently enough that access tokens issued to
+ * them may still be valid. Services verifying access tokens locally check
+ * them here, so logging out or revoking a session cuts its device off
+ * within `refreshMs` instead of when its access token expires.
+ */
+export class RevokedSessions {
+  private revoked = new Set<string>();
+  private fetchedAt = 0;
+  private pending: Promise<void> | null = null;
+
+  constructor(
+    private readonly fetchRevoked: () => Promise<string[] | null>,
+    private readonly refreshMs = DEFAULT_REFRESH_MS,
+  ) {}
+
+  async isRevoked(sessionId: string): Promise<boolean> {
+    if (Date.now() - this.fetchedAt >= this.refreshMs) {
+      this.pending ??= this.load().finally(() => {
+        this.pending = null;
+      });
+      await this.pending;
+    }
+    return this.revoked.has(sessionId);
+  }
+
+  private async load(): Promise<void> {
+    const sessionIds = await this.fetchRevoked();
+    if (sessionIds === null) {
+      throw new Error('Revoked sessions could not be fetched');
+    }
+    this.revoked = new Set(sessionIds);
+    this.fetchedAt = Date.now();
+  }
+}
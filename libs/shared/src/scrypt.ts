@@ -1,18 +1,102 @@
-import { randomBytes, scryptSync } from 'crypto';
+import { randomBytes, scrypt, ScryptOptions, timingSafeEqual } from 'crypto';
+import { PasswordHashParts } from './interfaces/password-hash.interface';
+
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+export interface ScryptParams {
+  ln: number;
+  r: number;
+  p: number;
+}
+
+/**
+ * @description
+ * Cost parameters for new hashes. Stored hashes with other parameters are
+ * rehashed on the next successful login.
+ */
+export const SCRYPT_POLICY: ScryptParams = { ln: 15, r: 8, p: 1 };
+
+// parameters of the `salt:key` hashes stored before hashes were versioned
+const LEGACY_PARAMS: ScryptParams = { ln: 14, r: 8, p: 1 };
 
 export class Scrypt {
-  static async hashPassword(password: string): Promise<string> {
-    const salt = randomBytes(16).toString('hex');
-    const derivedKey = scryptSync(password, salt, 64).toString('hex');
-    return salt + ':' + derivedKey;
+  static readonly id = 'scrypt';
+
+  static async hashPassword(
+    password: string,
+    params: ScryptParams = SCRYPT_POLICY,
+  ): Promise<PasswordHashParts> {
+    const salt = randomBytes(SALT_LENGTH);
+    const hash = await Scrypt.derive(password, salt, KEY_LENGTH, params);
+    return { id: Scrypt.id, params: { ...params }, salt, hash };
   }
 
   static async verifyPassword(
+    password: string,
+    parts: PasswordHashParts,
+  ): Promise<boolean> {
+    const params = Scrypt.toParams(parts.params);
+    if (params === null || parts.hash.length === 0) return false;
+    const derivedKey = await Scrypt.derive(
+      password,
+      parts.salt,
+      parts.hash.length,
+      params,
+    );
+    return timingSafeEqual(derivedKey, parts.hash);
+  }
+
+  /**
+   * Verify a legacy `salt:key` hash, where the hex salt string itself was
+   * used as the salt.
+   */
+  static async verifyLegacyPassword(
     password: string,
     hash: string,
   ): Promise<boolean> {
     const [salt, key] = hash.split(':');
-    const derivedKey = scryptSync(password, salt, 64).toString('hex');
-    return key === derivedKey;
+    if (!salt || !key) return false;
+    const storedKey = Buffer.from(key, 'hex');
+    if (storedKey.length === 0) return false;
+    const derivedKey = await Scrypt.derive(
+      password,
+      salt,
+      storedKey.length,
+      LEGACY_PARAMS,
+    );
+    return timingSafeEqual(derivedKey, storedKey);
+  }
+
+  static isCurrent(params: Record<string, number>): boolean {
+    return (
+      params.ln === SCRYPT_POLICY.ln &&
+      params.r === SCRYPT_POLICY.r &&
+      params.p === SCRYPT_POLICY.p
+    );
+  }
+
+  private static toParams(params: Record<string, number>): ScryptParams | null {
+    const { ln, r, p } = params;
+    if (![ln, r, p].every((value) => Number.isInteger(value) && value > 0)) {
+      return null;
+    }
+    return { ln, r, p };
+  }
+
+  private static derive(
+    password: string,
+    salt: Buffer | string,
+    keyLength: number,
+    { ln, r, p }: ScryptParams,
+  ): Promise<Buffer> {
+    const N = 2 ** ln;
+    const options: ScryptOptions = { N, r, p, maxmem: 256 * N * r };
+    return new Promise((resolve, reject) => {
+      scrypt(password, salt, keyLength, options, (error, derivedKey) => {
+        if (error) reject(error);
+        else resolve(derivedKey);
+      });
+    });
   }
 }
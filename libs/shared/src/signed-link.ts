@@ -0,0 +1,22 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * @description
+ * HMAC signature binding a resource id to an expiry time, for links that
+ * grant access without a login (`?expires=<ms>&signature=<hex>`).
+ */
+export function signLink(id: string, expires: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${id}.${expires}`).digest('hex');
+}
+
+export function verifyLink(
+  id: string,
+  expires: number,
+  signature: string,
+  secret: string,
+): boolean {
+  if (!Number.isFinite(expires) || expires <= Date.now()) return false;
+  const expected = Buffer.from(signLink(id, expires, secret), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,37 @@
+import { Totp } from './totp';
+
+describe('Totp', () => {
+  // RFC 6238 appendix B, SHA1 seed
+  const secret = Totp.base32Encode(Buffer.from('12345678901234567890'));
+  const vectors: [number, string][] = [
+    [59, '94287082'],
+    [1111111109, '07081804'],
+    [1111111111, '14050471'],
+    [1234567890, '89005924'],
+    [2000000000, '69279037'],
+    [20000000000, '65353130'],
+  ];
+
+  it.each(vectors)('should generate the RFC code at %i', (seconds, code) => {
+    const step = Totp.step(seconds * 1000);
+    expect(Totp.generate(secret, step, { digits: 8 })).toBe(code);
+  });
+
+  it('should accept a code from the previous step only inside the window', () => {
+    const time = 1111111111 * 1000;
+    const code = Totp.generate(secret, Totp.step(time) - 1);
+
+    expect(Totp.verify(secret, code, 1, time)).toBe(Totp.step(time) - 1);
+    expect(Totp.verify(secret, code, 0, time)).toBeNull();
+  });
+
+  it('should reject malformed codes', () => {
+    expect(Totp.verify(secret, '12a456')).toBeNull();
+    expect(Totp.verify(secret, '1234567')).toBeNull();
+  });
+
+  it('should round trip base32', () => {
+    const buffer = Buffer.from('youapp totp secret');
+    expect(Totp.base32Decode(Totp.base32Encode(buffer))).toEqual(buffer);
+  });
+});
@@ -0,0 +1,106 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpOptions {
+  digits?: number;
+  period?: number;
+}
+
+/**
+ * @description
+ * RFC 6238 time based one time passwords (HMAC-SHA1), compatible with the
+ * common authenticator apps. Secrets are base32 encoded.
+ */
+export class Totp {
+  static generateSecret(): string {
+    return Totp.base32Encode(randomBytes(20));
+  }
+
+  static step(time: number = Date.now(), period = 30): number {
+    return Math.floor(time / 1000 / period);
+  }
+
+  static generate(
+    secret: string,
+    step: number,
+    { digits = 6 }: TotpOptions = {},
+  ): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(step));
+    const hmac = createHmac('sha1', Totp.base32Decode(secret))
+      .update(counter)
+      .digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+    return (binary % 10 ** digits).toString().padStart(digits, '0');
+  }
+
+  /**
+   * Check a code against the current step and `window` steps around it, to
+   * allow for clock drift. Resolves to the matching step, or null.
+   */
+  static verify(
+    secret: string,
+    code: string,
+    window = 1,
+    time: number = Date.now(),
+    { digits = 6, period = 30 }: TotpOptions = {},
+  ): number | null {
+    if (!new RegExp(`^\\d{${digits}}$`).test(code)) return null;
+    const current = Totp.step(time, period);
+    for (let step = current - window; step <= current + window; step++) {
+      const expected = Totp.generate(secret, step, { digits });
+      if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return step;
+      }
+    }
+    return null;
+  }
+
+  static buildUri(secret: string, account: string, issuer: string): string {
+    const label = encodeURIComponent(`${issuer}:${account}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer,
+      algorithm: 'SHA1',
+      digits: '6',
+      period: '30',
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  static base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output;
+  }
+
+  static base32Decode(input: string): Buffer {
+    const clean = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const output: number[] = [];
+    for (const char of clean) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+      value = (value << 5) | index;
+      bits += 5;
+      if (bits >= 8) {
+        output.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+    return Buffer.from(output);
+  }
+}
@@ -0,0 +1,22 @@
+import { checkUsername, normalizeUsername } from './username-policy';
+
+describe('checkUsername', () => {
+  it('should accept letters, digits and single separators', () => {
+    expect(checkUsername('Angga.Dev_99')).toEqual([]);
+  });
+
+  it('should reject bad characters, lengths and separators', () => {
+    expect(checkUsername('a!')).toEqual([
+      'must be 3 to 30 characters long',
+      'may only contain letters, digits, dots and underscores',
+    ]);
+    expect(checkUsername('_angga..dev')).toEqual([
+      'must start and end with a letter or digit and not repeat dots or underscores',
+    ]);
+  });
+
+  it('should reject reserved names in any case', () => {
+    expect(checkUsername('YouApp')).toEqual(['is reserved']);
+    expect(normalizeUsername(' YouApp ')).toBe('youapp');
+  });
+});
@@ -0,0 +1,54 @@
+export const USERNAME_MIN_LENGTH = 3;
+export const USERNAME_MAX_LENGTH = 30;
+
+// names that could pass for the app or its staff
+const RESERVED_USERNAMES = [
+  'admin',
+  'administrator',
+  'api',
+  'help',
+  'moderator',
+  'null',
+  'root',
+  'security',
+  'support',
+  'system',
+  'undefined',
+  'youapp',
+];
+
+/**
+ * Usernames are unique regardless of case, this is the form they are
+ * compared in.
+ */
+export function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+/**
+ * Resolves to the rules the username breaks, empty when it is acceptable.
+ * Usernames are letters, digits, dots and underscores, starting and ending
+ * with a letter or digit.
+ */
+export function checkUsername(username: string): string[] {
+  const violations: string[] = [];
+  if (
+    username.length < USERNAME_MIN_LENGTH ||
+    username.length > USERNAME_MAX_LENGTH
+  ) {
+    violations.push(
+      `must be ${USERNAME_MIN_LENGTH} to ${USERNAME_MAX_LENGTH} characters long`,
+    );
+  }
+  if (!/^[a-zA-Z0-9._]*$/.test(username)) {
+    violations.push('may only contain letters, digits, dots and underscores');
+  } else if (/^[._]|[._]$|[._]{2}/.test(username)) {
+    violations.push(
+      'must start and end with a letter or digit and not repeat dots or underscores',
+    );
+  }
+  if (RESERVED_USERNAMES.includes(normalizeUsername(username))) {
+    violations.push('is reserved');
+  }
+  return violations;
+}